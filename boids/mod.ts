@@ -1,5 +1,22 @@
 import { Framework } from "../framework.ts";
-import { createBufferInit, Dimensions } from "../utils.ts";
+import { parseExampleArgs } from "../cli.ts";
+import { createBufferInit, Dimensions, packStruct } from "../utils.ts";
+import {
+  createBindGroupByName,
+  createBindGroupLayouts,
+  reflectWgslFile,
+} from "../reflection.ts";
+
+// A seeded generator (mulberry32) keeps the initial flock, and therefore the
+// render, the same on every run.
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
 class Boids extends Framework {
   particleCount: number;
@@ -24,59 +41,36 @@ class Boids extends Framework {
     this.particlesPerGroup = options.particlesPerGroup;
   }
 
-  // deno-lint-ignore require-await
   async init() {
-    const computeShader = this.device.createShaderModule({
-      code: Deno.readTextFileSync(new URL("./compute.wgsl", import.meta.url)),
-    });
+    const computeShaderUrl = new URL("./compute.wgsl", import.meta.url);
+    const computeShader = await this.loadShader(computeShaderUrl);
+    const computeReflection = await reflectWgslFile(computeShaderUrl);
 
-    const drawShader = this.device.createShaderModule({
-      code: Deno.readTextFileSync(new URL("./draw.wgsl", import.meta.url)),
-    });
+    const drawShader = await this.loadShader(
+      new URL("./draw.wgsl", import.meta.url),
+    );
 
-    const simParamData = new Float32Array([
-      0.04, // deltaT
-      0.1, // rule1Distance
-      0.025, // rule2Distance
-      0.025, // rule3Distance
-      0.02, // rule1Scale
-      0.05, // rule2Scale
-      0.005, // rule3Scale
-    ]);
+    const simParamData = packStruct(computeReflection.structs.SimParams, {
+      deltaT: 0.04,
+      rule1Distance: 0.1,
+      rule2Distance: 0.025,
+      rule3Distance: 0.025,
+      rule1Scale: 0.02,
+      rule2Scale: 0.05,
+      rule3Scale: 0.005,
+    });
 
     const simParamBuffer = createBufferInit(this.device, {
       label: "Simulation Parameter Buffer",
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-      contents: simParamData.buffer,
+      contents: simParamData,
     });
 
-    const computeBindGroupLayout = this.device.createBindGroupLayout({
-      entries: [
-        {
-          binding: 0,
-          visibility: GPUShaderStage.COMPUTE,
-          buffer: {
-            minBindingSize: simParamData.length * 4,
-          },
-        },
-        {
-          binding: 1,
-          visibility: GPUShaderStage.COMPUTE,
-          buffer: {
-            type: "read-only-storage",
-            minBindingSize: this.particleCount * 16,
-          },
-        },
-        {
-          binding: 2,
-          visibility: GPUShaderStage.COMPUTE,
-          buffer: {
-            type: "storage",
-            minBindingSize: this.particleCount * 16,
-          },
-        },
-      ],
-    });
+    const [computeBindGroupLayout] = createBindGroupLayouts(
+      this.device,
+      computeReflection,
+      { label: "compute" },
+    );
     const computePipelineLayout = this.device.createPipelineLayout({
       label: "compute",
       bindGroupLayouts: [computeBindGroupLayout],
@@ -124,7 +118,7 @@ class Boids extends Framework {
         entryPoint: "main_fs",
         targets: [
           {
-            format: "rgba8unorm-srgb",
+            format: this.format,
           },
         ],
       },
@@ -151,12 +145,13 @@ class Boids extends Framework {
       contents: vertexBufferData.buffer,
     });
 
+    const random = createRandom(1);
     const initialParticleData = new Float32Array(4 * this.particleCount);
     for (let i = 0; i < initialParticleData.length; i += 4) {
-      initialParticleData[i] = Math.random() * 2 - 1; // posx
-      initialParticleData[i + 1] = Math.random() * 2 - 1; // posy
-      initialParticleData[i + 2] = (Math.random() * 2 - 1) * 0.1; // velx
-      initialParticleData[i + 3] = (Math.random() * 2 - 1) * 0.1; // vely
+      initialParticleData[i] = random() * 2 - 1; // posx
+      initialParticleData[i + 1] = random() * 2 - 1; // posy
+      initialParticleData[i + 2] = (random() * 2 - 1) * 0.1; // velx
+      initialParticleData[i + 3] = (random() * 2 - 1) * 0.1; // vely
     }
 
     for (let i = 0; i < 2; i++) {
@@ -169,29 +164,17 @@ class Boids extends Framework {
     }
 
     for (let i = 0; i < 2; i++) {
-      this.particleBindGroups.push(this.device.createBindGroup({
-        layout: computeBindGroupLayout,
-        entries: [
-          {
-            binding: 0,
-            resource: {
-              buffer: simParamBuffer,
-            },
-          },
-          {
-            binding: 1,
-            resource: {
-              buffer: this.particleBuffers[i],
-            },
-          },
-          {
-            binding: 2,
-            resource: {
-              buffer: this.particleBuffers[(i + 1) % 2],
-            },
-          },
-        ],
-      }));
+      this.particleBindGroups.push(createBindGroupByName(
+        this.device,
+        computeReflection,
+        computeBindGroupLayout,
+        0,
+        {
+          params: simParamBuffer,
+          particlesSrc: this.particleBuffers[i],
+          particlesDst: this.particleBuffers[(i + 1) % 2],
+        },
+      ));
     }
   }
 
@@ -212,7 +195,8 @@ class Boids extends Framework {
         {
           view: view,
           storeOp: "store",
-          loadOp: "load",
+          loadOp: "clear",
+          clearValue: [0, 0, 0, 1],
         },
       ],
     });
@@ -230,12 +214,30 @@ class Boids extends Framework {
   }
 }
 
-const boids = new Boids({
-  particleCount: 1500, // This should match NUM_PARTICLES in the compute shader.
-  particlesPerGroup: 64,
+const args = parseExampleArgs({
+  name: "boids",
+  description: "Flocking boids example with gpu compute update pass",
   dimensions: {
     width: 1600,
     height: 1200,
   },
+  options: {
+    particleCount: {
+      type: "number",
+      default: 1500,
+      description: "Number of boids",
+      integer: true,
+      min: 1,
+    },
+  },
+});
+
+const boids = new Boids({
+  particleCount: args.particleCount,
+  particlesPerGroup: 64, // Must match @workgroup_size in the compute shader.
+  dimensions: {
+    width: args.width,
+    height: args.height,
+  },
 }, await Boids.getDevice());
-await boids.renderPng();
+await boids.renderOutput(args);
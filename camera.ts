@@ -0,0 +1,454 @@
+import { packStruct, wgsl } from "./utils.ts";
+
+export type Vec3 = [number, number, number];
+
+/** Column-major, like the matrices WGSL reads from buffers. */
+export type Mat4 = Float32Array;
+
+export type Projection =
+  | {
+    type: "perspective";
+    /** Vertical field of view in degrees. */
+    fovY: number;
+    near: number;
+    /** May be `Infinity`. */
+    far: number;
+    /** Map `near` to a depth of 1 and `far` to 0, for a `greater` depth test. */
+    reversedZ?: boolean;
+  }
+  | {
+    type: "orthographic";
+    /** Height of the view volume. Its width follows from the aspect ratio. */
+    height: number;
+    near: number;
+    far: number;
+    reversedZ?: boolean;
+  };
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(...v);
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+/** Adds up vectors, each scaled by the number preceding it. */
+function combine(...terms: [number, Vec3][]): Vec3 {
+  const result: Vec3 = [0, 0, 0];
+  for (const [scale, v] of terms) {
+    result[0] += scale * v[0];
+    result[1] += scale * v[1];
+    result[2] += scale * v[2];
+  }
+  return result;
+}
+
+/** Matrix helpers for the WebGPU conventions: right-handed, depth from 0 to 1. */
+export const mat4 = {
+  identity(): Mat4 {
+    // deno-fmt-ignore
+    return new Float32Array([
+      1, 0, 0, 0,
+      0, 1, 0, 0,
+      0, 0, 1, 0,
+      0, 0, 0, 1,
+    ]);
+  },
+
+  multiply(a: Mat4, b: Mat4): Mat4 {
+    const out = new Float32Array(16);
+    for (let column = 0; column < 4; column++) {
+      for (let row = 0; row < 4; row++) {
+        let sum = 0;
+        for (let k = 0; k < 4; k++) {
+          sum += a[k * 4 + row] * b[column * 4 + k];
+        }
+        out[column * 4 + row] = sum;
+      }
+    }
+    return out;
+  },
+
+  invert(m: Mat4): Mat4 {
+    // deno-fmt-ignore
+    const [
+      m00, m01, m02, m03,
+      m10, m11, m12, m13,
+      m20, m21, m22, m23,
+      m30, m31, m32, m33,
+    ] = m;
+    const b00 = m00 * m11 - m01 * m10;
+    const b01 = m00 * m12 - m02 * m10;
+    const b02 = m00 * m13 - m03 * m10;
+    const b03 = m01 * m12 - m02 * m11;
+    const b04 = m01 * m13 - m03 * m11;
+    const b05 = m02 * m13 - m03 * m12;
+    const b06 = m20 * m31 - m21 * m30;
+    const b07 = m20 * m32 - m22 * m30;
+    const b08 = m20 * m33 - m23 * m30;
+    const b09 = m21 * m32 - m22 * m31;
+    const b10 = m21 * m33 - m23 * m31;
+    const b11 = m22 * m33 - m23 * m32;
+    const determinant = b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 -
+      b04 * b07 + b05 * b06;
+    if (determinant === 0) {
+      throw new Error("matrix is not invertible");
+    }
+    const d = 1 / determinant;
+    // deno-fmt-ignore
+    return new Float32Array([
+      (m11 * b11 - m12 * b10 + m13 * b09) * d,
+      (m02 * b10 - m01 * b11 - m03 * b09) * d,
+      (m31 * b05 - m32 * b04 + m33 * b03) * d,
+      (m22 * b04 - m21 * b05 - m23 * b03) * d,
+      (m12 * b08 - m10 * b11 - m13 * b07) * d,
+      (m00 * b11 - m02 * b08 + m03 * b07) * d,
+      (m32 * b02 - m30 * b05 - m33 * b01) * d,
+      (m20 * b05 - m22 * b02 + m23 * b01) * d,
+      (m10 * b10 - m11 * b08 + m13 * b06) * d,
+      (m01 * b08 - m00 * b10 - m03 * b06) * d,
+      (m30 * b04 - m31 * b02 + m33 * b00) * d,
+      (m21 * b02 - m20 * b04 - m23 * b00) * d,
+      (m11 * b07 - m10 * b09 - m12 * b06) * d,
+      (m00 * b09 - m01 * b07 + m02 * b06) * d,
+      (m31 * b01 - m30 * b03 - m32 * b00) * d,
+      (m20 * b03 - m21 * b01 + m22 * b00) * d,
+    ]);
+  },
+
+  lookAt(eye: Vec3, target: Vec3, up: Vec3): Mat4 {
+    const f = normalize(sub(target, eye));
+    const s = normalize(cross(f, up));
+    const u = cross(s, f);
+    // deno-fmt-ignore
+    return new Float32Array([
+      s[0], u[0], -f[0], 0,
+      s[1], u[1], -f[1], 0,
+      s[2], u[2], -f[2], 0,
+      -dot(eye, s), -dot(eye, u), dot(eye, f), 1,
+    ]);
+  },
+
+  projection(projection: Projection, aspect: number): Mat4 {
+    const { near, far, reversedZ = false } = projection;
+    const out = new Float32Array(16);
+    if (projection.type === "perspective") {
+      const f = 1 / Math.tan(projection.fovY * Math.PI / 360);
+      out[0] = f / aspect;
+      out[5] = f;
+      out[11] = -1;
+      if (reversedZ) {
+        out[10] = far === Infinity ? 0 : near / (far - near);
+        out[14] = far === Infinity ? near : far * near / (far - near);
+      } else {
+        out[10] = far === Infinity ? -1 : far / (near - far);
+        out[14] = far === Infinity ? -near : far * near / (near - far);
+      }
+    } else {
+      out[0] = 2 / (projection.height * aspect);
+      out[5] = 2 / projection.height;
+      out[10] = reversedZ ? 1 / (far - near) : 1 / (near - far);
+      out[14] = reversedZ ? far / (far - near) : near / (near - far);
+      out[15] = 1;
+    }
+    return out;
+  },
+};
+
+/** A plane `[a, b, c, d]` holding the points where `ax + by + cz + d >= 0`. */
+export type Plane = [number, number, number, number];
+
+function signedDistance(plane: Plane, point: Vec3): number {
+  return plane[0] * point[0] + plane[1] * point[1] + plane[2] * point[2] +
+    plane[3];
+}
+
+export class Frustum {
+  /** Left, right, bottom, top, near and far planes, facing inwards. */
+  planes: Plane[];
+
+  /** Extracts the planes of the view volume of `viewProj`. */
+  constructor(viewProj: Mat4, reversedZ = false) {
+    const [r0, r1, r2, r3] = [0, 1, 2, 3].map((
+      i,
+    ) => [viewProj[i], viewProj[4 + i], viewProj[8 + i], viewProj[12 + i]]);
+    const add = (a: number[], b: number[], sign: number) =>
+      a.map((value, i) => value + sign * b[i]) as Plane;
+    // Clip space depth goes from 0 to 1, so one depth plane is z >= 0.
+    const zeroPlane = r2.slice() as Plane;
+    const onePlane = add(r3, r2, -1);
+    this.planes = [
+      add(r3, r0, 1),
+      add(r3, r0, -1),
+      add(r3, r1, 1),
+      add(r3, r1, -1),
+      reversedZ ? onePlane : zeroPlane,
+      reversedZ ? zeroPlane : onePlane,
+    ].map((plane) => {
+      const length = Math.hypot(plane[0], plane[1], plane[2]);
+      // The far plane of an infinite projection contains every point.
+      return length === 0
+        ? [0, 0, 0, 1]
+        : plane.map((value) => value / length) as Plane;
+    });
+  }
+
+  intersectsSphere(center: Vec3, radius: number): boolean {
+    return this.planes.every((plane) =>
+      signedDistance(plane, center) >= -radius
+    );
+  }
+
+  intersectsBox(min: Vec3, max: Vec3): boolean {
+    return this.planes.every((plane) => {
+      // The corner furthest along the normal of the plane.
+      const corner: Vec3 = [
+        plane[0] >= 0 ? max[0] : min[0],
+        plane[1] >= 0 ? max[1] : min[1],
+        plane[2] >= 0 ? max[2] : min[2],
+      ];
+      return signedDistance(plane, corner) >= 0;
+    });
+  }
+}
+
+/** The block `Camera.uniformData` packs, to be mirrored by shaders. */
+export const CAMERA_UNIFORMS = wgsl.struct({
+  view: wgsl.mat4x4f,
+  proj: wgsl.mat4x4f,
+  view_proj: wgsl.mat4x4f,
+  inv_view: wgsl.mat4x4f,
+  inv_proj: wgsl.mat4x4f,
+  inv_view_proj: wgsl.mat4x4f,
+  position: wgsl.vec3f,
+}, "Camera");
+
+/** Moves a camera, once when attached and then on every `Camera.update`. */
+export interface CameraController {
+  apply(camera: Camera): void;
+  update(camera: Camera, dt: number): void;
+}
+
+export interface CameraDescriptor {
+  projection: Projection;
+  /** Width divided by height of the render target. */
+  aspect: number;
+  position?: Vec3;
+  target?: Vec3;
+  /** Defaults to +Y. */
+  up?: Vec3;
+  /** Positions the camera instead of `position` and `target`. */
+  controller?: CameraController;
+}
+
+export class Camera {
+  projection: Projection;
+  aspect: number;
+  position: Vec3;
+  target: Vec3;
+  up: Vec3;
+  controller?: CameraController;
+
+  constructor(descriptor: CameraDescriptor) {
+    this.projection = descriptor.projection;
+    this.aspect = descriptor.aspect;
+    this.position = descriptor.position ?? [0, 0, 1];
+    this.target = descriptor.target ?? [0, 0, 0];
+    this.up = descriptor.up ?? [0, 1, 0];
+    this.controller = descriptor.controller;
+    this.controller?.apply(this);
+  }
+
+  /** Advances the controller by `dt` seconds. */
+  update(dt: number) {
+    this.controller?.update(this, dt);
+  }
+
+  view(): Mat4 {
+    return mat4.lookAt(this.position, this.target, this.up);
+  }
+
+  proj(): Mat4 {
+    return mat4.projection(this.projection, this.aspect);
+  }
+
+  viewProj(): Mat4 {
+    return mat4.multiply(this.proj(), this.view());
+  }
+
+  frustum(): Frustum {
+    return new Frustum(this.viewProj(), this.projection.reversedZ);
+  }
+
+  /** Packs the matrices and position as laid out by `CAMERA_UNIFORMS`. */
+  uniformData(): ArrayBuffer {
+    const view = this.view();
+    const proj = this.proj();
+    const viewProj = mat4.multiply(proj, view);
+    return packStruct(CAMERA_UNIFORMS, {
+      view,
+      proj,
+      view_proj: viewProj,
+      inv_view: mat4.invert(view),
+      inv_proj: mat4.invert(proj),
+      inv_view_proj: mat4.invert(viewProj),
+      position: this.position,
+    });
+  }
+}
+
+/**
+ * Horizontal axes for angles around `up`, such that an azimuth of 0 lies along
+ * +Z when `up` is +Y, and along -Y when `up` is +Z.
+ */
+function azimuthAxes(up: Vec3): { back: Vec3; side: Vec3 } {
+  const back = normalize(cross([1, 0, 0], up));
+  return { back, side: cross(up, back) };
+}
+
+/** Keeps the camera just short of looking straight along `up`. */
+const MAX_PITCH = Math.PI / 2 - 1e-3;
+
+function clampPitch(angle: number): number {
+  return Math.min(MAX_PITCH, Math.max(-MAX_PITCH, angle));
+}
+
+/** Circles the camera around a target. Angles are in radians. */
+export class OrbitController implements CameraController {
+  target: Vec3;
+  distance: number;
+  azimuth: number;
+  /** Angle above the plane perpendicular to `up`. */
+  elevation: number;
+  up: Vec3;
+  /** Radians per second `update` turns the azimuth by. */
+  speed: number;
+
+  constructor(options: {
+    target?: Vec3;
+    distance: number;
+    azimuth?: number;
+    elevation?: number;
+    up?: Vec3;
+    speed?: number;
+  }) {
+    this.target = options.target ?? [0, 0, 0];
+    this.distance = options.distance;
+    this.azimuth = options.azimuth ?? 0;
+    this.elevation = clampPitch(options.elevation ?? 0);
+    this.up = options.up ?? [0, 1, 0];
+    this.speed = options.speed ?? 0;
+  }
+
+  rotate(azimuth: number, elevation: number) {
+    this.azimuth += azimuth;
+    this.elevation = clampPitch(this.elevation + elevation);
+  }
+
+  /** Scales the distance to the target, moving closer for factors below 1. */
+  zoom(factor: number) {
+    this.distance *= factor;
+  }
+
+  position(): Vec3 {
+    const { back, side } = azimuthAxes(this.up);
+    const horizontal = Math.cos(this.elevation) * this.distance;
+    return combine(
+      [1, this.target],
+      [Math.sin(this.azimuth) * horizontal, side],
+      [Math.cos(this.azimuth) * horizontal, back],
+      [Math.sin(this.elevation) * this.distance, this.up],
+    );
+  }
+
+  apply(camera: Camera) {
+    camera.position = this.position();
+    camera.target = [...this.target];
+    camera.up = [...this.up];
+  }
+
+  update(camera: Camera, dt: number) {
+    this.azimuth += this.speed * dt;
+    this.apply(camera);
+  }
+}
+
+/** Moves the camera freely, looking along a yaw and pitch in radians. */
+export class FlyController implements CameraController {
+  position: Vec3;
+  /** Turn around `up`. A yaw of 0 looks along -Z when `up` is +Y. */
+  yaw: number;
+  pitch: number;
+  up: Vec3;
+  /** Units per second `update` moves by along `[forward, right, up]`. */
+  velocity: Vec3;
+
+  constructor(options: {
+    position: Vec3;
+    yaw?: number;
+    pitch?: number;
+    up?: Vec3;
+    velocity?: Vec3;
+  }) {
+    this.position = options.position;
+    this.yaw = options.yaw ?? 0;
+    this.pitch = clampPitch(options.pitch ?? 0);
+    this.up = options.up ?? [0, 1, 0];
+    this.velocity = options.velocity ?? [0, 0, 0];
+  }
+
+  forward(): Vec3 {
+    const { back, side } = azimuthAxes(this.up);
+    const horizontal = Math.cos(this.pitch);
+    return combine(
+      [-Math.sin(this.yaw) * horizontal, side],
+      [-Math.cos(this.yaw) * horizontal, back],
+      [Math.sin(this.pitch), this.up],
+    );
+  }
+
+  turn(yaw: number, pitch: number) {
+    this.yaw += yaw;
+    this.pitch = clampPitch(this.pitch + pitch);
+  }
+
+  /** Moves along the view direction, to the right and along `up`. */
+  move(forward: number, right: number, up: number) {
+    const direction = this.forward();
+    this.position = combine(
+      [1, this.position],
+      [forward, direction],
+      [right, normalize(cross(direction, this.up))],
+      [up, this.up],
+    );
+  }
+
+  apply(camera: Camera) {
+    camera.position = [...this.position];
+    camera.target = combine([1, this.position], [1, this.forward()]);
+    camera.up = [...this.up];
+  }
+
+  update(camera: Camera, dt: number) {
+    this.move(
+      this.velocity[0] * dt,
+      this.velocity[1] * dt,
+      this.velocity[2] * dt,
+    );
+    this.apply(camera);
+  }
+}
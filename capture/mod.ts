@@ -1,39 +1,33 @@
-import { copyToBuffer, createPng, Dimensions } from "../utils.ts";
-import { createCapture } from "std/webgpu";
-
-const dimensions: Dimensions = {
-  width: 100,
-  height: 200,
-};
-
-const adapter = await navigator.gpu.requestAdapter();
-const device = await adapter?.requestDevice();
-
-if (!device) {
-  console.error("no suitable adapter found");
-  Deno.exit(0);
+import { Framework } from "../framework.ts";
+import { parseExampleArgs } from "../cli.ts";
+
+class Capture extends Framework {
+  render(encoder: GPUCommandEncoder, view: GPUTextureView) {
+    encoder.beginRenderPass({
+      colorAttachments: [
+        {
+          view: view,
+          storeOp: "store",
+          loadOp: "clear",
+          clearValue: [1, 0, 0, 1],
+        },
+      ],
+    }).end();
+  }
 }
 
-const { texture, outputBuffer } = createCapture(
-  device,
-  dimensions.width,
-  dimensions.height,
-);
-
-const encoder = device.createCommandEncoder();
-encoder.beginRenderPass({
-  colorAttachments: [
-    {
-      view: texture.createView(),
-      storeOp: "store",
-      loadOp: "clear",
-      clearValue: [1, 0, 0, 1],
-    },
-  ],
-}).end();
-
-copyToBuffer(encoder, texture, outputBuffer, dimensions);
-
-device.queue.submit([encoder.finish()]);
-
-await createPng(outputBuffer, dimensions);
+const args = parseExampleArgs({
+  name: "capture",
+  description:
+    "This example shows how to capture an image by rendering it to a texture, copying the texture to a buffer, and retrieving it from the buffer.",
+  dimensions: {
+    width: 100,
+    height: 200,
+  },
+});
+
+const capture = new Capture({
+  width: args.width,
+  height: args.height,
+}, await Capture.getDevice());
+await capture.renderOutput(args);
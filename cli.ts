@@ -0,0 +1,264 @@
+import { Dimensions } from "./utils.ts";
+
+export type OptionSpec =
+  | {
+    type: "number";
+    default: number;
+    description: string;
+    integer?: boolean;
+    min?: number;
+    max?: number;
+  }
+  | { type: "boolean"; default: boolean; description: string }
+  | {
+    type: "string";
+    default: string;
+    description: string;
+    choices?: readonly string[];
+  };
+
+export type Schema = Record<string, OptionSpec>;
+
+export type OptionValues<S extends Schema> = {
+  [K in keyof S]: S[K] extends { type: "number" } ? number
+    : S[K] extends { type: "boolean" } ? boolean
+    : string;
+};
+
+/** The flags every rendering example accepts. */
+export interface RenderArgs extends Dimensions {
+  out: string;
+  frames: number;
+  golden: boolean;
+  profile: boolean;
+  profileOut: string;
+}
+
+export interface ExampleSpec<S extends Schema> {
+  name: string;
+  description: string;
+  /** Default render size. Examples without one take no render flags. */
+  dimensions?: Dimensions;
+  options?: S;
+  /** Describes the positional arguments, which are rejected when unset. */
+  positionals?: string;
+}
+
+function renderSchema(dimensions: Dimensions) {
+  return {
+    width: {
+      type: "number",
+      default: dimensions.width,
+      description: "Width of the rendered image",
+      integer: true,
+      min: 1,
+    },
+    height: {
+      type: "number",
+      default: dimensions.height,
+      description: "Height of the rendered image",
+      integer: true,
+      min: 1,
+    },
+    out: {
+      type: "string",
+      default: "./output.png",
+      description:
+        "Output file, relative to the example directory. .gif and .apng write an animation of every frame",
+    },
+    frames: {
+      type: "number",
+      default: 1,
+      description: "Number of frames to render",
+      integer: true,
+      min: 1,
+    },
+    golden: {
+      type: "boolean",
+      default: false,
+      description: "Compare against the existing output image instead",
+    },
+    profile: {
+      type: "boolean",
+      default: false,
+      description: "Print how long every render and compute pass took",
+    },
+    profileOut: {
+      type: "string",
+      default: "",
+      description:
+        "Also write the pass timings of every frame to this JSON file",
+    },
+  } satisfies Schema;
+}
+
+function toFlag(key: string): string {
+  return key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+function parseValue(key: string, spec: OptionSpec, raw: string) {
+  const flag = `--${toFlag(key)}`;
+  switch (spec.type) {
+    case "boolean":
+      if (raw !== "true" && raw !== "false") {
+        throw new Error(`${flag} must be true or false, got "${raw}"`);
+      }
+      return raw === "true";
+    case "number": {
+      const value = Number(raw);
+      if (raw.trim() === "" || Number.isNaN(value)) {
+        throw new Error(`${flag} must be a number, got "${raw}"`);
+      }
+      if (spec.integer && !Number.isInteger(value)) {
+        throw new Error(`${flag} must be an integer, got ${value}`);
+      }
+      if (spec.min !== undefined && value < spec.min) {
+        throw new Error(`${flag} must be at least ${spec.min}, got ${value}`);
+      }
+      if (spec.max !== undefined && value > spec.max) {
+        throw new Error(`${flag} must be at most ${spec.max}, got ${value}`);
+      }
+      return value;
+    }
+    case "string":
+      if (spec.choices && !spec.choices.includes(raw)) {
+        throw new Error(
+          `${flag} must be one of ${spec.choices.join(", ")}, got "${raw}"`,
+        );
+      }
+      return raw;
+  }
+}
+
+/**
+ * Parses `--kebab-case value` and `--kebab-case=value` flags for the camelCase
+ * keys of `schema`. Boolean flags may be given without a value, or negated
+ * with a `--no-` prefix. Throws on unknown flags and invalid values.
+ */
+export function parseOptions<S extends Schema>(
+  schema: S,
+  args: string[],
+): { values: OptionValues<S>; positionals: string[] } {
+  const values: Record<string, unknown> = {};
+  const keys = new Map<string, string>();
+  for (const [key, spec] of Object.entries(schema)) {
+    values[key] = spec.default;
+    keys.set(toFlag(key), key);
+  }
+
+  const positionals = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    let [name, raw] = arg.slice(2).split(/=(.*)/s, 2) as [
+      string,
+      string | undefined,
+    ];
+    let key = keys.get(name);
+    if (key === undefined && name.startsWith("no-")) {
+      key = keys.get(name.slice(3));
+      if (key !== undefined && schema[key].type === "boolean") {
+        if (raw !== undefined) {
+          throw new Error(`--${name} does not take a value`);
+        }
+        raw = "false";
+      } else {
+        key = undefined;
+      }
+    }
+    if (key === undefined) {
+      throw new Error(`unknown option --${name}`);
+    }
+
+    const spec = schema[key];
+    if (raw === undefined) {
+      if (spec.type === "boolean") {
+        raw = "true";
+      } else if (i + 1 < args.length) {
+        raw = args[++i];
+      } else {
+        throw new Error(`--${name} needs a value`);
+      }
+    }
+    values[key] = parseValue(key, spec, raw);
+  }
+
+  return { values: values as OptionValues<S>, positionals };
+}
+
+export function formatHelp(
+  usage: string,
+  description: string,
+  schema: Schema,
+): string {
+  const rows = Object.entries(schema).map(([key, spec]) => {
+    const flag = spec.type === "boolean"
+      ? `--[no-]${toFlag(key)}`
+      : `--${toFlag(key)} <${spec.type}>`;
+    const choices = spec.type === "string" && spec.choices
+      ? ` (one of ${spec.choices.join(", ")})`
+      : "";
+    return [
+      flag,
+      `${spec.description}${choices} [default: ${
+        JSON.stringify(spec.default)
+      }]`,
+    ];
+  });
+  rows.push(["--help", "Print this help"]);
+  const width = Math.max(...rows.map(([flag]) => flag.length));
+  return [
+    description,
+    "",
+    `Usage: ${usage}`,
+    "",
+    "Options:",
+    ...rows.map(([flag, text]) => `  ${flag.padEnd(width)}  ${text}`),
+  ].join("\n");
+}
+
+/**
+ * Parses the command line of an example. `--help` prints the help and exits,
+ * invalid arguments print the error and exit with status 1.
+ */
+export function parseExampleArgs<S extends Schema>(
+  spec: ExampleSpec<S> & { dimensions: Dimensions },
+  args?: string[],
+): OptionValues<S> & RenderArgs & { positionals: string[] };
+export function parseExampleArgs<S extends Schema>(
+  spec: ExampleSpec<S>,
+  args?: string[],
+): OptionValues<S> & { positionals: string[] };
+export function parseExampleArgs<S extends Schema>(
+  spec: ExampleSpec<S>,
+  args: string[] = Deno.args,
+): OptionValues<S> & { positionals: string[] } {
+  const schema: Schema = {
+    ...(spec.dimensions ? renderSchema(spec.dimensions) : {}),
+    ...spec.options,
+  };
+  const usage = `deno task example ${spec.name} [options]${
+    spec.positionals ? ` [${spec.positionals}...]` : ""
+  }`;
+
+  if (args.includes("--help")) {
+    console.log(formatHelp(usage, spec.description, schema));
+    Deno.exit(0);
+  }
+
+  try {
+    const { values, positionals } = parseOptions(schema, args);
+    if (positionals.length > 0 && !spec.positionals) {
+      throw new Error(`unexpected argument "${positionals[0]}"`);
+    }
+    return { ...values as OptionValues<S>, positionals };
+  } catch (error) {
+    console.error(`error: ${(error as Error).message}\n`);
+    console.error(formatHelp(usage, spec.description, schema));
+    Deno.exit(1);
+  }
+}
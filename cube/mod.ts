@@ -1,60 +1,8 @@
-import * as gmath from "gmath";
 import { Framework } from "../framework.ts";
-import { createBufferInit, OPENGL_TO_WGPU_MATRIX } from "../utils.ts";
-
-function vertex(pos: [number, number, number], tc: [number, number]): number[] {
-  return [...pos, 1, ...tc];
-}
-
-function createVertices(): {
-  vertexData: Float32Array;
-  indexData: Uint16Array;
-} {
-  const vertexData = new Float32Array([
-    // top (0, 0, 1)
-    ...vertex([-1, -1, 1], [0, 0]),
-    ...vertex([1, -1, 1], [1, 0]),
-    ...vertex([1, 1, 1], [1, 1]),
-    ...vertex([-1, 1, 1], [0, 1]),
-    // bottom (0, 0, -1)
-    ...vertex([-1, 1, -1], [1, 0]),
-    ...vertex([1, 1, -1], [0, 0]),
-    ...vertex([1, -1, -1], [0, 1]),
-    ...vertex([-1, -1, -1], [1, 1]),
-    // right (1, 0, 0)
-    ...vertex([1, -1, -1], [0, 0]),
-    ...vertex([1, 1, -1], [1, 0]),
-    ...vertex([1, 1, 1], [1, 1]),
-    ...vertex([1, -1, 1], [0, 1]),
-    // left (-1, 0, 0)
-    ...vertex([-1, -1, 1], [1, 0]),
-    ...vertex([-1, 1, 1], [0, 0]),
-    ...vertex([-1, 1, -1], [0, 1]),
-    ...vertex([-1, -1, -1], [1, 1]),
-    // front (0, 1, 0)
-    ...vertex([1, 1, -1], [1, 0]),
-    ...vertex([-1, 1, -1], [0, 0]),
-    ...vertex([-1, 1, 1], [0, 1]),
-    ...vertex([1, 1, 1], [1, 1]),
-    // back (0, -1, 0)
-    ...vertex([1, -1, 1], [0, 0]),
-    ...vertex([-1, -1, 1], [1, 0]),
-    ...vertex([-1, -1, -1], [1, 1]),
-    ...vertex([1, -1, -1], [0, 1]),
-  ]);
-
-  // deno-fmt-ignore
-  const indexData = new Uint16Array([
-    0, 1, 2, 2, 3, 0, // top
-    4, 5, 6, 6, 7, 4, // bottom
-    8, 9, 10, 10, 11, 8, // right
-    12, 13, 14, 14, 15, 12, // left
-    16, 17, 18, 18, 19, 16, // front
-    20, 21, 22, 22, 23, 20, // back
-  ]);
-
-  return { vertexData, indexData };
-}
+import { parseExampleArgs } from "../cli.ts";
+import { Camera } from "../camera.ts";
+import { buildMesh, createCube, createMeshBuffers } from "../mesh.ts";
+import { createBufferInit, Dimensions } from "../utils.ts";
 
 function createTexels(size: number): Uint8Array {
   const texels = new Uint8Array(size * size);
@@ -75,44 +23,20 @@ function createTexels(size: number): Uint8Array {
   return texels;
 }
 
-function generateMatrix(aspectRatio: number): Float32Array {
-  const mxProjection = new gmath.PerspectiveFov(
-    new gmath.Deg(45),
-    aspectRatio,
-    1,
-    1000,
-  ).toPerspective().toMatrix4();
-  const mxView = gmath.Matrix4.lookAtRh(
-    new gmath.Vector3(1.5, -5, 3),
-    new gmath.Vector3(0, 0, 0),
-    gmath.Vector3.forward(),
-  );
-  return OPENGL_TO_WGPU_MATRIX.mul(mxProjection.mul(mxView)).toFloat32Array();
-}
-
 class Cube extends Framework {
   pipeline!: GPURenderPipeline;
   bindGroup!: GPUBindGroup;
   indexBuffer!: GPUBuffer;
   vertexBuffer!: GPUBuffer;
   indexCount!: number;
+  uniformBuffer!: GPUBuffer;
+  camera!: Camera;
 
-  // deno-lint-ignore require-await
   async init() {
-    const { vertexData, indexData } = createVertices();
-    this.indexCount = indexData.length;
-
-    this.vertexBuffer = createBufferInit(this.device, {
-      label: "Vertex Buffer",
-      usage: GPUBufferUsage.VERTEX,
-      contents: vertexData.buffer,
-    });
-
-    this.indexBuffer = createBufferInit(this.device, {
-      label: "Index Buffer",
-      usage: GPUBufferUsage.INDEX,
-      contents: indexData.buffer,
-    });
+    const mesh = buildMesh(createCube(), { attributes: ["position", "uv"] });
+    this.indexCount = mesh.indexCount;
+    ({ vertexBuffer: this.vertexBuffer, indexBuffer: this.indexBuffer } =
+      createMeshBuffers(this.device, mesh, "Cube"));
 
     const bindGroupLayout = this.device.createBindGroupLayout({
       entries: [
@@ -161,13 +85,16 @@ class Cube extends Framework {
       textureExtent,
     );
 
-    const mxTotal = generateMatrix(
-      this.dimensions.width / this.dimensions.height,
-    );
-    const uniformBuffer = createBufferInit(this.device, {
+    this.camera = new Camera({
+      projection: { type: "perspective", fovY: 45, near: 1, far: 1000 },
+      aspect: this.dimensions.width / this.dimensions.height,
+      position: [1.5, -5, 3],
+      up: [0, 0, 1],
+    });
+    this.uniformBuffer = createBufferInit(this.device, {
       label: "Uniform Buffer",
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-      contents: mxTotal.buffer,
+      contents: this.camera.viewProj().buffer,
     });
 
     this.bindGroup = this.device.createBindGroup({
@@ -176,7 +103,7 @@ class Cube extends Framework {
         {
           binding: 0,
           resource: {
-            buffer: uniformBuffer,
+            buffer: this.uniformBuffer,
           },
         },
         {
@@ -186,40 +113,23 @@ class Cube extends Framework {
       ],
     });
 
-    const shader = this.device.createShaderModule({
-      code: Deno.readTextFileSync(new URL("./shader.wgsl", import.meta.url)),
-    });
-    const vertexBuffers: GPUVertexBufferLayout[] = [
-      {
-        arrayStride: 6 * 4,
-        attributes: [
-          {
-            format: "float32x4",
-            offset: 0,
-            shaderLocation: 0,
-          },
-          {
-            format: "float32x2",
-            offset: 4 * 4,
-            shaderLocation: 1,
-          },
-        ],
-      },
-    ];
+    const shader = await this.loadShader(
+      new URL("./shader.wgsl", import.meta.url),
+    );
 
     this.pipeline = this.device.createRenderPipeline({
       layout: pipelineLayout,
       vertex: {
         module: shader,
         entryPoint: "vs_main",
-        buffers: vertexBuffers,
+        buffers: [mesh.layout],
       },
       fragment: {
         module: shader,
         entryPoint: "fs_main",
         targets: [
           {
-            format: "rgba8unorm-srgb",
+            format: this.format,
           },
         ],
       },
@@ -229,6 +139,15 @@ class Cube extends Framework {
     });
   }
 
+  onResize(dimensions: Dimensions) {
+    this.camera.aspect = dimensions.width / dimensions.height;
+    this.device.queue.writeBuffer(
+      this.uniformBuffer,
+      0,
+      this.camera.viewProj(),
+    );
+  }
+
   render(encoder: GPUCommandEncoder, view: GPUTextureView) {
     const renderPass = encoder.beginRenderPass({
       colorAttachments: [
@@ -253,8 +172,17 @@ class Cube extends Framework {
   }
 }
 
+const args = parseExampleArgs({
+  name: "cube",
+  description: "This example renders a textured cube.",
+  dimensions: {
+    width: 1600,
+    height: 1200,
+  },
+});
+
 const cube = new Cube({
-  width: 1600,
-  height: 1200,
+  width: args.width,
+  height: args.height,
 }, await Cube.getDevice());
-await cube.renderPng();
+await cube.renderOutput(args);
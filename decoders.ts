@@ -0,0 +1,192 @@
+import * as png from "png";
+import { Pixels, readPngChunks } from "./encoders.ts";
+import { Dimensions } from "./utils.ts";
+
+export interface DecodedImage extends Dimensions {
+  /** RGBA pixels, 16 bits per channel when the source is 16-bit. */
+  data: Pixels;
+}
+
+export interface HdrImage extends Dimensions {
+  /** Linear RGBA pixels, with an alpha of 1. */
+  data: Float32Array;
+}
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Decodes a PNG file of any color type and bit depth into RGBA pixels,
+ * expanding grayscale and palette images and applying `tRNS` transparency.
+ */
+export function decodePng(file: Uint8Array): DecodedImage {
+  const { image, width, height, colorType, bitDepth, lineSize } = png.decode(
+    file,
+  );
+  const channels = CHANNELS[colorType];
+  if (channels === undefined) {
+    throw new Error(`unsupported png color type ${colorType}`);
+  }
+
+  let palette: Uint8Array | undefined;
+  let transparency: Uint8Array | undefined;
+  for (const chunk of readPngChunks(file)) {
+    if (chunk.type === "PLTE") palette = chunk.data;
+    if (chunk.type === "tRNS") transparency = chunk.data;
+  }
+
+  const wide = bitDepth === 16 && colorType !== 3;
+  const data = wide
+    ? new Uint16Array(width * height * 4)
+    : new Uint8Array(width * height * 4);
+  const max = wide ? 0xffff : 0xff;
+  const sampleMax = (1 << bitDepth) - 1;
+  const scale = (value: number) =>
+    wide || bitDepth === 8 ? value : Math.round(value * 255 / sampleMax);
+
+  const sample = (row: number, index: number): number => {
+    const offset = row * lineSize;
+    if (bitDepth === 16) {
+      return (image[offset + index * 2] << 8) | image[offset + index * 2 + 1];
+    } else if (bitDepth === 8) {
+      return image[offset + index];
+    }
+    const bit = index * bitDepth;
+    const byte = image[offset + (bit >> 3)];
+    return (byte >> (8 - bitDepth - (bit & 7))) & sampleMax;
+  };
+  // tRNS holds 16-bit big-endian samples for grayscale and RGB images
+  const transparent = (index: number) =>
+    (transparency![index * 2] << 8) | transparency![index * 2 + 1];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const first = x * channels;
+      if (colorType === 3) {
+        const index = sample(y, first);
+        data.set(palette!.subarray(index * 3, index * 3 + 3), out);
+        data[out + 3] = transparency?.[index] ?? 0xff;
+      } else if (colorType === 0 || colorType === 4) {
+        const gray = sample(y, first);
+        data.fill(scale(gray), out, out + 3);
+        if (colorType === 4) {
+          data[out + 3] = scale(sample(y, first + 1));
+        } else {
+          data[out + 3] = transparency && gray === transparent(0) ? 0 : max;
+        }
+      } else {
+        const rgb = [0, 1, 2].map((channel) => sample(y, first + channel));
+        data.set(rgb.map(scale), out);
+        if (colorType === 6) {
+          data[out + 3] = sample(y, first + 3);
+        } else {
+          data[out + 3] = transparency &&
+              rgb.every((value, channel) => value === transparent(channel))
+            ? 0
+            : max;
+        }
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Decodes a Radiance RGBE `.hdr` file, with flat or run-length encoded
+ * scanlines stored top-down or bottom-up, into linear float pixels.
+ */
+export function decodeHdr(file: Uint8Array): HdrImage {
+  let offset = 0;
+  const readLine = () => {
+    const end = file.indexOf(0x0a, offset);
+    if (end < 0) throw new Error("truncated hdr header");
+    const line = new TextDecoder().decode(file.subarray(offset, end));
+    offset = end + 1;
+    return line;
+  };
+  if (!/^#\?(RADIANCE|RGBE)/.test(readLine())) {
+    throw new Error("not a Radiance hdr file");
+  }
+  for (let line = readLine(); line !== ""; line = readLine()) {
+    const format = line.match(/^FORMAT=(.*)/)?.[1];
+    if (format && format !== "32-bit_rle_rgbe") {
+      throw new Error(`unsupported hdr format ${format}`);
+    }
+  }
+  const resolution = readLine().match(/^([-+])Y (\d+) \+X (\d+)$/);
+  if (!resolution) throw new Error("unsupported hdr scanline order");
+  const height = Number(resolution[2]);
+  const width = Number(resolution[3]);
+
+  const rgbe = new Uint8Array(width * height * 4);
+  const next = () => {
+    if (offset >= file.length) throw new Error("truncated hdr data");
+    return file[offset++];
+  };
+  for (let y = 0; y < height; y++) {
+    const row = rgbe.subarray(y * width * 4, (y + 1) * width * 4);
+    if (
+      width >= 8 && width < 0x8000 && file[offset] === 2 &&
+      file[offset + 1] === 2 && ((file[offset + 2] << 8) | file[offset + 3]) ===
+        width
+    ) {
+      // Each channel is run-length encoded on its own.
+      offset += 4;
+      for (let channel = 0; channel < 4; channel++) {
+        for (let x = 0; x < width;) {
+          let count = next();
+          const run = count > 128;
+          if (run) count -= 128;
+          if (count === 0 || x + count > width) {
+            throw new Error("bad hdr scanline");
+          }
+          const value = run ? next() : 0;
+          for (const end = x + count; x < end; x++) {
+            row[x * 4 + channel] = run ? value : next();
+          }
+        }
+      }
+    } else {
+      // Flat pixels, where (1, 1, 1, n) repeats the previous pixel.
+      let shift = 0;
+      for (let x = 0; x < width;) {
+        const pixel = [next(), next(), next(), next()];
+        if (pixel[0] === 1 && pixel[1] === 1 && pixel[2] === 1) {
+          if (x === 0) throw new Error("bad hdr scanline");
+          const count = Math.min(pixel[3] << shift, width - x);
+          for (let i = 0; i < count; i++, x++) {
+            row.copyWithin(x * 4, (x - 1) * 4, x * 4);
+          }
+          shift += 8;
+        } else {
+          row.set(pixel, x++ * 4);
+          shift = 0;
+        }
+      }
+    }
+  }
+
+  const data = new Float32Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    // "+Y" files store the bottom row first.
+    const source = resolution[1] === "+" ? height - 1 - y : y;
+    for (let x = 0; x < width; x++) {
+      const i = (source * width + x) * 4;
+      const o = (y * width + x) * 4;
+      const exponent = rgbe[i + 3];
+      const scale = exponent ? 2 ** (exponent - 136) : 0;
+      for (let c = 0; c < 3; c++) {
+        data[o + c] = exponent ? (rgbe[i + c] + 0.5) * scale : 0;
+      }
+      data[o + 3] = 1;
+    }
+  }
+  return { width, height, data };
+}
+
+/** Converts 16-bit pixels to 8 bits per channel, passing 8-bit pixels through. */
+export function to8Bit(data: Pixels): Uint8Array {
+  if (data instanceof Uint8Array) return data;
+  return Uint8Array.from(data, (value) => Math.round(value / 257));
+}
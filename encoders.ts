@@ -0,0 +1,661 @@
+import * as png from "png";
+import { Dimensions } from "./utils.ts";
+
+export interface AnimationOptions {
+  /** Time each frame is shown for, in milliseconds. Defaults to 1000/60. */
+  delay?: number;
+  /** Number of times the animation plays, 0 means forever. Defaults to 0. */
+  loop?: number;
+}
+
+export interface GifOptions extends AnimationOptions {
+  /** Maximum palette size per frame, between 2 and 256. Defaults to 256. */
+  colors?: number;
+  /** Use Floyd-Steinberg error diffusion when mapping to the palette. */
+  dither?: boolean;
+}
+
+const DEFAULT_DELAY = 1000 / 60;
+
+class ByteWriter {
+  #bytes: number[] = [];
+
+  u8(...values: number[]) {
+    this.#bytes.push(...values);
+  }
+
+  u16le(value: number) {
+    this.#bytes.push(value & 0xff, (value >> 8) & 0xff);
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) {
+      this.#bytes.push(text.charCodeAt(i));
+    }
+  }
+
+  bytes(data: Uint8Array) {
+    for (let i = 0; i < data.length; i++) {
+      this.#bytes.push(data[i]);
+    }
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.#bytes);
+  }
+}
+
+// Still images
+
+export interface ImageOptions {
+  /**
+   * Whether to write the alpha channel. `"auto"` keeps it only when some pixel
+   * is not fully opaque. Defaults to `"auto"`.
+   */
+  alpha?: "auto" | "keep" | "strip";
+  /**
+   * Bits per channel for PNG, PPM and PAM files. Defaults to the depth of the
+   * pixel data. QOI files are always 8 bits per channel.
+   */
+  depth?: 8 | 16;
+}
+
+/** RGBA pixels with 8 or 16 bits per channel. */
+export type Pixels = Uint8Array | Uint16Array;
+
+function channelCount(data: Pixels, alpha: ImageOptions["alpha"]): 3 | 4 {
+  if (alpha === "keep") return 4;
+  if (alpha === "strip") return 3;
+  const opaque = data instanceof Uint16Array ? 0xffff : 0xff;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== opaque) return 4;
+  }
+  return 3;
+}
+
+/** Converts RGBA pixels to big-endian samples with the given layout. */
+function toSamples(data: Pixels, channels: 3 | 4, depth: 8 | 16): Uint8Array {
+  const wide = data instanceof Uint16Array;
+  const pixelCount = data.length / 4;
+  const out = new Uint8Array(pixelCount * channels * (depth / 8));
+  let offset = 0;
+  for (let i = 0; i < pixelCount; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const value = data[i * 4 + channel];
+      if (depth === 16) {
+        const sample = wide ? value : value * 257;
+        out[offset++] = sample >> 8;
+        out[offset++] = sample & 0xff;
+      } else {
+        out[offset++] = wide ? Math.round(value / 257) : value;
+      }
+    }
+  }
+  return out;
+}
+
+export function encodePng(
+  data: Pixels,
+  dimensions: Dimensions,
+  options: ImageOptions = {},
+): Uint8Array {
+  const channels = channelCount(data, options.alpha);
+  const depth = options.depth ?? (data instanceof Uint16Array ? 16 : 8);
+  return png.encode(
+    toSamples(data, channels, depth),
+    dimensions.width,
+    dimensions.height,
+    {
+      color: channels === 4 ? 6 : 2,
+      depth,
+    },
+  );
+}
+
+/** Encodes a binary PPM (P6) file, or a PAM (P7) file when `pam` is set. */
+export function encodePnm(
+  data: Pixels,
+  dimensions: Dimensions,
+  options: ImageOptions & { pam?: boolean } = {},
+): Uint8Array {
+  const channels = options.pam ? channelCount(data, options.alpha) : 3;
+  const depth = options.depth ?? (data instanceof Uint16Array ? 16 : 8);
+  const maxValue = depth === 16 ? 0xffff : 0xff;
+  const header = options.pam
+    ? [
+      "P7",
+      `WIDTH ${dimensions.width}`,
+      `HEIGHT ${dimensions.height}`,
+      `DEPTH ${channels}`,
+      `MAXVAL ${maxValue}`,
+      `TUPLTYPE ${channels === 4 ? "RGB_ALPHA" : "RGB"}`,
+      "ENDHDR",
+    ]
+    : ["P6", `${dimensions.width} ${dimensions.height}`, `${maxValue}`];
+  const headerBytes = new TextEncoder().encode(header.join("\n") + "\n");
+  const samples = toSamples(data, channels, depth);
+
+  const out = new Uint8Array(headerBytes.length + samples.length);
+  out.set(headerBytes);
+  out.set(samples, headerBytes.length);
+  return out;
+}
+
+/** Encodes a [QOI](https://qoiformat.org/) image. */
+export function encodeQoi(
+  data: Pixels,
+  dimensions: Dimensions,
+  options: ImageOptions = {},
+): Uint8Array {
+  const channels = channelCount(data, options.alpha);
+  const samples = toSamples(data, 4, 8);
+  const pixelCount = dimensions.width * dimensions.height;
+  const out = new Uint8Array(14 + pixelCount * 5 + 8);
+  const view = new DataView(out.buffer);
+  out.set([0x71, 0x6f, 0x69, 0x66]); // "qoif"
+  view.setUint32(4, dimensions.width);
+  view.setUint32(8, dimensions.height);
+  out[12] = channels;
+  out[13] = 0;
+
+  const index = new Uint32Array(64);
+  const signed = (value: number) => (value << 24) >> 24;
+  let offset = 14;
+  let run = 0;
+  let [pr, pg, pb, pa] = [0, 0, 0, 255];
+  for (let i = 0; i < pixelCount; i++) {
+    const r = samples[i * 4];
+    const g = samples[i * 4 + 1];
+    const b = samples[i * 4 + 2];
+    const a = channels === 4 ? samples[i * 4 + 3] : 255;
+
+    if (r === pr && g === pg && b === pb && a === pa) {
+      run++;
+      if (run === 62 || i === pixelCount - 1) {
+        out[offset++] = 0xc0 | (run - 1);
+        run = 0;
+      }
+      continue;
+    }
+
+    if (run > 0) {
+      out[offset++] = 0xc0 | (run - 1);
+      run = 0;
+    }
+
+    const packed = ((r << 24) | (g << 16) | (b << 8) | a) >>> 0;
+    const hash = (r * 3 + g * 5 + b * 7 + a * 11) % 64;
+    if (index[hash] === packed) {
+      out[offset++] = hash;
+    } else {
+      index[hash] = packed;
+      const vr = signed(r - pr);
+      const vg = signed(g - pg);
+      const vb = signed(b - pb);
+      const vgr = vr - vg;
+      const vgb = vb - vg;
+      if (a !== pa) {
+        out.set([0xff, r, g, b, a], offset);
+        offset += 5;
+      } else if (
+        vr >= -2 && vr <= 1 && vg >= -2 && vg <= 1 && vb >= -2 && vb <= 1
+      ) {
+        out[offset++] = 0x40 | ((vr + 2) << 4) | ((vg + 2) << 2) | (vb + 2);
+      } else if (
+        vg >= -32 && vg <= 31 && vgr >= -8 && vgr <= 7 && vgb >= -8 &&
+        vgb <= 7
+      ) {
+        out[offset++] = 0x80 | (vg + 32);
+        out[offset++] = ((vgr + 8) << 4) | (vgb + 8);
+      } else {
+        out.set([0xfe, r, g, b], offset);
+        offset += 4;
+      }
+    }
+    [pr, pg, pb, pa] = [r, g, b, a];
+  }
+
+  out.set([0, 0, 0, 0, 0, 0, 0, 1], offset);
+  return out.slice(0, offset + 8);
+}
+
+/**
+ * Encodes the pixels as PNG, PPM, PAM or QOI, picked by the extension of
+ * `path`, and writes the result to `path`.
+ */
+export function writeImage(
+  path: string,
+  data: Pixels,
+  dimensions: Dimensions,
+  options: ImageOptions = {},
+): void {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  let file: Uint8Array;
+  if (extension === "png") {
+    file = encodePng(data, dimensions, options);
+  } else if (extension === "ppm" || extension === "pam") {
+    file = encodePnm(data, dimensions, {
+      ...options,
+      pam: extension === "pam",
+    });
+  } else if (extension === "qoi") {
+    file = encodeQoi(data, dimensions, options);
+  } else {
+    throw new Error(`unsupported image format ".${extension}"`);
+  }
+  Deno.writeFileSync(path, file);
+}
+
+// GIF
+
+interface ColorBox {
+  colors: number[];
+  pixelCount: number;
+}
+
+function colorKey(r: number, g: number, b: number): number {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+}
+
+function keyChannel(key: number, channel: number): number {
+  return (((key >> (10 - channel * 5)) & 0x1f) << 3) | 4;
+}
+
+/**
+ * Median cut quantization over a 15-bit color histogram. Returns a palette of
+ * RGB triplets holding at most `maxColors` entries.
+ */
+function quantize(data: Uint8Array, maxColors: number): Uint8Array {
+  const histogram = new Uint32Array(1 << 15);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[colorKey(data[i], data[i + 1], data[i + 2])]++;
+  }
+
+  const used: number[] = [];
+  for (let key = 0; key < histogram.length; key++) {
+    if (histogram[key] > 0) used.push(key);
+  }
+
+  const boxes: ColorBox[] = [{ colors: used, pixelCount: data.length / 4 }];
+  while (boxes.length < maxColors) {
+    let target = -1;
+    let targetChannel = 0;
+    let targetScore = 0;
+    for (let i = 0; i < boxes.length; i++) {
+      const box = boxes[i];
+      if (box.colors.length < 2) continue;
+      for (let channel = 0; channel < 3; channel++) {
+        let min = 255;
+        let max = 0;
+        for (const key of box.colors) {
+          const value = keyChannel(key, channel);
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+        }
+        const score = (max - min) * box.pixelCount;
+        if (score > targetScore) {
+          target = i;
+          targetChannel = channel;
+          targetScore = score;
+        }
+      }
+    }
+    if (target === -1) break;
+
+    const box = boxes[target];
+    box.colors.sort((a, b) =>
+      keyChannel(a, targetChannel) - keyChannel(b, targetChannel)
+    );
+    let count = 0;
+    let split = 1;
+    for (; split < box.colors.length - 1; split++) {
+      count += histogram[box.colors[split - 1]];
+      if (count * 2 >= box.pixelCount) break;
+    }
+    const lower = box.colors.slice(0, split);
+    const upper = box.colors.slice(split);
+    const lowerCount = lower.reduce((sum, key) => sum + histogram[key], 0);
+    boxes.splice(
+      target,
+      1,
+      { colors: lower, pixelCount: lowerCount },
+      { colors: upper, pixelCount: box.pixelCount - lowerCount },
+    );
+  }
+
+  const palette = new Uint8Array(Math.max(boxes.length, 1) * 3);
+  for (let i = 0; i < boxes.length; i++) {
+    const sums = [0, 0, 0];
+    let total = 0;
+    for (const key of boxes[i].colors) {
+      const weight = histogram[key];
+      for (let channel = 0; channel < 3; channel++) {
+        sums[channel] += keyChannel(key, channel) * weight;
+      }
+      total += weight;
+    }
+    for (let channel = 0; channel < 3; channel++) {
+      palette[i * 3 + channel] = total > 0
+        ? Math.round(sums[channel] / total)
+        : 0;
+    }
+  }
+  return palette;
+}
+
+function mapToPalette(
+  data: Uint8Array,
+  palette: Uint8Array,
+  dimensions: Dimensions,
+  dither: boolean,
+): Uint8Array {
+  const nearestCache = new Int16Array(1 << 15).fill(-1);
+  const nearest = (r: number, g: number, b: number): number => {
+    const key = colorKey(r, g, b);
+    if (nearestCache[key] !== -1) return nearestCache[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < palette.length / 3; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    }
+    nearestCache[key] = best;
+    return best;
+  };
+
+  const { width, height } = dimensions;
+  const indices = new Uint8Array(width * height);
+  if (!dither) {
+    for (let i = 0; i < indices.length; i++) {
+      indices[i] = nearest(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+    }
+    return indices;
+  }
+
+  const errors = new Float32Array(width * height * 3);
+  const spread = (x: number, y: number, error: number[], weight: number) => {
+    if (x < 0 || x >= width || y >= height) return;
+    const offset = (y * width + x) * 3;
+    for (let channel = 0; channel < 3; channel++) {
+      errors[offset + channel] += error[channel] * weight;
+    }
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const color = [0, 1, 2].map((channel) =>
+        Math.min(
+          255,
+          Math.max(
+            0,
+            Math.round(data[i * 4 + channel] + errors[i * 3 + channel]),
+          ),
+        )
+      );
+      const index = nearest(color[0], color[1], color[2]);
+      indices[i] = index;
+      const error = color.map((value, channel) =>
+        value - palette[index * 3 + channel]
+      );
+      spread(x + 1, y, error, 7 / 16);
+      spread(x - 1, y + 1, error, 3 / 16);
+      spread(x, y + 1, error, 5 / 16);
+      spread(x + 1, y + 1, error, 1 / 16);
+    }
+  }
+  return indices;
+}
+
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const out = new ByteWriter();
+  let current = 0;
+  let currentBits = 0;
+  let codeSize = minCodeSize + 1;
+  const emit = (code: number) => {
+    current |= code << currentBits;
+    currentBits += codeSize;
+    while (currentBits >= 8) {
+      out.u8(current & 0xff);
+      current >>>= 8;
+      currentBits -= 8;
+    }
+  };
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+      table = new Map();
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (currentBits > 0) out.u8(current & 0xff);
+
+  return out.finish();
+}
+
+export function encodeGif(
+  frames: Uint8Array[],
+  dimensions: Dimensions,
+  options: GifOptions = {},
+): Uint8Array {
+  const maxColors = Math.min(Math.max(options.colors ?? 256, 2), 256);
+  const delay = Math.round((options.delay ?? DEFAULT_DELAY) / 10);
+  const out = new ByteWriter();
+
+  out.ascii("GIF89a");
+  out.u16le(dimensions.width);
+  out.u16le(dimensions.height);
+  out.u8(0, 0, 0);
+
+  if (frames.length > 1) {
+    out.u8(0x21, 0xff, 11);
+    out.ascii("NETSCAPE2.0");
+    out.u8(3, 1);
+    out.u16le(options.loop ?? 0);
+    out.u8(0);
+  }
+
+  for (const frame of frames) {
+    const palette = quantize(frame, maxColors);
+    const indices = mapToPalette(
+      frame,
+      palette,
+      dimensions,
+      options.dither ?? false,
+    );
+    const tableBits = Math.max(
+      1,
+      Math.ceil(Math.log2(palette.length / 3)),
+    );
+
+    // graphic control extension, disposal method 1 ("do not dispose")
+    out.u8(0x21, 0xf9, 4, 1 << 2);
+    out.u16le(delay);
+    out.u8(0, 0);
+
+    out.u8(0x2c);
+    out.u16le(0);
+    out.u16le(0);
+    out.u16le(dimensions.width);
+    out.u16le(dimensions.height);
+    out.u8(0x80 | (tableBits - 1));
+    const table = new Uint8Array(3 << tableBits);
+    table.set(palette);
+    out.bytes(table);
+
+    const minCodeSize = Math.max(2, tableBits);
+    out.u8(minCodeSize);
+    const data = lzwEncode(indices, minCodeSize);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.subarray(i, i + 255);
+      out.u8(block.length);
+      out.bytes(block);
+    }
+    out.u8(0);
+  }
+
+  out.u8(0x3b);
+  return out.finish();
+}
+
+// APNG
+
+const CRC_TABLE = new Uint32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+export function readPngChunks(file: Uint8Array): PngChunk[] {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset < file.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...file.subarray(offset + 4, offset + 8));
+    chunks.push({
+      type,
+      data: file.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += length + 12;
+  }
+  return chunks;
+}
+
+function writePngChunk(out: ByteWriter, chunk: PngChunk) {
+  const body = new Uint8Array(chunk.data.length + 4);
+  for (let i = 0; i < 4; i++) body[i] = chunk.type.charCodeAt(i);
+  body.set(chunk.data, 4);
+  const header = new DataView(new ArrayBuffer(4));
+  header.setUint32(0, chunk.data.length);
+  out.bytes(new Uint8Array(header.buffer));
+  out.bytes(body);
+  const crc = new DataView(new ArrayBuffer(4));
+  crc.setUint32(0, crc32(body));
+  out.bytes(new Uint8Array(crc.buffer));
+}
+
+function u32be(...values: number[]): Uint8Array {
+  const view = new DataView(new ArrayBuffer(values.length * 4));
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return new Uint8Array(view.buffer);
+}
+
+export function encodeApng(
+  frames: Uint8Array[],
+  dimensions: Dimensions,
+  options: AnimationOptions = {},
+): Uint8Array {
+  const delay = Math.round(options.delay ?? DEFAULT_DELAY);
+  const out = new ByteWriter();
+  out.bytes(PNG_SIGNATURE);
+
+  let sequence = 0;
+  frames.forEach((frame, i) => {
+    const chunks = readPngChunks(
+      encodePng(frame, dimensions, { alpha: "strip" }),
+    );
+
+    if (i === 0) {
+      writePngChunk(out, chunks.find((chunk) => chunk.type === "IHDR")!);
+      writePngChunk(out, {
+        type: "acTL",
+        data: u32be(frames.length, options.loop ?? 0),
+      });
+    }
+
+    const fcTL = new DataView(new ArrayBuffer(26));
+    fcTL.setUint32(0, sequence++);
+    fcTL.setUint32(4, dimensions.width);
+    fcTL.setUint32(8, dimensions.height);
+    fcTL.setUint32(12, 0);
+    fcTL.setUint32(16, 0);
+    fcTL.setUint16(20, delay);
+    fcTL.setUint16(22, 1000);
+    fcTL.setUint8(24, 0);
+    fcTL.setUint8(25, 0);
+    writePngChunk(out, { type: "fcTL", data: new Uint8Array(fcTL.buffer) });
+
+    for (const chunk of chunks.filter((chunk) => chunk.type === "IDAT")) {
+      if (i === 0) {
+        writePngChunk(out, chunk);
+      } else {
+        const data = new Uint8Array(chunk.data.length + 4);
+        data.set(u32be(sequence++));
+        data.set(chunk.data, 4);
+        writePngChunk(out, { type: "fdAT", data });
+      }
+    }
+  });
+
+  writePngChunk(out, { type: "IEND", data: new Uint8Array() });
+  return out.finish();
+}
+
+/**
+ * Encodes the frames as an animated GIF or, for `.png` and `.apng` paths, an
+ * animated PNG and writes the result to `path`.
+ */
+export function writeAnimation(
+  path: string,
+  frames: Uint8Array[],
+  dimensions: Dimensions,
+  options: GifOptions = {},
+): void {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  let data: Uint8Array;
+  if (extension === "gif") {
+    data = encodeGif(frames, dimensions, options);
+  } else if (extension === "png" || extension === "apng") {
+    data = encodeApng(frames, dimensions, options);
+  } else {
+    throw new Error(`unsupported animation format ".${extension}"`);
+  }
+  Deno.writeFileSync(path, data);
+}
@@ -0,0 +1,466 @@
+import { createTextureWithData } from "std/webgpu";
+import { decodeHdr } from "./decoders.ts";
+import { generateMipmaps, mipLevelCount } from "./mipmaps.ts";
+import { UniformArena } from "./utils.ts";
+
+export interface CubemapOptions {
+  label?: string;
+  /** The width and height of every face. */
+  faceSize: number;
+  /** Fills in the mip chain. Defaults to true. */
+  mipmaps?: boolean;
+  /** Usages in addition to `TEXTURE_BINDING` and `RENDER_ATTACHMENT`. */
+  usage?: GPUTextureUsageFlags;
+}
+
+const EQUIRECT_SHADER = `
+const PI = 3.14159265;
+
+@group(0) @binding(0) var equirect: texture_2d<f32>;
+@group(0) @binding(1) var equirect_sampler: sampler;
+// The face index, and the face size in x.
+@group(0) @binding(2) var<uniform> face: vec2<u32>;
+
+@vertex
+fn vs_main(@builtin(vertex_index) vertex_index: u32) -> @builtin(position) vec4<f32> {
+    let uv = vec2<f32>(f32(vertex_index / 2u), f32(vertex_index & 1u)) * 2.0;
+    return vec4<f32>(uv * 2.0 - 1.0, 0.0, 1.0);
+}
+
+// The direction through a texel of a face, with faces in the +X, -X, +Y, -Y,
+// +Z, -Z order of cube textures.
+fn face_direction(position: vec2<f32>) -> vec3<f32> {
+    let uv = position / f32(face.y) * 2.0 - 1.0;
+    switch face.x {
+        case 0u: { return vec3<f32>(1.0, -uv.y, -uv.x); }
+        case 1u: { return vec3<f32>(-1.0, -uv.y, uv.x); }
+        case 2u: { return vec3<f32>(uv.x, 1.0, uv.y); }
+        case 3u: { return vec3<f32>(uv.x, -1.0, -uv.y); }
+        case 4u: { return vec3<f32>(uv.x, -uv.y, 1.0); }
+        default: { return vec3<f32>(-uv.x, -uv.y, -1.0); }
+    }
+}
+
+@fragment
+fn fs_main(@builtin(position) position: vec4<f32>) -> @location(0) vec4<f32> {
+    let direction = normalize(face_direction(position.xy));
+    // -Z is at the center of the panorama, with +X to its right.
+    let uv = vec2<f32>(
+        atan2(direction.x, -direction.z) / (2.0 * PI) + 0.5,
+        acos(clamp(direction.y, -1.0, 1.0)) / PI,
+    );
+    return textureSampleLevel(equirect, equirect_sampler, uv, 0.0);
+}
+`;
+
+/**
+ * Renders an equirectangular panorama into the faces of an `rgba16float` cube
+ * map, and fills in its mip chain.
+ */
+export function createCubemapFromEquirect(
+  device: GPUDevice,
+  equirect: GPUTexture,
+  options: CubemapOptions,
+): GPUTexture {
+  const { faceSize, mipmaps = true } = options;
+  const format = "rgba16float";
+  const cubemap = device.createTexture({
+    label: options.label,
+    size: [faceSize, faceSize, 6],
+    format,
+    mipLevelCount: mipmaps ? mipLevelCount(faceSize) : 1,
+    usage: GPUTextureUsage.TEXTURE_BINDING |
+      GPUTextureUsage.RENDER_ATTACHMENT | (options.usage ?? 0),
+  });
+
+  const module = device.createShaderModule({
+    label: "Equirect to cube map",
+    code: EQUIRECT_SHADER,
+  });
+  const pipeline = device.createRenderPipeline({
+    label: "Equirect to cube map",
+    layout: "auto",
+    vertex: { module, entryPoint: "vs_main" },
+    fragment: { module, entryPoint: "fs_main", targets: [{ format }] },
+  });
+  const sampler = device.createSampler({
+    addressModeU: "repeat",
+    magFilter: "linear",
+    minFilter: "linear",
+  });
+
+  // One uniform slice per face, all uploaded with a single write.
+  const uniforms = new UniformArena(device, {
+    label: "Equirect faces",
+    capacity: 6 * device.limits.minUniformBufferOffsetAlignment,
+  });
+  const encoder = device.createCommandEncoder({ label: "Equirect" });
+  for (let face = 0; face < 6; face++) {
+    const offset = uniforms.push(new Uint32Array([face, faceSize]));
+    const pass = encoder.beginRenderPass({
+      label: `Face ${face}`,
+      colorAttachments: [{
+        view: cubemap.createView({
+          dimension: "2d",
+          baseMipLevel: 0,
+          mipLevelCount: 1,
+          baseArrayLayer: face,
+          arrayLayerCount: 1,
+        }),
+        loadOp: "clear",
+        storeOp: "store",
+      }],
+    });
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(
+      0,
+      device.createBindGroup({
+        layout: pipeline.getBindGroupLayout(0),
+        entries: [
+          { binding: 0, resource: equirect.createView() },
+          { binding: 1, resource: sampler },
+          {
+            binding: 2,
+            resource: { buffer: uniforms.buffer, offset, size: 8 },
+          },
+        ],
+      }),
+    );
+    pass.draw(3);
+    pass.end();
+  }
+  if (mipmaps) generateMipmaps(device, encoder, cubemap);
+  uniforms.flush();
+  device.queue.submit([encoder.finish()]);
+  uniforms.destroy();
+  return cubemap;
+}
+
+/**
+ * Reads a Radiance `.hdr` panorama into a cube map, see
+ * `createCubemapFromEquirect`.
+ */
+export async function loadHdrCubemap(
+  device: GPUDevice,
+  path: string | URL,
+  options: CubemapOptions,
+): Promise<GPUTexture> {
+  const { width, height, data } = decodeHdr(await Deno.readFile(path));
+  const equirect = createTextureWithData(device, {
+    label: "Equirect",
+    size: [width, height],
+    format: "rgba16float",
+    usage: GPUTextureUsage.TEXTURE_BINDING,
+  }, new Uint8Array(Float16Array.from(data).buffer));
+  const cubemap = createCubemapFromEquirect(device, equirect, options);
+  equirect.destroy();
+  return cubemap;
+}
+
+export interface IblOptions {
+  /** The face size of the irradiance map. Defaults to 32. */
+  irradianceSize?: number;
+  /** The face size of the specular map. Defaults to the environment's. */
+  specularSize?: number;
+  /**
+   * Mip levels of the specular map, which go from a roughness of 0 at the
+   * first to 1 at the last. Defaults to 6, or fewer for small maps.
+   */
+  specularMipLevelCount?: number;
+  /** The size of the BRDF lookup table. Defaults to 256. */
+  lutSize?: number;
+  /** Samples taken per texel. Defaults to 256. */
+  sampleCount?: number;
+  /** Usages in addition to `TEXTURE_BINDING` and `STORAGE_BINDING`. */
+  usage?: GPUTextureUsageFlags;
+}
+
+/** The maps image-based lighting samples, all `rgba16float`. */
+export interface IblMaps {
+  /** Cosine-weighted irradiance around each normal, divided by pi. */
+  irradiance: GPUTexture;
+  /** The environment prefiltered with GGX, one roughness per mip level. */
+  specular: GPUTexture;
+  /**
+   * The scale and bias of F0 in `rg`, by the cosine of the view angle in x
+   * and roughness in y.
+   */
+  brdfLut: GPUTexture;
+}
+
+const IBL_SHADER = `
+const PI = 3.14159265;
+
+struct Params {
+    roughness: f32,
+    sample_count: u32,
+};
+
+@group(0) @binding(0) var environment: texture_cube<f32>;
+@group(0) @binding(1) var environment_sampler: sampler;
+@group(0) @binding(2) var output: texture_storage_2d_array<rgba16float, write>;
+@group(0) @binding(3) var<uniform> params: Params;
+@group(0) @binding(4) var lut: texture_storage_2d<rgba16float, write>;
+
+fn face_direction(face: u32, uv: vec2<f32>) -> vec3<f32> {
+    switch face {
+        case 0u: { return vec3<f32>(1.0, -uv.y, -uv.x); }
+        case 1u: { return vec3<f32>(-1.0, -uv.y, uv.x); }
+        case 2u: { return vec3<f32>(uv.x, 1.0, uv.y); }
+        case 3u: { return vec3<f32>(uv.x, -1.0, -uv.y); }
+        case 4u: { return vec3<f32>(uv.x, -uv.y, 1.0); }
+        default: { return vec3<f32>(-uv.x, -uv.y, -1.0); }
+    }
+}
+
+fn hammersley(i: u32, count: u32) -> vec2<f32> {
+    return vec2<f32>(f32(i) / f32(count), f32(reverseBits(i)) * 2.3283064e-10);
+}
+
+// Turns a direction around +Z into one around \`n\`.
+fn to_world(v: vec3<f32>, n: vec3<f32>) -> vec3<f32> {
+    let up = select(vec3<f32>(0.0, 0.0, 1.0), vec3<f32>(1.0, 0.0, 0.0), abs(n.z) > 0.999);
+    let tangent = normalize(cross(up, n));
+    let bitangent = cross(n, tangent);
+    return tangent * v.x + bitangent * v.y + n * v.z;
+}
+
+// A GGX-distributed half vector around +Z.
+fn sample_ggx(xi: vec2<f32>, roughness: f32) -> vec3<f32> {
+    let a = roughness * roughness;
+    let phi = 2.0 * PI * xi.x;
+    let cos_theta = sqrt((1.0 - xi.y) / (1.0 + (a * a - 1.0) * xi.y));
+    let sin_theta = sqrt(1.0 - cos_theta * cos_theta);
+    return vec3<f32>(cos(phi) * sin_theta, sin(phi) * sin_theta, cos_theta);
+}
+
+fn distribution_ggx(n_dot_h: f32, roughness: f32) -> f32 {
+    let a2 = roughness * roughness * roughness * roughness;
+    let d = n_dot_h * n_dot_h * (a2 - 1.0) + 1.0;
+    return a2 / (PI * d * d);
+}
+
+// The environment level whose texels cover about as much of the sphere as a
+// sample of the given probability density, which keeps few samples smooth.
+fn source_lod(pdf: f32) -> f32 {
+    let size = f32(textureDimensions(environment).x);
+    let texel = 4.0 * PI / (6.0 * size * size);
+    let sample = 1.0 / (f32(params.sample_count) * pdf + 1e-4);
+    return max(0.5 * log2(sample / texel) + 1.0, 0.0);
+}
+
+fn irradiance(n: vec3<f32>) -> vec3<f32> {
+    var sum = vec3<f32>(0.0);
+    for (var i = 0u; i < params.sample_count; i++) {
+        let xi = hammersley(i, params.sample_count);
+        let phi = 2.0 * PI * xi.x;
+        let cos_theta = sqrt(1.0 - xi.y);
+        let sin_theta = sqrt(xi.y);
+        let l = to_world(vec3<f32>(cos(phi) * sin_theta, sin(phi) * sin_theta, cos_theta), n);
+        sum += textureSampleLevel(environment, environment_sampler, l, source_lod(cos_theta / PI)).rgb;
+    }
+    return sum / f32(params.sample_count);
+}
+
+// Assumes that the view and reflection are along the normal.
+fn prefilter(n: vec3<f32>) -> vec3<f32> {
+    if params.roughness == 0.0 {
+        return textureSampleLevel(environment, environment_sampler, n, 0.0).rgb;
+    }
+    var sum = vec3<f32>(0.0);
+    var weight = 0.0;
+    for (var i = 0u; i < params.sample_count; i++) {
+        let h_local = sample_ggx(hammersley(i, params.sample_count), params.roughness);
+        let h = to_world(h_local, n);
+        let l = 2.0 * dot(n, h) * h - n;
+        let n_dot_l = dot(n, l);
+        if n_dot_l > 0.0 {
+            // With v = n, the pdf of l is D * n_dot_h / (4 * v_dot_h) = D / 4.
+            let pdf = distribution_ggx(h_local.z, params.roughness) / 4.0;
+            sum += textureSampleLevel(environment, environment_sampler, l, source_lod(pdf)).rgb * n_dot_l;
+            weight += n_dot_l;
+        }
+    }
+    return sum / weight;
+}
+
+fn output_direction(id: vec3<u32>) -> vec3<f32> {
+    let uv = (vec2<f32>(id.xy) + 0.5) / vec2<f32>(textureDimensions(output)) * 2.0 - 1.0;
+    return normalize(face_direction(id.z, uv));
+}
+
+@compute @workgroup_size(8, 8)
+fn cs_irradiance(@builtin(global_invocation_id) id: vec3<u32>) {
+    if all(id.xy < textureDimensions(output)) {
+        textureStore(output, id.xy, id.z, vec4<f32>(irradiance(output_direction(id)), 1.0));
+    }
+}
+
+@compute @workgroup_size(8, 8)
+fn cs_prefilter(@builtin(global_invocation_id) id: vec3<u32>) {
+    if all(id.xy < textureDimensions(output)) {
+        textureStore(output, id.xy, id.z, vec4<f32>(prefilter(output_direction(id)), 1.0));
+    }
+}
+
+@compute @workgroup_size(8, 8)
+fn cs_brdf_lut(@builtin(global_invocation_id) id: vec3<u32>) {
+    let size = textureDimensions(lut);
+    if any(id.xy >= size) {
+        return;
+    }
+    let coords = (vec2<f32>(id.xy) + 0.5) / vec2<f32>(size);
+    let n_dot_v = coords.x;
+    let roughness = coords.y;
+    let v = vec3<f32>(sqrt(1.0 - n_dot_v * n_dot_v), 0.0, n_dot_v);
+    // Smith's geometry term with k = a / 2, as for image-based lighting.
+    let k = roughness * roughness / 2.0;
+    var scale_bias = vec2<f32>(0.0);
+    for (var i = 0u; i < params.sample_count; i++) {
+        let h = sample_ggx(hammersley(i, params.sample_count), roughness);
+        let l = 2.0 * dot(v, h) * h - v;
+        let n_dot_l = l.z;
+        if n_dot_l > 0.0 {
+            let v_dot_h = max(dot(v, h), 0.0);
+            let g = n_dot_v / (n_dot_v * (1.0 - k) + k) *
+                n_dot_l / (n_dot_l * (1.0 - k) + k);
+            let visibility = g * v_dot_h / (h.z * n_dot_v);
+            let fresnel = pow(1.0 - v_dot_h, 5.0);
+            scale_bias += vec2<f32>(1.0 - fresnel, fresnel) * visibility;
+        }
+    }
+    textureStore(lut, id.xy, vec4<f32>(scale_bias / f32(params.sample_count), 0.0, 1.0));
+}
+`;
+
+/**
+ * Generates the irradiance map, GGX-prefiltered specular map and BRDF lookup
+ * table of image-based lighting from an environment cube map in compute
+ * passes. Environments with a mip chain take fewer samples to filter.
+ */
+export function createIblMaps(
+  device: GPUDevice,
+  environment: GPUTexture,
+  options: IblOptions = {},
+): IblMaps {
+  const {
+    irradianceSize = 32,
+    specularSize = environment.width,
+    specularMipLevelCount = Math.min(6, mipLevelCount(specularSize)),
+    lutSize = 256,
+    sampleCount = 256,
+  } = options;
+  const format = "rgba16float";
+  const usage = GPUTextureUsage.TEXTURE_BINDING |
+    GPUTextureUsage.STORAGE_BINDING | (options.usage ?? 0);
+  const cube = (label: string, size: number, mipLevelCount = 1) =>
+    device.createTexture({
+      label,
+      size: [size, size, 6],
+      format,
+      mipLevelCount,
+      usage,
+    });
+  const maps: IblMaps = {
+    irradiance: cube("Irradiance", irradianceSize),
+    specular: cube("Specular", specularSize, specularMipLevelCount),
+    brdfLut: device.createTexture({
+      label: "BRDF LUT",
+      size: [lutSize, lutSize],
+      format,
+      usage,
+    }),
+  };
+
+  const module = device.createShaderModule({ label: "IBL", code: IBL_SHADER });
+  const [irradiancePipeline, prefilterPipeline, lutPipeline] = [
+    "cs_irradiance",
+    "cs_prefilter",
+    "cs_brdf_lut",
+  ].map((entryPoint) =>
+    device.createComputePipeline({
+      label: entryPoint,
+      layout: "auto",
+      compute: { module, entryPoint },
+    })
+  );
+  const sampler = device.createSampler({
+    magFilter: "linear",
+    minFilter: "linear",
+    mipmapFilter: "linear",
+  });
+  const environmentView = environment.createView({ dimension: "cube" });
+  // One params slice per dispatch, all uploaded with a single write.
+  const params = new UniformArena(device, {
+    label: "IBL params",
+    capacity: (specularMipLevelCount + 2) *
+      device.limits.minUniformBufferOffsetAlignment,
+  });
+  const pushParams = (roughness: number): GPUBufferBinding => {
+    const data = new ArrayBuffer(8);
+    new Float32Array(data, 0, 1)[0] = roughness;
+    new Uint32Array(data, 4, 1)[0] = sampleCount;
+    // Pushing may grow the arena, which replaces its buffer.
+    const offset = params.push(data);
+    return { buffer: params.buffer, offset, size: 8 };
+  };
+
+  const encoder = device.createCommandEncoder({ label: "IBL" });
+  const pass = encoder.beginComputePass({ label: "IBL" });
+  const filter = (
+    pipeline: GPUComputePipeline,
+    texture: GPUTexture,
+    mipLevel: number,
+    roughness: number,
+  ) => {
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(
+      0,
+      device.createBindGroup({
+        layout: pipeline.getBindGroupLayout(0),
+        entries: [
+          { binding: 0, resource: environmentView },
+          { binding: 1, resource: sampler },
+          {
+            binding: 2,
+            resource: texture.createView({
+              dimension: "2d-array",
+              baseMipLevel: mipLevel,
+              mipLevelCount: 1,
+            }),
+          },
+          { binding: 3, resource: pushParams(roughness) },
+        ],
+      }),
+    );
+    const size = Math.max(1, texture.width >> mipLevel);
+    pass.dispatchWorkgroups(Math.ceil(size / 8), Math.ceil(size / 8), 6);
+  };
+  filter(irradiancePipeline, maps.irradiance, 0, 1);
+  for (let mip = 0; mip < specularMipLevelCount; mip++) {
+    filter(
+      prefilterPipeline,
+      maps.specular,
+      mip,
+      specularMipLevelCount > 1 ? mip / (specularMipLevelCount - 1) : 0,
+    );
+  }
+
+  pass.setPipeline(lutPipeline);
+  pass.setBindGroup(
+    0,
+    device.createBindGroup({
+      layout: lutPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 3, resource: pushParams(0) },
+        { binding: 4, resource: maps.brdfLut.createView() },
+      ],
+    }),
+  );
+  pass.dispatchWorkgroups(Math.ceil(lutSize / 8), Math.ceil(lutSize / 8));
+  pass.end();
+  params.flush();
+  device.queue.submit([encoder.finish()]);
+  params.destroy();
+  return maps;
+}
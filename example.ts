@@ -0,0 +1,28 @@
+import $ from "dax";
+
+const examples: string[] = [];
+for await (const entry of $.path(".").readDir()) {
+  if (entry.isDirectory && entry.path.join("mod.ts").existsSync()) {
+    examples.push(entry.name);
+  }
+}
+examples.sort();
+
+const [name, ...args] = Deno.args;
+if (name === undefined || name === "--help") {
+  console.log("Usage: deno task example <name> [options]\n");
+  console.log("Run `deno task example <name> --help` for its options.\n");
+  console.log(`Examples: ${examples.join(", ")}`);
+  Deno.exit(name === undefined ? 1 : 0);
+}
+if (!examples.includes(name)) {
+  console.error(`error: unknown example "${name}"\n`);
+  console.error(`Examples: ${examples.join(", ")}`);
+  Deno.exit(1);
+}
+
+const { code } =
+  await $`deno run --allow-read --allow-write --allow-import=deno.land,crux.land,jsr.io mod.ts ${args}`
+    .cwd(name)
+    .noThrow();
+Deno.exit(code);
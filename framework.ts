@@ -1,25 +1,176 @@
-import { copyToBuffer, createPng, Dimensions } from "./utils.ts";
-import { createCapture } from "std/webgpu";
+import {
+  CaptureFormat,
+  copyToBuffer,
+  createCaptureTexture,
+  createShaderModuleFromFile,
+  Dimensions,
+  OutputOptions,
+  readBuffer,
+  readPixels,
+  TypedArray,
+  TypedArrayConstructor,
+} from "./utils.ts";
+import { GifOptions, writeAnimation } from "./encoders.ts";
+import { RenderArgs } from "./cli.ts";
+import { saveOutput } from "./golden.ts";
+import { Profiler, tracePasses } from "./profiler.ts";
 
-export class Framework {
+export interface Frame {
+  index: number;
+  /** Simulation time in seconds at which the frame was rendered. */
+  time: number;
+  /** Tightly packed RGBA8 pixels. */
+  data: Uint8Array;
+}
+
+export interface RenderOptions {
+  /** Number of frames to render. Defaults to 1. */
+  frames?: number;
+  /**
+   * Seconds passed to `update` every frame, or `"realtime"` to pass the
+   * wall-clock time elapsed since the previous frame. Defaults to 1/60.
+   */
+  timestep?: number | "realtime";
+  /** Which frames to read back. Defaults to `"last"`. */
+  capture?: "last" | "all" | number[] | ((frameIndex: number) => boolean);
+}
+
+export interface ScopedError {
+  /** The phase the error was raised in, such as `init` or `render (frame 3)`. */
+  label: string;
+  error: GPUError;
+}
+
+export interface DeviceOptions extends GPURequestAdapterOptions {
+  requiredFeatures?: GPUFeatureName[];
+  /** Features requested only when the adapter supports them. */
+  optionalFeatures?: GPUFeatureName[];
+  /** Limits the adapter must support, else `getDevice` throws. */
+  requiredLimits?: Record<string, number>;
+  /** Limits requested as far as the adapter supports them. */
+  optionalLimits?: Record<string, number>;
+}
+
+const DEFAULT_TIMESTEP = 1 / 60;
+const ERROR_FILTERS: GPUErrorFilter[] = [
+  "validation",
+  "out-of-memory",
+  "internal",
+];
+
+function captureFilter(
+  capture: NonNullable<RenderOptions["capture"]>,
+  frameCount: number,
+): (frameIndex: number) => boolean {
+  if (capture === "last") {
+    return (frameIndex) => frameIndex === frameCount - 1;
+  } else if (capture === "all") {
+    return () => true;
+  } else if (Array.isArray(capture)) {
+    const indices = new Set(capture);
+    return (frameIndex) => indices.has(frameIndex);
+  } else {
+    return capture;
+  }
+}
+
+/**
+ * Checks the requested limits against those of the adapter. Optional limits
+ * are clamped to what the adapter supports, which is a lower value for the
+ * `max*` limits and a higher one for the `min*` alignments.
+ */
+function resolveLimits(
+  adapter: GPUAdapter,
+  required: Record<string, number>,
+  optional: Record<string, number>,
+): Record<string, number> {
+  const supported = adapter.limits as unknown as Record<string, number>;
+  const limits: Record<string, number> = {};
+  for (const [name, value] of Object.entries(optional)) {
+    if (typeof supported[name] !== "number") {
+      throw new Error(`unknown limit ${name}`);
+    }
+    limits[name] = name.startsWith("min")
+      ? Math.max(value, supported[name])
+      : Math.min(value, supported[name]);
+  }
+  for (const [name, value] of Object.entries(required)) {
+    if (typeof supported[name] !== "number") {
+      throw new Error(`unknown limit ${name}`);
+    }
+    const unsupported = name.startsWith("min")
+      ? value < supported[name]
+      : value > supported[name];
+    if (unsupported) {
+      throw new Error(
+        `adapter does not support ${name} ${value}, only ${supported[name]}`,
+      );
+    }
+    limits[name] = value;
+  }
+  return limits;
+}
+
+/**
+ * A texture that always matches the size of the `Framework` that created it,
+ * such as a depth or multisampled attachment. It is recreated on resize, so
+ * keep a reference to this object instead of its `texture` or `view`.
+ */
+export class ScreenTexture {
   device: GPUDevice;
-  dimensions: Dimensions;
+  descriptor: Omit<GPUTextureDescriptor, "size">;
+  texture!: GPUTexture;
+  view!: GPUTextureView;
+
+  constructor(
+    device: GPUDevice,
+    descriptor: Omit<GPUTextureDescriptor, "size">,
+    dimensions: Dimensions,
+  ) {
+    this.device = device;
+    this.descriptor = descriptor;
+    this.resize(dimensions);
+  }
+
+  resize(dimensions: Dimensions) {
+    this.texture?.destroy();
+    this.texture = this.device.createTexture({
+      ...this.descriptor,
+      size: dimensions,
+    });
+    this.view = this.texture.createView();
+  }
+}
+
+/** Device setup and error collection shared by every kind of example. */
+export class BaseFramework {
+  device: GPUDevice;
+  /** Errors raised outside of any `errorScope`. */
   errors: GPUError[] = [];
+  scopedErrors: ScopedError[] = [];
+  /** Times the passes of every submission when set. */
+  profiler?: Profiler;
 
   static async getDevice({
     requiredFeatures,
     optionalFeatures,
-  }: {
-    requiredFeatures?: GPUFeatureName[];
-    optionalFeatures?: GPUFeatureName[];
-  } = {}): Promise<GPUDevice> {
-    const adapter = await navigator.gpu.requestAdapter();
+    requiredLimits,
+    optionalLimits,
+    ...adapterOptions
+  }: DeviceOptions = {}): Promise<GPUDevice> {
+    const adapter = await navigator.gpu.requestAdapter(adapterOptions);
     if (adapter === null) throw new Error(`Could not find adapter`);
+    // timestamp-query lets the profiler time passes on the GPU.
     const device = await adapter.requestDevice({
       requiredFeatures: (requiredFeatures ?? []).concat(
-        optionalFeatures?.filter((feature) =>
-          adapter.features ? adapter.features.has(feature) : false
-        ) ?? [],
+        [...(optionalFeatures ?? []), "timestamp-query" as const].filter(
+          (feature) => adapter.features ? adapter.features.has(feature) : false,
+        ),
+      ),
+      requiredLimits: resolveLimits(
+        adapter,
+        requiredLimits ?? {},
+        optionalLimits ?? {},
       ),
     });
 
@@ -30,33 +181,310 @@ export class Framework {
     return device;
   }
 
-  constructor(dimensions: Dimensions, device: GPUDevice) {
-    this.dimensions = dimensions;
+  constructor(device: GPUDevice) {
     this.device = device;
     device.addEventListener("uncapturederror", (e) => {
       this.errors.push(e.error);
     });
   }
 
+  /**
+   * Runs `callback` inside an error scope for every error filter, and records
+   * the errors they catch under `label`, which may be given as a function to
+   * name what `callback` did.
+   */
+  async errorScope<T>(
+    label: string | (() => string),
+    callback: () => T | Promise<T>,
+  ): Promise<T> {
+    for (const filter of ERROR_FILTERS) {
+      this.device.pushErrorScope(filter);
+    }
+    try {
+      return await callback();
+    } finally {
+      for (let i = 0; i < ERROR_FILTERS.length; i++) {
+        const error = await this.device.popErrorScope();
+        if (error) {
+          this.scopedErrors.push({
+            label: typeof label === "string" ? label : label(),
+            error,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Throws every error recorded since the last call, labelled with its phase.
+   */
+  throwErrors() {
+    const errors = [
+      ...this.scopedErrors.map(({ label, error }) =>
+        new Error(`${label}: ${error.message}`, { cause: error })
+      ),
+      ...this.errors,
+    ];
+    this.scopedErrors = [];
+    this.errors = [];
+    if (errors.length > 0) {
+      throw new AggregateError(errors, "gpu errors");
+    }
+  }
+
+  loadShader(url: URL): Promise<GPUShaderModule> {
+    return createShaderModuleFromFile(this.device, url);
+  }
+
   async init() {}
-  render(_encoder: GPUCommandEncoder, _view: GPUTextureView) {}
 
-  async renderPng() {
-    await this.init();
-    const { texture, outputBuffer } = createCapture(
+  /**
+   * Encodes the commands of `encode` and submits them, timing their passes
+   * when profiling. Errors are recorded under `label` followed by the labels
+   * of the passes that were encoded, as the errors of a pass only surface
+   * once the whole encoder is finished.
+   */
+  async submit(encode: (encoder: GPUCommandEncoder) => void, label = "submit") {
+    const passes: string[] = [];
+    await this.errorScope(
+      () => passes.length > 0 ? `${label} in ${passes.join(", ")}` : label,
+      async () => {
+        const encoder = this.device.createCommandEncoder();
+        tracePasses(encoder, (pass) => {
+          passes.push(pass);
+          return undefined;
+        });
+        this.profiler?.instrument(encoder);
+        encode(encoder);
+        this.profiler?.resolve(encoder);
+        this.device.queue.submit([encoder.finish()]);
+        await this.profiler?.collect();
+      },
+    );
+  }
+}
+
+export class Framework extends BaseFramework {
+  dimensions: Dimensions;
+  /** Format of the texture passed to `render`. */
+  format: CaptureFormat = "rgba8unorm-srgb";
+  screenTextures: ScreenTexture[] = [];
+  #initialized = false;
+  #capture?: { texture: GPUTexture; outputBuffer: GPUBuffer };
+
+  constructor(dimensions: Dimensions, device: GPUDevice) {
+    super(device);
+    this.dimensions = dimensions;
+  }
+
+  createScreenTexture(
+    descriptor: Omit<GPUTextureDescriptor, "size">,
+  ): ScreenTexture {
+    const texture = new ScreenTexture(this.device, descriptor, this.dimensions);
+    this.screenTextures.push(texture);
+    return texture;
+  }
+
+  /**
+   * Changes the size frames are rendered at, recreating every screen texture
+   * before calling `onResize`. Before the first render, `init` has not created
+   * what the hook updates yet, so only the size changes.
+   */
+  resize(dimensions: Dimensions) {
+    this.dimensions = dimensions;
+    for (const texture of this.screenTextures) {
+      texture.resize(dimensions);
+    }
+    if (this.#initialized) {
+      this.onResize(dimensions);
+    }
+  }
+
+  /**
+   * The texture frames are rendered to and the buffer they are read back
+   * with, kept across calls while the size and format stay the same.
+   */
+  #captureTarget(): { texture: GPUTexture; outputBuffer: GPUBuffer } {
+    const capture = this.#capture;
+    if (
+      capture?.texture.width === this.dimensions.width &&
+      capture.texture.height === this.dimensions.height &&
+      capture.texture.format === this.format
+    ) {
+      return capture;
+    }
+    capture?.texture.destroy();
+    capture?.outputBuffer.destroy();
+    this.#capture = createCaptureTexture(
       this.device,
-      this.dimensions.width,
-      this.dimensions.height,
+      this.dimensions,
+      this.format,
     );
-    const encoder = this.device.createCommandEncoder();
-    this.render(encoder, texture.createView());
-    copyToBuffer(encoder, texture, outputBuffer, this.dimensions);
-    this.device.queue.submit([encoder.finish()]);
+    return this.#capture;
+  }
+
+  onResize(_dimensions: Dimensions) {}
+  update(_dt: number, _frameIndex: number) {}
+  render(_encoder: GPUCommandEncoder, _view: GPUTextureView) {}
 
-    await createPng(outputBuffer, this.dimensions);
+  async renderFrames(options: RenderOptions = {}): Promise<Frame[]> {
+    const frameCount = options.frames ?? 1;
+    const timestep = options.timestep ?? DEFAULT_TIMESTEP;
+    const shouldCapture = captureFilter(options.capture ?? "last", frameCount);
 
-    if (this.errors.length > 0) {
-      throw new AggregateError(this.errors, "uncaught gpu errors");
+    if (!this.#initialized) {
+      await this.errorScope("init", () => this.init());
+      this.#initialized = true;
     }
+    const { texture, outputBuffer } = this.#captureTarget();
+    const view = texture.createView();
+
+    const frames: Frame[] = [];
+    let time = 0;
+    let lastFrameStart = performance.now();
+    for (let i = 0; i < frameCount; i++) {
+      let dt = timestep;
+      if (dt === "realtime") {
+        const now = performance.now();
+        dt = (now - lastFrameStart) / 1000;
+        lastFrameStart = now;
+      }
+      time += dt;
+      await this.errorScope(`update (frame ${i})`, () => this.update(dt, i));
+
+      const capture = shouldCapture(i);
+      await this.submit((encoder) => {
+        this.render(encoder, view);
+        if (capture) {
+          copyToBuffer(encoder, texture, outputBuffer, this.dimensions);
+        }
+      }, `render (frame ${i})`);
+
+      if (capture) {
+        frames.push({
+          index: i,
+          time,
+          data: await this.errorScope(
+            `readback (frame ${i})`,
+            () => readPixels(outputBuffer, this.dimensions, this.format),
+          ),
+        });
+      }
+    }
+
+    this.throwErrors();
+
+    return frames;
+  }
+
+  /**
+   * Renders the frames and writes every captured one to `options.path`, or
+   * compares it against the golden image there (see `saveOutput`). When
+   * more than one frame is captured, the frame index is appended to the file
+   * name, as in `./output-07.png`.
+   */
+  async renderPng(options: RenderOptions & OutputOptions = {}) {
+    const frames = await this.renderFrames(options);
+    const path = options.path ?? "./output.png";
+    // The suffix goes before the extension of the file name, if it has one.
+    const extension = path.search(/(?<=[^/\\])\.[^./\\]*$/);
+    const extensionStart = extension === -1 ? path.length : extension;
+    const digits = String(Math.max((options.frames ?? 1) - 1, 0)).length;
+    for (const frame of frames) {
+      let framePath = path;
+      if (frames.length > 1) {
+        const suffix = String(frame.index).padStart(digits, "0");
+        framePath = `${path.slice(0, extensionStart)}-${suffix}${
+          path.slice(extensionStart)
+        }`;
+      }
+      saveOutput(framePath, frame.data, this.dimensions, options);
+    }
+  }
+
+  /**
+   * Renders as requested by the command line flags: an animation of every
+   * frame when `out` is a `.gif` or `.apng` file, else the last frame.
+   */
+  async renderOutput(args: RenderArgs) {
+    if (args.profile || args.profileOut) {
+      this.profiler = new Profiler(this.device);
+    }
+    if (/\.(gif|apng)$/i.test(args.out)) {
+      await this.renderAnimation(args.out, { frames: args.frames });
+    } else {
+      await this.renderPng({
+        path: args.out,
+        frames: args.frames,
+        golden: args.golden,
+      });
+    }
+    if (this.profiler) {
+      this.profiler.print();
+      if (args.profileOut) this.profiler.writeReport(args.profileOut);
+    }
+  }
+
+  /**
+   * Renders the frames and encodes every captured one into a single animated
+   * GIF or APNG, picked by the extension of `path`.
+   */
+  async renderAnimation(
+    path: string,
+    options: RenderOptions & GifOptions = {},
+  ) {
+    const frames = await this.renderFrames({ capture: "all", ...options });
+    writeAnimation(
+      path,
+      frames.map((frame) => frame.data),
+      this.dimensions,
+      options,
+    );
+  }
+}
+
+/**
+ * The counterpart of `Framework` for examples that only run compute work and
+ * read its results back instead of rendering.
+ */
+export class ComputeFramework extends BaseFramework {
+  #initialized = false;
+  #runs = 0;
+
+  dispatch(_encoder: GPUCommandEncoder) {}
+
+  /**
+   * Initializes the example on the first call, then submits the work encoded
+   * by `dispatch` and throws the errors it raised.
+   */
+  async run() {
+    if (!this.#initialized) {
+      await this.errorScope("init", () => this.init());
+      this.#initialized = true;
+    }
+    const run = this.#runs++;
+    await this.submit(
+      (encoder) => this.dispatch(encoder),
+      `dispatch (run ${run})`,
+    );
+    this.throwErrors();
+  }
+
+  /**
+   * Copies `size` bytes of `buffer` from `offset` into a staging buffer and
+   * returns them as a `type` array. `buffer` needs the `COPY_SRC` usage.
+   */
+  async readBuffer<T extends TypedArray>(
+    buffer: GPUBuffer,
+    type: TypedArrayConstructor<T>,
+    offset = 0,
+    size = buffer.size - offset,
+  ): Promise<T> {
+    const result = await this.errorScope(
+      "readback",
+      () => readBuffer(this.device, buffer, type, { offset, size }),
+    );
+    this.throwErrors();
+    return result;
   }
 }
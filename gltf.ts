@@ -0,0 +1,674 @@
+import { CameraDescriptor, Mat4, mat4, Projection, Vec3 } from "./camera.ts";
+import { buildMesh, createMeshBuffers, Geometry, MeshOptions } from "./mesh.ts";
+import { createPngTexture } from "./textures.ts";
+
+// The subset of the glTF 2.0 JSON the loader reads.
+interface GltfJson {
+  asset: { version: string };
+  extensionsRequired?: string[];
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: {
+    name?: string;
+    children?: number[];
+    matrix?: number[];
+    translation?: Vec3;
+    rotation?: [number, number, number, number];
+    scale?: Vec3;
+    mesh?: number;
+    camera?: number;
+  }[];
+  meshes?: {
+    name?: string;
+    primitives: {
+      attributes: Record<string, number>;
+      indices?: number;
+      material?: number;
+      mode?: number;
+    }[];
+  }[];
+  accessors?: {
+    bufferView?: number;
+    byteOffset?: number;
+    componentType: number;
+    normalized?: boolean;
+    count: number;
+    type: keyof typeof TYPE_SIZES;
+    sparse?: {
+      count: number;
+      indices: {
+        bufferView: number;
+        byteOffset?: number;
+        componentType: number;
+      };
+      values: { bufferView: number; byteOffset?: number };
+    };
+  }[];
+  bufferViews?: {
+    buffer: number;
+    byteOffset?: number;
+    byteLength: number;
+    byteStride?: number;
+  }[];
+  buffers?: { uri?: string; byteLength: number }[];
+  materials?: {
+    name?: string;
+    pbrMetallicRoughness?: {
+      baseColorFactor?: [number, number, number, number];
+      baseColorTexture?: { index: number };
+      metallicFactor?: number;
+      roughnessFactor?: number;
+      metallicRoughnessTexture?: { index: number };
+    };
+    normalTexture?: { index: number; scale?: number };
+    occlusionTexture?: { index: number; strength?: number };
+    emissiveTexture?: { index: number };
+    emissiveFactor?: Vec3;
+    alphaMode?: "OPAQUE" | "MASK" | "BLEND";
+    alphaCutoff?: number;
+    doubleSided?: boolean;
+  }[];
+  textures?: { source?: number; sampler?: number }[];
+  images?: { uri?: string; bufferView?: number; mimeType?: string }[];
+  samplers?: {
+    magFilter?: number;
+    minFilter?: number;
+    wrapS?: number;
+    wrapT?: number;
+  }[];
+  cameras?: {
+    name?: string;
+    type: "perspective" | "orthographic";
+    perspective?: {
+      yfov: number;
+      aspectRatio?: number;
+      znear: number;
+      zfar?: number;
+    };
+    orthographic?: { xmag: number; ymag: number; znear: number; zfar: number };
+  }[];
+}
+
+const TYPE_SIZES = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT2: 4,
+  MAT3: 9,
+  MAT4: 16,
+};
+
+// Array types of the accessor component types, and the largest value of the
+// integer ones for normalized accessors.
+const COMPONENT_TYPES: Record<
+  number,
+  [
+    | Int8ArrayConstructor
+    | Uint8ArrayConstructor
+    | Int16ArrayConstructor
+    | Uint16ArrayConstructor
+    | Uint32ArrayConstructor
+    | Float32ArrayConstructor,
+    max: number,
+  ]
+> = {
+  5120: [Int8Array, 127],
+  5121: [Uint8Array, 255],
+  5122: [Int16Array, 32767],
+  5123: [Uint16Array, 65535],
+  5125: [Uint32Array, 0],
+  5126: [Float32Array, 0],
+};
+
+const WRAP_MODES: Record<number, GPUAddressMode> = {
+  33071: "clamp-to-edge",
+  33648: "mirror-repeat",
+  10497: "repeat",
+};
+
+// Extensions files may require. The accessors of KHR_mesh_quantization are
+// read like any other.
+const SUPPORTED_EXTENSIONS = ["KHR_mesh_quantization"];
+
+const GLB_MAGIC = 0x46546c67;
+const GLB_JSON = 0x4e4f534a;
+const GLB_BIN = 0x004e4942;
+
+export interface GltfTexture {
+  texture: GPUTexture;
+  sampler: GPUSampler;
+}
+
+/** A glTF PBR metallic-roughness material, with the spec's defaults filled in. */
+export interface GltfMaterial {
+  name: string;
+  baseColorFactor: [number, number, number, number];
+  /** Sampled as linear colors from an sRGB image. */
+  baseColorTexture?: GltfTexture;
+  metallicFactor: number;
+  roughnessFactor: number;
+  /** Roughness in the green and metalness in the blue channel. */
+  metallicRoughnessTexture?: GltfTexture;
+  normalTexture?: GltfTexture;
+  normalScale: number;
+  occlusionTexture?: GltfTexture;
+  occlusionStrength: number;
+  /** Decoded from sRGB like `baseColorTexture`. */
+  emissiveTexture?: GltfTexture;
+  emissiveFactor: Vec3;
+  alphaMode: "OPAQUE" | "MASK" | "BLEND";
+  alphaCutoff: number;
+  doubleSided: boolean;
+}
+
+export interface GltfPrimitive {
+  vertexBuffer: GPUBuffer;
+  indexBuffer: GPUBuffer;
+  indexFormat: GPUIndexFormat;
+  indexCount: number;
+  layout: GPUVertexBufferLayout;
+  topology: GPUPrimitiveTopology;
+  material: GltfMaterial;
+}
+
+export interface GltfMesh {
+  name: string;
+  primitives: GltfPrimitive[];
+}
+
+/** A primitive to draw with the world matrix of the node that holds it. */
+export interface GltfDraw {
+  node: string;
+  world: Mat4;
+  primitive: GltfPrimitive;
+}
+
+export interface GltfCamera extends Omit<CameraDescriptor, "aspect"> {
+  name: string;
+  /** The aspect ratio the camera was authored for, if any. */
+  aspect?: number;
+}
+
+export interface GltfScene {
+  meshes: GltfMesh[];
+  materials: GltfMaterial[];
+  /** The primitives of the scene, in the order its nodes are traversed. */
+  draws: GltfDraw[];
+  /** The cameras of the scene's nodes, placed by their world matrix. */
+  cameras: GltfCamera[];
+}
+
+export interface GltfOptions {
+  /**
+   * Attributes and formats of the vertex buffers. Tangents are generated from
+   * the UVs. Defaults to float32 positions, normals and UVs.
+   */
+  mesh?: MeshOptions;
+  /** The scene to load. Defaults to the file's `scene`, else the first. */
+  scene?: number;
+}
+
+async function readUri(uri: string, base: URL): Promise<Uint8Array> {
+  if (uri.startsWith("data:")) {
+    const data = uri.slice(uri.indexOf(",") + 1);
+    if (!uri.slice(0, uri.indexOf(",")).endsWith(";base64")) {
+      return new TextEncoder().encode(decodeURIComponent(data));
+    }
+    return Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+  }
+  const url = new URL(uri, base);
+  if (url.protocol !== "file:") {
+    throw new Error(`${uri}: only local files and data URIs can be loaded`);
+  }
+  return await Deno.readFile(url);
+}
+
+/** Splits a file into its JSON and, for `.glb` files, its binary chunk. */
+function parseContainer(
+  file: Uint8Array,
+): { json: GltfJson; bin?: Uint8Array } {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  if (file.byteLength < 12 || view.getUint32(0, true) !== GLB_MAGIC) {
+    return { json: JSON.parse(new TextDecoder().decode(file)) };
+  }
+  const version = view.getUint32(4, true);
+  if (version !== 2) {
+    throw new Error(`unsupported glb version ${version}`);
+  }
+  let json: GltfJson | undefined;
+  let bin: Uint8Array | undefined;
+  for (let offset = 12; offset < view.getUint32(8, true);) {
+    const length = view.getUint32(offset, true);
+    const type = view.getUint32(offset + 4, true);
+    const chunk = file.subarray(offset + 8, offset + 8 + length);
+    if (type === GLB_JSON) {
+      json = JSON.parse(new TextDecoder().decode(chunk));
+    } else if (type === GLB_BIN && bin === undefined) {
+      bin = chunk;
+    }
+    offset += 8 + length;
+  }
+  if (!json) {
+    throw new Error("glb file has no JSON chunk");
+  }
+  return { json, bin };
+}
+
+class GltfReader {
+  json: GltfJson;
+  buffers: Uint8Array[];
+
+  constructor(json: GltfJson, buffers: Uint8Array[]) {
+    this.json = json;
+    this.buffers = buffers;
+  }
+
+  bufferView(index: number): Uint8Array {
+    const view = this.json.bufferViews![index];
+    const buffer = this.buffers[view.buffer];
+    const offset = view.byteOffset ?? 0;
+    return buffer.subarray(offset, offset + view.byteLength);
+  }
+
+  /**
+   * Reads an accessor as plain numbers, converting normalized integers to
+   * floats.
+   */
+  accessor(index: number): { values: number[]; components: number } {
+    const accessor = this.json.accessors![index];
+    const components = TYPE_SIZES[accessor.type];
+    const values = new Array<number>(accessor.count * components).fill(0);
+    if (accessor.bufferView !== undefined) {
+      const stride = this.json.bufferViews![accessor.bufferView].byteStride;
+      this.#readElements(
+        this.bufferView(accessor.bufferView),
+        accessor.byteOffset ?? 0,
+        stride,
+        accessor.componentType,
+        components,
+        accessor.count,
+        accessor.normalized ?? false,
+        values,
+      );
+    }
+    if (accessor.sparse) {
+      const { count, indices, values: sparseValues } = accessor.sparse;
+      const targets = new Array<number>(count);
+      this.#readElements(
+        this.bufferView(indices.bufferView),
+        indices.byteOffset ?? 0,
+        undefined,
+        indices.componentType,
+        1,
+        count,
+        false,
+        targets,
+      );
+      const replacements = new Array<number>(count * components);
+      this.#readElements(
+        this.bufferView(sparseValues.bufferView),
+        sparseValues.byteOffset ?? 0,
+        undefined,
+        accessor.componentType,
+        components,
+        count,
+        accessor.normalized ?? false,
+        replacements,
+      );
+      targets.forEach((target, i) => {
+        for (let c = 0; c < components; c++) {
+          values[target * components + c] = replacements[i * components + c];
+        }
+      });
+    }
+    return { values, components };
+  }
+
+  #readElements(
+    bytes: Uint8Array,
+    byteOffset: number,
+    byteStride: number | undefined,
+    componentType: number,
+    components: number,
+    count: number,
+    normalized: boolean,
+    out: number[],
+  ) {
+    const [ArrayType, max] = COMPONENT_TYPES[componentType] ?? [];
+    if (!ArrayType) {
+      throw new Error(`unknown accessor component type ${componentType}`);
+    }
+    const size = ArrayType.BYTES_PER_ELEMENT;
+    const stride = byteStride ?? size * components;
+    // Copies every element out first, as it may not be aligned in the buffer.
+    const element = new Uint8Array(size * components);
+    const typed = new ArrayType(element.buffer);
+    for (let i = 0; i < count; i++) {
+      const start = byteOffset + i * stride;
+      element.set(bytes.subarray(start, start + element.length));
+      for (let c = 0; c < components; c++) {
+        out[i * components + c] = normalized
+          ? Math.max(typed[c] / max, -1)
+          : typed[c];
+      }
+    }
+  }
+}
+
+/** Expands 3-component triangles into a list, if they are strips or fans. */
+function triangleList(indices: number[], mode: number): number[] {
+  if (mode === 4) return indices;
+  const list = [];
+  for (let i = 2; i < indices.length; i++) {
+    if (mode === 6) {
+      list.push(indices[0], indices[i - 1], indices[i]);
+    } else if (i % 2 === 0) {
+      list.push(indices[i - 2], indices[i - 1], indices[i]);
+    } else {
+      list.push(indices[i - 1], indices[i - 2], indices[i]);
+    }
+  }
+  return list;
+}
+
+/** Gives every triangle its own vertices with the normal of its face. */
+function flatShade(geometry: Geometry): Geometry {
+  const flat: Geometry = { positions: [], normals: [], uvs: [], indices: [] };
+  const { positions, uvs, indices } = geometry;
+  for (let i = 0; i < indices.length; i += 3) {
+    const corners = indices.slice(i, i + 3);
+    const [a, b, c] = corners.map((index) =>
+      positions.slice(index * 3, index * 3 + 3)
+    );
+    const e1 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const e2 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const normal = [
+      e1[1] * e2[2] - e1[2] * e2[1],
+      e1[2] * e2[0] - e1[0] * e2[2],
+      e1[0] * e2[1] - e1[1] * e2[0],
+    ];
+    const length = Math.hypot(...normal) || 1;
+    for (const index of corners) {
+      flat.indices.push(flat.positions.length / 3);
+      flat.positions.push(...positions.slice(index * 3, index * 3 + 3));
+      flat.normals.push(...normal.map((value) => value / length));
+      flat.uvs.push(...uvs.slice(index * 2, index * 2 + 2));
+    }
+  }
+  return flat;
+}
+
+const TOPOLOGIES: Record<number, GPUPrimitiveTopology> = {
+  0: "point-list",
+  1: "line-list",
+  3: "line-strip",
+  4: "triangle-list",
+  5: "triangle-list",
+  6: "triangle-list",
+};
+
+function nodeMatrix(node: NonNullable<GltfJson["nodes"]>[number]): Mat4 {
+  if (node.matrix) return new Float32Array(node.matrix);
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [x, y, z, w] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+  // deno-fmt-ignore
+  return new Float32Array([
+    (1 - 2 * (y * y + z * z)) * sx, 2 * (x * y + w * z) * sx, 2 * (x * z - w * y) * sx, 0,
+    2 * (x * y - w * z) * sy, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z + w * x) * sy, 0,
+    2 * (x * z + w * y) * sz, 2 * (y * z - w * x) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+    tx, ty, tz, 1,
+  ]);
+}
+
+/**
+ * Loads a local `.gltf` or `.glb` file into vertex and index buffers, PNG
+ * textures and a draw list of the primitives of a scene. Buffers and images
+ * may be embedded, data URIs or files next to the model.
+ */
+export async function loadGltf(
+  device: GPUDevice,
+  url: URL,
+  options: GltfOptions = {},
+): Promise<GltfScene> {
+  const name = url.pathname.slice(url.pathname.lastIndexOf("/") + 1);
+  const { json, bin } = parseContainer(await Deno.readFile(url));
+  if (!json.asset?.version?.startsWith("2.")) {
+    throw new Error(`unsupported glTF version ${json.asset?.version}`);
+  }
+  const unsupported = (json.extensionsRequired ?? []).filter((extension) =>
+    !SUPPORTED_EXTENSIONS.includes(extension)
+  );
+  if (unsupported.length > 0) {
+    throw new Error(
+      `${name}: unsupported required extensions ${unsupported.join(", ")}`,
+    );
+  }
+  const buffers = [];
+  for (const [index, buffer] of (json.buffers ?? []).entries()) {
+    if (buffer.uri !== undefined) {
+      buffers.push(await readUri(buffer.uri, url));
+    } else if (index === 0 && bin) {
+      buffers.push(bin);
+    } else {
+      throw new Error(`buffer ${index} has no data`);
+    }
+  }
+  const reader = new GltfReader(json, buffers);
+
+  const samplers = (json.samplers ?? []).map((sampler) =>
+    device.createSampler({
+      addressModeU: WRAP_MODES[sampler.wrapS ?? 10497],
+      addressModeV: WRAP_MODES[sampler.wrapT ?? 10497],
+      magFilter: sampler.magFilter === 9728 ? "nearest" : "linear",
+      // NEAREST, NEAREST_MIPMAP_NEAREST and NEAREST_MIPMAP_LINEAR
+      minFilter: [9728, 9984, 9986].includes(sampler.minFilter ?? 0)
+        ? "nearest"
+        : "linear",
+      mipmapFilter: [9986, 9987].includes(sampler.minFilter ?? 0)
+        ? "linear"
+        : "nearest",
+    })
+  );
+  const defaultSampler = device.createSampler({
+    addressModeU: "repeat",
+    addressModeV: "repeat",
+    magFilter: "linear",
+    minFilter: "linear",
+    mipmapFilter: "linear",
+  });
+
+  const textureCache = new Map<string, GltfTexture>();
+  const texture = async (index: number | undefined, srgb: boolean) => {
+    if (index === undefined) return undefined;
+    const key = `${index}/${srgb}`;
+    let result = textureCache.get(key);
+    if (!result) {
+      const { source, sampler } = json.textures![index];
+      const image = json.images![source!];
+      const file = image.bufferView !== undefined
+        ? reader.bufferView(image.bufferView)
+        : await readUri(image.uri!, url);
+      if (file[0] !== 0x89 || file[1] !== 0x50) {
+        throw new Error(
+          `${name}: image ${source} is ${
+            image.mimeType ?? "not a PNG"
+          }, only PNG textures are supported`,
+        );
+      }
+      result = {
+        texture: createPngTexture(device, file, {
+          label: `${name} image ${source}`,
+          colorSpace: srgb ? "srgb" : "linear",
+          mipmaps: true,
+        }),
+        sampler: sampler === undefined ? defaultSampler : samplers[sampler],
+      };
+      textureCache.set(key, result);
+    }
+    return result;
+  };
+
+  const materials: GltfMaterial[] = [];
+  for (const [index, material] of (json.materials ?? []).entries()) {
+    const pbr = material.pbrMetallicRoughness ?? {};
+    materials.push({
+      name: material.name ?? `material ${index}`,
+      baseColorFactor: pbr.baseColorFactor ?? [1, 1, 1, 1],
+      baseColorTexture: await texture(pbr.baseColorTexture?.index, true),
+      metallicFactor: pbr.metallicFactor ?? 1,
+      roughnessFactor: pbr.roughnessFactor ?? 1,
+      metallicRoughnessTexture: await texture(
+        pbr.metallicRoughnessTexture?.index,
+        false,
+      ),
+      normalTexture: await texture(material.normalTexture?.index, false),
+      normalScale: material.normalTexture?.scale ?? 1,
+      occlusionTexture: await texture(material.occlusionTexture?.index, false),
+      occlusionStrength: material.occlusionTexture?.strength ?? 1,
+      emissiveTexture: await texture(material.emissiveTexture?.index, true),
+      emissiveFactor: material.emissiveFactor ?? [0, 0, 0],
+      alphaMode: material.alphaMode ?? "OPAQUE",
+      alphaCutoff: material.alphaCutoff ?? 0.5,
+      doubleSided: material.doubleSided ?? false,
+    });
+  }
+  let fallbackMaterial: GltfMaterial | undefined;
+
+  const meshes: GltfMesh[] = (json.meshes ?? []).map((mesh, meshIndex) => {
+    const meshName = mesh.name ?? `mesh ${meshIndex}`;
+    return {
+      name: meshName,
+      primitives: mesh.primitives.map((primitive, primitiveIndex) => {
+        const mode = primitive.mode ?? 4;
+        const topology = TOPOLOGIES[mode];
+        if (!topology) {
+          throw new Error(`${meshName}: unsupported primitive mode ${mode}`);
+        }
+        const { POSITION, NORMAL, TEXCOORD_0 } = primitive.attributes;
+        if (POSITION === undefined) {
+          throw new Error(`${meshName}: primitive has no positions`);
+        }
+        const positions = reader.accessor(POSITION).values;
+        const vertexCount = positions.length / 3;
+        let geometry: Geometry = {
+          positions,
+          normals: NORMAL === undefined
+            ? new Array(vertexCount * 3).fill(0)
+            : reader.accessor(NORMAL).values,
+          uvs: TEXCOORD_0 === undefined
+            ? new Array(vertexCount * 2).fill(0)
+            : reader.accessor(TEXCOORD_0).values,
+          indices: primitive.indices === undefined
+            ? Array.from({ length: vertexCount }, (_, i) => i)
+            : reader.accessor(primitive.indices).values,
+        };
+        if (topology === "triangle-list") {
+          geometry.indices = triangleList(geometry.indices, mode);
+          // The spec asks for flat normals when there are none.
+          if (NORMAL === undefined) geometry = flatShade(geometry);
+        }
+
+        const built = buildMesh(geometry, options.mesh);
+        return {
+          ...createMeshBuffers(
+            device,
+            built,
+            `${name} ${meshName} ${primitiveIndex}`,
+          ),
+          indexFormat: built.indexFormat,
+          indexCount: built.indexCount,
+          layout: built.layout,
+          topology,
+          material: primitive.material === undefined
+            ? fallbackMaterial ??= defaultMaterial("default")
+            : materials[primitive.material],
+        };
+      }),
+    };
+  });
+
+  const draws: GltfDraw[] = [];
+  const cameras: GltfCamera[] = [];
+  const sceneIndex = options.scene ?? json.scene ?? 0;
+  const roots = json.scenes?.[sceneIndex]?.nodes ??
+    (json.scenes ? [] : (json.nodes ?? []).map((_, i) => i));
+  const visit = (index: number, parent: Mat4) => {
+    const node = json.nodes![index];
+    const world = mat4.multiply(parent, nodeMatrix(node));
+    const nodeName = node.name ?? `node ${index}`;
+    if (node.mesh !== undefined) {
+      for (const primitive of meshes[node.mesh].primitives) {
+        draws.push({ node: nodeName, world, primitive });
+      }
+    }
+    if (node.camera !== undefined) {
+      cameras.push(placeCamera(json.cameras![node.camera], nodeName, world));
+    }
+    for (const child of node.children ?? []) visit(child, world);
+  };
+  for (const root of roots) visit(root, mat4.identity());
+
+  return { meshes, materials, draws, cameras };
+}
+
+/** The material the spec prescribes for primitives without one. */
+function defaultMaterial(name: string): GltfMaterial {
+  return {
+    name,
+    baseColorFactor: [1, 1, 1, 1],
+    metallicFactor: 1,
+    roughnessFactor: 1,
+    normalScale: 1,
+    occlusionStrength: 1,
+    emissiveFactor: [0, 0, 0],
+    alphaMode: "OPAQUE",
+    alphaCutoff: 0.5,
+    doubleSided: false,
+  };
+}
+
+/** Glues a camera to a node, which looks down its -Z axis with +Y up. */
+function placeCamera(
+  camera: NonNullable<GltfJson["cameras"]>[number],
+  name: string,
+  world: Mat4,
+): GltfCamera {
+  const position: Vec3 = [world[12], world[13], world[14]];
+  const target: Vec3 = [
+    position[0] - world[8],
+    position[1] - world[9],
+    position[2] - world[10],
+  ];
+  const up: Vec3 = [world[4], world[5], world[6]];
+  let projection: Projection;
+  let aspect: number | undefined;
+  if (camera.type === "perspective") {
+    const { yfov, aspectRatio, znear, zfar } = camera.perspective!;
+    projection = {
+      type: "perspective",
+      fovY: yfov * 180 / Math.PI,
+      near: znear,
+      far: zfar ?? Infinity,
+    };
+    aspect = aspectRatio;
+  } else {
+    const { xmag, ymag, znear, zfar } = camera.orthographic!;
+    projection = {
+      type: "orthographic",
+      height: ymag * 2,
+      near: znear,
+      far: zfar,
+    };
+    aspect = xmag / ymag;
+  }
+  return {
+    name: camera.name ?? name,
+    projection,
+    aspect,
+    position,
+    target,
+    up,
+  };
+}
@@ -0,0 +1,46 @@
+import { assertAlmostEquals, assertEquals, assertRejects } from "std/assert";
+import { Framework } from "./framework.ts";
+import { loadGltf } from "./gltf.ts";
+
+const device = await Framework.getDevice();
+
+// A quad without normals, scaled by its node and moved by the root along with
+// a camera looking down -Z. The .glb stores the positions as int16 under the
+// required KHR_mesh_quantization.
+for (const file of ["quad.gltf", "quad.glb"]) {
+  Deno.test(`loads the meshes, draws and cameras of ${file}`, async () => {
+    const scene = await loadGltf(
+      device,
+      new URL(`./testdata/${file}`, import.meta.url),
+    );
+    const [{ name, primitives: [primitive] }] = scene.meshes;
+    assertEquals(name, "quad");
+    assertEquals(primitive.indexCount, 6);
+    assertEquals(primitive.layout.arrayStride, 32);
+    assertEquals(primitive.material.name, "red");
+    assertEquals(primitive.material.baseColorFactor, [1, 0, 0, 1]);
+    assertEquals(
+      scene.draws.map(({ node, world }) => ({ node, world: [...world] })),
+      [{
+        node: "quad",
+        world: [2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 1, 2, 3, 1],
+      }],
+    );
+    const [camera] = scene.cameras;
+    assertEquals(camera.name, "eye");
+    assertEquals(camera.aspect, 1.5);
+    assertEquals(camera.position, [1, 2, 8]);
+    assertEquals(camera.target, [1, 2, 7]);
+    assertEquals(camera.up, [0, 1, 0]);
+    if (camera.projection.type !== "perspective") throw new Error("ortho");
+    assertAlmostEquals(camera.projection.fovY, 0.8 * 180 / Math.PI, 1e-4);
+  });
+}
+
+Deno.test("rejects files requiring unsupported extensions", async () => {
+  await assertRejects(
+    () => loadGltf(device, new URL("./testdata/draco.gltf", import.meta.url)),
+    Error,
+    "unsupported required extensions KHR_draco_mesh_compression",
+  );
+});
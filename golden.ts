@@ -0,0 +1,206 @@
+import { decodePng, to8Bit } from "./decoders.ts";
+import { ImageOptions, Pixels, writeImage } from "./encoders.ts";
+import { Dimensions } from "./utils.ts";
+
+export interface GoldenThresholds {
+  /** Largest allowed difference of any channel. Defaults to 255. */
+  maxError?: number;
+  /** Lowest allowed peak signal-to-noise ratio, in dB. Defaults to 30. */
+  psnr?: number;
+  /** Lowest allowed structural similarity of the luma. Defaults to 0.97. */
+  ssim?: number;
+}
+
+export interface ComparisonResult {
+  /** Largest difference of each of the RGBA channels. */
+  maxError: [number, number, number, number];
+  psnr: number;
+  ssim: number;
+  /** A description of every threshold that was not met. */
+  failures: string[];
+}
+
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+
+function luma(data: Uint8Array): Float32Array {
+  const out = new Float32Array(data.length / 4);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] +
+      0.114 * data[i * 4 + 2];
+  }
+  return out;
+}
+
+/** Mean SSIM over 8x8 windows of the luma, with a stride of 4 pixels. */
+function ssim(
+  expected: Uint8Array,
+  actual: Uint8Array,
+  dimensions: Dimensions,
+): number {
+  const { width, height } = dimensions;
+  const a = luma(expected);
+  const b = luma(actual);
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  const n = SSIM_WINDOW * SSIM_WINDOW;
+
+  let total = 0;
+  let windows = 0;
+  for (let y = 0; y + SSIM_WINDOW <= height; y += SSIM_STRIDE) {
+    for (let x = 0; x + SSIM_WINDOW <= width; x += SSIM_STRIDE) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let wy = 0; wy < SSIM_WINDOW; wy++) {
+        for (let wx = 0; wx < SSIM_WINDOW; wx++) {
+          const i = (y + wy) * width + x + wx;
+          sumA += a[i];
+          sumB += b[i];
+          sumAA += a[i] * a[i];
+          sumBB += b[i] * b[i];
+          sumAB += a[i] * b[i];
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+      total += ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+        ((meanA * meanA + meanB * meanB + c1) * (varA + varB + c2));
+      windows++;
+    }
+  }
+  return windows > 0 ? total / windows : 1;
+}
+
+export function compareImages(
+  expected: Uint8Array,
+  actual: Uint8Array,
+  dimensions: Dimensions,
+  thresholds: GoldenThresholds = {},
+): ComparisonResult {
+  const maxError: ComparisonResult["maxError"] = [0, 0, 0, 0];
+  let squaredError = 0;
+  for (let i = 0; i < expected.length; i++) {
+    const error = Math.abs(expected[i] - actual[i]);
+    const channel = i % 4;
+    maxError[channel] = Math.max(maxError[channel], error);
+    if (channel !== 3) squaredError += error * error;
+  }
+  const mse = squaredError / (expected.length / 4 * 3);
+  const psnr = mse === 0 ? Infinity : 10 * Math.log10(255 * 255 / mse);
+  const similarity = ssim(expected, actual, dimensions);
+
+  const failures = [];
+  const maxErrorLimit = thresholds.maxError ?? 255;
+  if (Math.max(...maxError) > maxErrorLimit) {
+    failures.push(
+      `max error ${Math.max(...maxError)} is above ${maxErrorLimit}`,
+    );
+  }
+  const psnrLimit = thresholds.psnr ?? 30;
+  if (psnr < psnrLimit) {
+    failures.push(`PSNR ${psnr.toFixed(2)} dB is below ${psnrLimit} dB`);
+  }
+  const ssimLimit = thresholds.ssim ?? 0.97;
+  if (similarity < ssimLimit) {
+    failures.push(`SSIM ${similarity.toFixed(4)} is below ${ssimLimit}`);
+  }
+
+  return { maxError, psnr, ssim: similarity, failures };
+}
+
+/**
+ * Creates an image showing the expected image dimmed in grayscale, with every
+ * pixel that differs highlighted in red, brighter for larger differences.
+ */
+export function createDiffImage(
+  expected: Uint8Array,
+  actual: Uint8Array,
+): Uint8Array {
+  const out = new Uint8Array(expected.length);
+  for (let i = 0; i < expected.length; i += 4) {
+    let error = 0;
+    for (let channel = 0; channel < 4; channel++) {
+      error = Math.max(
+        error,
+        Math.abs(expected[i + channel] - actual[i + channel]),
+      );
+    }
+    if (error > 0) {
+      out.set([128 + (error >> 1), 0, 0, 255], i);
+    } else {
+      const gray = (expected[i] + expected[i + 1] + expected[i + 2]) / 12;
+      out.set([gray, gray, gray, 255], i);
+    }
+  }
+  return out;
+}
+
+function siblingPath(path: string, suffix: string): string {
+  const extensionStart = path.lastIndexOf(".");
+  return `${path.slice(0, extensionStart)}.${suffix}.png`;
+}
+
+/**
+ * Compares `actual` against the PNG committed at `path`. On failure, the
+ * render is written next to it as `<name>.actual.png` together with a
+ * `<name>.diff.png` highlighting the differences, and an error is thrown.
+ */
+export function checkGolden(
+  path: string,
+  actual: Pixels,
+  dimensions: Dimensions,
+  thresholds: GoldenThresholds = {},
+): ComparisonResult {
+  const golden = decodePng(Deno.readFileSync(path));
+  const actual8 = to8Bit(actual);
+  if (
+    golden.width !== dimensions.width || golden.height !== dimensions.height
+  ) {
+    writeImage(siblingPath(path, "actual"), actual8, dimensions);
+    throw new Error(
+      `${path}: expected ${golden.width}x${golden.height}, rendered ${dimensions.width}x${dimensions.height}`,
+    );
+  }
+
+  const expected = to8Bit(golden.data);
+  const result = compareImages(expected, actual8, dimensions, thresholds);
+  if (result.failures.length > 0) {
+    writeImage(siblingPath(path, "actual"), actual8, dimensions);
+    writeImage(
+      siblingPath(path, "diff"),
+      createDiffImage(expected, actual8),
+      dimensions,
+    );
+    throw new Error(
+      `${path} does not match the render: ${result.failures.join(", ")}`,
+    );
+  }
+  return result;
+}
+
+export interface GoldenOptions extends ImageOptions {
+  /** Compare against the existing file instead of overwriting it. */
+  golden?: boolean | GoldenThresholds;
+}
+
+/** Writes the output image, or checks it against the golden image at `path`. */
+export function saveOutput(
+  path: string,
+  data: Pixels,
+  dimensions: Dimensions,
+  options: GoldenOptions = {},
+): void {
+  if (options.golden) {
+    const thresholds = options.golden === true ? {} : options.golden;
+    const result = checkGolden(path, data, dimensions, thresholds);
+    console.log(
+      `${path} matches (PSNR ${result.psnr.toFixed(2)} dB, SSIM ${
+        result.ssim.toFixed(4)
+      })`,
+    );
+  } else {
+    writeImage(path, data, dimensions, options);
+  }
+}
@@ -0,0 +1,69 @@
+import { formatHelp, parseOptions } from "./cli.ts";
+
+const USAGE = "deno task gpu-info [options]";
+const DESCRIPTION =
+  "Prints the info, features and limits of the adapter the examples get as JSON.";
+const schema = {
+  powerPreference: {
+    type: "string",
+    default: "default",
+    description: "Adapter to prefer",
+    choices: ["default", "low-power", "high-performance"],
+  },
+  forceFallbackAdapter: {
+    type: "boolean",
+    default: false,
+    description: "Request a software adapter",
+  },
+} as const;
+
+if (Deno.args.includes("--help")) {
+  console.log(formatHelp(USAGE, DESCRIPTION, schema));
+  Deno.exit(0);
+}
+
+let values;
+try {
+  ({ values } = parseOptions(schema, Deno.args));
+} catch (error) {
+  console.error(`error: ${(error as Error).message}\n`);
+  console.error(formatHelp(USAGE, DESCRIPTION, schema));
+  Deno.exit(1);
+}
+
+const adapter = await navigator.gpu.requestAdapter({
+  powerPreference: values.powerPreference === "default"
+    ? undefined
+    : values.powerPreference as GPUPowerPreference,
+  forceFallbackAdapter: values.forceFallbackAdapter,
+});
+if (adapter === null) {
+  console.error("error: no adapter found");
+  Deno.exit(1);
+}
+
+// Info and limits are exposed as getters, which JSON.stringify skips.
+function readGetters(object: object): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const prototype = Object.getPrototypeOf(object);
+  for (
+    const [key, descriptor] of Object.entries(
+      Object.getOwnPropertyDescriptors(prototype),
+    )
+  ) {
+    if (descriptor.get) {
+      result[key] = (object as Record<string, unknown>)[key];
+    }
+  }
+  return result;
+}
+
+console.log(JSON.stringify(
+  {
+    info: readGetters(adapter.info),
+    features: [...adapter.features].sort(),
+    limits: readGetters(adapter.limits),
+  },
+  null,
+  2,
+));
@@ -1,23 +1,24 @@
+import { ComputeFramework } from "../framework.ts";
 import { createBufferInit } from "../utils.ts";
+import { parseExampleArgs } from "../cli.ts";
 
 const OVERFLOW = 0xffffffff;
 
+const args = parseExampleArgs({
+  name: "hello-compute",
+  description:
+    "Runs a compute shader to determine the number of Collatz Conjecture iterations it takes each number to reach 1.",
+  positionals: "numbers",
+});
+
 // Get some numbers from the command line, or use the default 1, 4, 3, 295.
 let numbers: Uint32Array;
-if (Deno.args.length > 0) {
-  numbers = new Uint32Array(Deno.args.map((a) => parseInt(a)));
+if (args.positionals.length > 0) {
+  numbers = new Uint32Array(args.positionals.map((a) => parseInt(a)));
 } else {
   numbers = new Uint32Array([1, 4, 3, 295]);
 }
 
-const adapter = await navigator.gpu.requestAdapter();
-const device = await adapter?.requestDevice();
-
-if (!device) {
-  console.error("no suitable adapter found");
-  Deno.exit(0);
-}
-
 const shaderCode = `
 @group(0)
 @binding(0)
@@ -59,65 +60,75 @@ fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
 }
 `;
 
-const shaderModule = device.createShaderModule({
-  code: shaderCode,
-});
+class HelloCompute extends ComputeFramework {
+  numbers: Uint32Array;
 
-const stagingBuffer = device.createBuffer({
-  size: numbers.byteLength,
-  usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
-});
+  storageBuffer!: GPUBuffer;
+  computePipeline!: GPUComputePipeline;
+  bindGroup!: GPUBindGroup;
 
-const storageBuffer = createBufferInit(device, {
-  label: "Storage Buffer",
-  usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST |
-    GPUBufferUsage.COPY_SRC,
-  contents: numbers.buffer,
-});
-
-const computePipeline = device.createComputePipeline({
-  layout: "auto",
-  compute: {
-    module: shaderModule,
-    entryPoint: "main",
-  },
-});
+  constructor(numbers: Uint32Array, device: GPUDevice) {
+    super(device);
+    this.numbers = numbers;
+  }
 
-const bindGroupLayout = computePipeline.getBindGroupLayout(0);
-const bindGroup = device.createBindGroup({
-  layout: bindGroupLayout,
-  entries: [
-    {
-      binding: 0,
-      resource: {
-        buffer: storageBuffer,
+  // deno-lint-ignore require-await
+  async init() {
+    const shaderModule = this.device.createShaderModule({
+      code: shaderCode,
+    });
+
+    this.storageBuffer = createBufferInit(this.device, {
+      label: "Storage Buffer",
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST |
+        GPUBufferUsage.COPY_SRC,
+      contents: this.numbers.buffer,
+    });
+
+    this.computePipeline = this.device.createComputePipeline({
+      layout: "auto",
+      compute: {
+        module: shaderModule,
+        entryPoint: "main",
       },
-    },
-  ],
-});
+    });
+
+    const bindGroupLayout = this.computePipeline.getBindGroupLayout(0);
+    this.bindGroup = this.device.createBindGroup({
+      layout: bindGroupLayout,
+      entries: [
+        {
+          binding: 0,
+          resource: {
+            buffer: this.storageBuffer,
+          },
+        },
+      ],
+    });
+  }
 
-const encoder = device.createCommandEncoder();
+  dispatch(encoder: GPUCommandEncoder) {
+    const computePass = encoder.beginComputePass();
+    computePass.setPipeline(this.computePipeline);
+    computePass.setBindGroup(0, this.bindGroup);
+    computePass.insertDebugMarker("compute collatz iterations");
+    computePass.dispatchWorkgroups(this.numbers.length);
+    computePass.end();
+  }
+}
 
-const computePass = encoder.beginComputePass();
-computePass.setPipeline(computePipeline);
-computePass.setBindGroup(0, bindGroup);
-computePass.insertDebugMarker("compute collatz iterations");
-computePass.dispatchWorkgroups(numbers.length);
-computePass.end();
+const helloCompute = new HelloCompute(
+  numbers,
+  await HelloCompute.getDevice(),
+);
+await helloCompute.run();
 
-encoder.copyBufferToBuffer(
-  storageBuffer,
-  0,
-  stagingBuffer,
+const uintData = await helloCompute.readBuffer(
+  helloCompute.storageBuffer,
+  Uint32Array,
   0,
   numbers.byteLength,
 );
-
-device.queue.submit([encoder.finish()]);
-
-await stagingBuffer.mapAsync(1);
-const arrayBufferData = stagingBuffer.getMappedRange();
-const uintData = new Uint32Array(arrayBufferData);
 const checkedData = Array.from(uintData).map((n) => {
   if (n === OVERFLOW) {
     return "OVERFLOW";
@@ -126,4 +137,3 @@ const checkedData = Array.from(uintData).map((n) => {
   }
 });
 console.log(checkedData);
-stagingBuffer.unmap();
@@ -1,18 +1,5 @@
-import { copyToBuffer, createPng, Dimensions } from "../utils.ts";
-import { createCapture } from "std/webgpu";
-
-const dimensions: Dimensions = {
-  width: 200,
-  height: 200,
-};
-
-const adapter = await navigator.gpu.requestAdapter();
-const device = await adapter?.requestDevice();
-
-if (!device) {
-  console.error("no suitable adapter found");
-  Deno.exit(0);
-}
+import { Framework } from "../framework.ts";
+import { parseExampleArgs } from "../cli.ts";
 
 const shaderCode = `
 @vertex
@@ -28,54 +15,65 @@ fn fs_main() -> @location(0) vec4<f32> {
 }
 `;
 
-const shaderModule = device.createShaderModule({
-  code: shaderCode,
-});
+class HelloTriangle extends Framework {
+  renderPipeline!: GPURenderPipeline;
 
-const pipelineLayout = device.createPipelineLayout({
-  bindGroupLayouts: [],
-});
+  // deno-lint-ignore require-await
+  async init() {
+    const shaderModule = this.device.createShaderModule({
+      code: shaderCode,
+    });
 
-const renderPipeline = device.createRenderPipeline({
-  layout: pipelineLayout,
-  vertex: {
-    module: shaderModule,
-    entryPoint: "vs_main",
-  },
-  fragment: {
-    module: shaderModule,
-    entryPoint: "fs_main",
-    targets: [
-      {
-        format: "rgba8unorm-srgb",
+    const pipelineLayout = this.device.createPipelineLayout({
+      bindGroupLayouts: [],
+    });
+
+    this.renderPipeline = this.device.createRenderPipeline({
+      layout: pipelineLayout,
+      vertex: {
+        module: shaderModule,
+        entryPoint: "vs_main",
       },
-    ],
-  },
-});
+      fragment: {
+        module: shaderModule,
+        entryPoint: "fs_main",
+        targets: [
+          {
+            format: this.format,
+          },
+        ],
+      },
+    });
+  }
 
-const { texture, outputBuffer } = createCapture(
-  device,
-  dimensions.width,
-  dimensions.height,
-);
+  render(encoder: GPUCommandEncoder, view: GPUTextureView) {
+    const renderPass = encoder.beginRenderPass({
+      colorAttachments: [
+        {
+          view: view,
+          storeOp: "store",
+          loadOp: "clear",
+          clearValue: [0, 1, 0, 1],
+        },
+      ],
+    });
+    renderPass.setPipeline(this.renderPipeline);
+    renderPass.draw(3, 1);
+    renderPass.end();
+  }
+}
 
-const encoder = device.createCommandEncoder();
-const renderPass = encoder.beginRenderPass({
-  colorAttachments: [
-    {
-      view: texture.createView(),
-      storeOp: "store",
-      loadOp: "clear",
-      clearValue: [0, 1, 0, 1],
-    },
-  ],
+const args = parseExampleArgs({
+  name: "hello-triangle",
+  description: "This example renders a triangle.",
+  dimensions: {
+    width: 200,
+    height: 200,
+  },
 });
-renderPass.setPipeline(renderPipeline);
-renderPass.draw(3, 1);
-renderPass.end();
-
-copyToBuffer(encoder, texture, outputBuffer, dimensions);
-
-device.queue.submit([encoder.finish()]);
 
-await createPng(outputBuffer, dimensions);
+const helloTriangle = new HelloTriangle({
+  width: args.width,
+  height: args.height,
+}, await HelloTriangle.getDevice());
+await helloTriangle.renderOutput(args);
@@ -0,0 +1,544 @@
+import { createBufferInit } from "./utils.ts";
+
+/**
+ * Triangles with per-vertex positions and normals as xyz triples, texture
+ * coordinates as uv pairs, and counter-clockwise winding seen from outside.
+ * The round primitives are built around the Z axis.
+ */
+export interface Geometry {
+  positions: number[];
+  normals: number[];
+  uvs: number[];
+  indices: number[];
+}
+
+type Vec2 = [number, number];
+type Vec3 = [number, number, number];
+
+function emptyGeometry(): Geometry {
+  return { positions: [], normals: [], uvs: [], indices: [] };
+}
+
+function addVertex(
+  geometry: Geometry,
+  position: Vec3,
+  normal: Vec3,
+  uv: Vec2,
+): number {
+  geometry.positions.push(...position);
+  geometry.normals.push(...normal);
+  geometry.uvs.push(...uv);
+  return geometry.positions.length / 3 - 1;
+}
+
+/**
+ * Adds a grid of `columns` by `rows` vertices, passing the column and row of
+ * each to `vertex`, and connects them with quads of two triangles each.
+ */
+function addGrid(
+  geometry: Geometry,
+  columns: number,
+  rows: number,
+  vertex: (column: number, row: number) => [Vec3, Vec3, Vec2],
+  skip?: (column: number, row: number) => [boolean, boolean],
+) {
+  const first = geometry.positions.length / 3;
+  for (let row = 0; row <= rows; row++) {
+    for (let column = 0; column <= columns; column++) {
+      addVertex(geometry, ...vertex(column, row));
+    }
+  }
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const a = first + row * (columns + 1) + column;
+      const b = a + 1;
+      const c = b + columns + 1;
+      const d = a + columns + 1;
+      // Lets the poles of spheres and the tip of cones drop the triangle that
+      // collapses into a line.
+      const [skipFirst, skipSecond] = skip?.(column, row) ?? [false, false];
+      if (!skipFirst) geometry.indices.push(a, b, c);
+      if (!skipSecond) geometry.indices.push(c, d, a);
+    }
+  }
+}
+
+// Each face spans the directions u and v, with u x v pointing outwards.
+const CUBE_FACES: [Vec3, Vec3, Vec3][] = [
+  [[0, 0, 1], [1, 0, 0], [0, 1, 0]],
+  [[0, 0, -1], [1, 0, 0], [0, -1, 0]],
+  [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
+  [[-1, 0, 0], [0, -1, 0], [0, 0, 1]],
+  [[0, 1, 0], [-1, 0, 0], [0, 0, 1]],
+  [[0, -1, 0], [-1, 0, 0], [0, 0, -1]],
+];
+
+/** An axis-aligned cube centered on the origin, with its own UVs per face. */
+export function createCube(
+  options: { size?: number; subdivisions?: number } = {},
+): Geometry {
+  const { size = 2, subdivisions = 1 } = options;
+  const half = size / 2;
+  const geometry = emptyGeometry();
+  for (const [normal, u, v] of CUBE_FACES) {
+    addGrid(geometry, subdivisions, subdivisions, (column, row) => {
+      const s = column / subdivisions;
+      const t = row / subdivisions;
+      const position = [0, 1, 2].map((i) =>
+        half * (normal[i] + (2 * s - 1) * u[i] + (2 * t - 1) * v[i])
+      ) as Vec3;
+      return [position, normal, [s, t]];
+    });
+  }
+  return geometry;
+}
+
+/** A square in the XY plane centered on the origin, facing +Z. */
+export function createPlane(
+  options: { size?: number; subdivisions?: number } = {},
+): Geometry {
+  const { size = 2, subdivisions = 1 } = options;
+  const geometry = emptyGeometry();
+  addGrid(geometry, subdivisions, subdivisions, (column, row) => {
+    const s = column / subdivisions;
+    const t = row / subdivisions;
+    return [[(s - 0.5) * size, (t - 0.5) * size, 0], [0, 0, 1], [s, t]];
+  });
+  return geometry;
+}
+
+/**
+ * A sphere cut into `rings` between its poles on the Z axis and `segments`
+ * around it. V runs from 0 at the +Z pole to 1 at the -Z pole.
+ */
+export function createUvSphere(
+  options: { radius?: number; segments?: number; rings?: number } = {},
+): Geometry {
+  const { radius = 1, segments = 32, rings = 16 } = options;
+  const geometry = emptyGeometry();
+  addGrid(
+    geometry,
+    segments,
+    rings,
+    // Rows run up from the -Z pole.
+    (column, row) => {
+      const theta = Math.PI * (1 - row / rings);
+      const phi = 2 * Math.PI * column / segments;
+      const normal: Vec3 = [
+        Math.sin(theta) * Math.cos(phi),
+        Math.sin(theta) * Math.sin(phi),
+        Math.cos(theta),
+      ];
+      return [
+        normal.map((value) => value * radius) as Vec3,
+        normal,
+        [column / segments, 1 - row / rings],
+      ];
+    },
+    (_, row) => [row === 0, row === rings - 1],
+  );
+  return geometry;
+}
+
+const T = (1 + Math.sqrt(5)) / 2;
+// deno-fmt-ignore
+const ICOSAHEDRON_POSITIONS = [
+  -1, T, 0, 1, T, 0, -1, -T, 0, 1, -T, 0,
+  0, -1, T, 0, 1, T, 0, -1, -T, 0, 1, -T,
+  T, 0, -1, T, 0, 1, -T, 0, -1, -T, 0, 1,
+];
+// deno-fmt-ignore
+const ICOSAHEDRON_INDICES = [
+  0, 11, 5, 0, 5, 1, 0, 1, 7, 0, 7, 10, 0, 10, 11,
+  1, 5, 9, 5, 11, 4, 11, 10, 2, 10, 7, 6, 7, 1, 8,
+  3, 9, 4, 3, 4, 2, 3, 2, 6, 3, 6, 8, 3, 8, 9,
+  4, 9, 5, 2, 4, 11, 6, 2, 10, 8, 6, 7, 9, 8, 1,
+];
+
+/**
+ * An icosahedron whose triangles are split into four `subdivisions` times and
+ * pushed onto the sphere. UVs are mapped like those of `createUvSphere`, so
+ * the triangles crossing its seam stretch over the whole texture.
+ */
+export function createIcosphere(
+  options: { radius?: number; subdivisions?: number } = {},
+): Geometry {
+  const { radius = 1, subdivisions = 2 } = options;
+  const points: Vec3[] = [];
+  const addPoint = (point: Vec3) => {
+    const length = Math.hypot(...point);
+    return points.push(point.map((value) => value / length) as Vec3) - 1;
+  };
+  for (let i = 0; i < ICOSAHEDRON_POSITIONS.length; i += 3) {
+    addPoint(ICOSAHEDRON_POSITIONS.slice(i, i + 3) as Vec3);
+  }
+
+  let indices = ICOSAHEDRON_INDICES;
+  for (let level = 0; level < subdivisions; level++) {
+    const midpoints = new Map<string, number>();
+    const midpoint = (a: number, b: number) => {
+      const key = a < b ? `${a},${b}` : `${b},${a}`;
+      let index = midpoints.get(key);
+      if (index === undefined) {
+        index = addPoint(
+          [0, 1, 2].map((i) => points[a][i] + points[b][i]) as Vec3,
+        );
+        midpoints.set(key, index);
+      }
+      return index;
+    };
+    const next = [];
+    for (let i = 0; i < indices.length; i += 3) {
+      const [a, b, c] = indices.slice(i, i + 3);
+      const ab = midpoint(a, b);
+      const bc = midpoint(b, c);
+      const ca = midpoint(c, a);
+      next.push(a, ab, ca, b, bc, ab, c, ca, bc, ab, bc, ca);
+    }
+    indices = next;
+  }
+
+  const geometry = emptyGeometry();
+  for (const normal of points) {
+    const u = Math.atan2(normal[1], normal[0]) / (2 * Math.PI);
+    addVertex(
+      geometry,
+      normal.map((value) => value * radius) as Vec3,
+      normal,
+      [u < 0 ? u + 1 : u, Math.acos(normal[2]) / Math.PI],
+    );
+  }
+  geometry.indices = indices;
+  return geometry;
+}
+
+export interface CylinderOptions {
+  /** Radius at the bottom, at -Z. */
+  radius?: number;
+  /** Radius at the top, at +Z. Defaults to `radius`. */
+  radiusTop?: number;
+  height?: number;
+  segments?: number;
+  heightSegments?: number;
+  /** Whether to close the ends. Defaults to true. */
+  caps?: boolean;
+}
+
+function addCap(
+  geometry: Geometry,
+  radius: number,
+  z: number,
+  segments: number,
+) {
+  const normal: Vec3 = [0, 0, Math.sign(z)];
+  const center = addVertex(geometry, [0, 0, z], normal, [0.5, 0.5]);
+  for (let i = 0; i <= segments; i++) {
+    const phi = 2 * Math.PI * i / segments;
+    const x = Math.cos(phi);
+    const y = Math.sin(phi);
+    addVertex(geometry, [x * radius, y * radius, z], normal, [
+      0.5 + x / 2,
+      0.5 - Math.sign(z) * y / 2,
+    ]);
+  }
+  for (let i = 0; i < segments; i++) {
+    const a = center + 1 + i;
+    geometry.indices.push(...(z > 0 ? [center, a, a + 1] : [center, a + 1, a]));
+  }
+}
+
+/** A cylinder centered on the origin, which tapers when `radiusTop` differs. */
+export function createCylinder(options: CylinderOptions = {}): Geometry {
+  const {
+    radius = 1,
+    radiusTop = radius,
+    height = 2,
+    segments = 32,
+    heightSegments = 1,
+    caps = true,
+  } = options;
+  const geometry = emptyGeometry();
+  // The side leans inwards by this much per unit of height.
+  const slope = (radius - radiusTop) / height;
+  addGrid(
+    geometry,
+    segments,
+    heightSegments,
+    (column, row) => {
+      const phi = 2 * Math.PI * column / segments;
+      const t = row / heightSegments;
+      const ringRadius = radius + (radiusTop - radius) * t;
+      const x = Math.cos(phi);
+      const y = Math.sin(phi);
+      const length = Math.hypot(1, slope);
+      return [
+        [x * ringRadius, y * ringRadius, (t - 0.5) * height],
+        [x / length, y / length, slope / length],
+        [column / segments, 1 - t],
+      ];
+    },
+    (_, row) => [false, radiusTop === 0 && row === heightSegments - 1],
+  );
+  if (caps && radius > 0) addCap(geometry, radius, -height / 2, segments);
+  if (caps && radiusTop > 0) addCap(geometry, radiusTop, height / 2, segments);
+  return geometry;
+}
+
+/** A cone with its base at -Z and its tip at +Z. */
+export function createCone(
+  options: Omit<CylinderOptions, "radiusTop"> = {},
+): Geometry {
+  return createCylinder({ ...options, radiusTop: 0 });
+}
+
+/**
+ * A ring of radius `radius` around the Z axis, made of a tube of radius
+ * `tube`. `segments` run around the ring and `sides` around the tube.
+ */
+export function createTorus(
+  options: {
+    radius?: number;
+    tube?: number;
+    segments?: number;
+    sides?: number;
+  } = {},
+): Geometry {
+  const { radius = 1, tube = 0.25, segments = 48, sides = 16 } = options;
+  const geometry = emptyGeometry();
+  addGrid(geometry, segments, sides, (column, row) => {
+    const theta = 2 * Math.PI * column / segments;
+    const phi = 2 * Math.PI * row / sides;
+    const normal: Vec3 = [
+      Math.cos(phi) * Math.cos(theta),
+      Math.cos(phi) * Math.sin(theta),
+      Math.sin(phi),
+    ];
+    return [
+      [
+        radius * Math.cos(theta) + tube * normal[0],
+        radius * Math.sin(theta) + tube * normal[1],
+        tube * normal[2],
+      ],
+      normal,
+      [column / segments, row / sides],
+    ];
+  });
+  return geometry;
+}
+
+/**
+ * Computes a tangent pointing along +U for every vertex, with a w of 1 or -1
+ * giving the direction of +V as `cross(normal, tangent) * w`.
+ */
+export function computeTangents(geometry: Geometry): number[] {
+  const { positions, normals, uvs, indices } = geometry;
+  const vertexCount = positions.length / 3;
+  const uDirections = new Float64Array(vertexCount * 3);
+  const vDirections = new Float64Array(vertexCount * 3);
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = indices.slice(i, i + 3);
+    const edge1 = [0, 1, 2].map((k) =>
+      positions[b * 3 + k] - positions[a * 3 + k]
+    );
+    const edge2 = [0, 1, 2].map((k) =>
+      positions[c * 3 + k] - positions[a * 3 + k]
+    );
+    const du1 = uvs[b * 2] - uvs[a * 2];
+    const dv1 = uvs[b * 2 + 1] - uvs[a * 2 + 1];
+    const du2 = uvs[c * 2] - uvs[a * 2];
+    const dv2 = uvs[c * 2 + 1] - uvs[a * 2 + 1];
+    const determinant = du1 * dv2 - du2 * dv1;
+    if (determinant === 0) continue;
+    for (const vertex of [a, b, c]) {
+      for (let k = 0; k < 3; k++) {
+        uDirections[vertex * 3 + k] += (edge1[k] * dv2 - edge2[k] * dv1) /
+          determinant;
+        vDirections[vertex * 3 + k] += (edge2[k] * du1 - edge1[k] * du2) /
+          determinant;
+      }
+    }
+  }
+
+  const tangents = [];
+  for (let vertex = 0; vertex < vertexCount; vertex++) {
+    const n = normals.slice(vertex * 3, vertex * 3 + 3);
+    let u = Array.from(uDirections.subarray(vertex * 3, vertex * 3 + 3));
+    const v = vDirections.subarray(vertex * 3, vertex * 3 + 3);
+    // Orthogonalize against the normal, falling back to any perpendicular
+    // direction where the UVs are degenerate.
+    const along = u[0] * n[0] + u[1] * n[1] + u[2] * n[2];
+    u = u.map((value, k) => value - n[k] * along);
+    let length = Math.hypot(...u);
+    if (length < 1e-8) {
+      u = Math.abs(n[0]) < 0.9 ? [0, -n[2], n[1]] : [n[2], 0, -n[0]];
+      length = Math.hypot(...u);
+    }
+    u = u.map((value) => value / length);
+    const bitangent = [
+      n[1] * u[2] - n[2] * u[1],
+      n[2] * u[0] - n[0] * u[2],
+      n[0] * u[1] - n[1] * u[0],
+    ];
+    const handedness =
+      bitangent[0] * v[0] + bitangent[1] * v[1] + bitangent[2] * v[2] < 0
+        ? -1
+        : 1;
+    tangents.push(...u, handedness);
+  }
+  return tangents;
+}
+
+export type MeshAttribute = "position" | "normal" | "uv" | "tangent";
+
+/**
+ * How attributes are stored. `snorm8` needs values within [-1, 1] and `sint8`
+ * integers within [-128, 127]. The 8-bit formats pad positions with a w of 1
+ * and normals with a w of 0.
+ */
+export type MeshVertexFormat = "float32" | "snorm8" | "sint8";
+
+export interface MeshOptions {
+  /**
+   * Attributes in the order they are interleaved, which are bound to shader
+   * locations 0, 1 and so on. Defaults to position, normal and uv.
+   */
+  attributes?: MeshAttribute[];
+  /** Defaults to `float32`. */
+  format?: MeshVertexFormat;
+  /** Defaults to `uint16` for meshes with few enough vertices. */
+  indexFormat?: GPUIndexFormat;
+}
+
+export interface Mesh {
+  /** A view into the file for meshes read by `decodeMesh`. */
+  vertexData: ArrayBuffer | Uint8Array;
+  indexData: Uint16Array | Uint32Array;
+  vertexCount: number;
+  indexCount: number;
+  indexFormat: GPUIndexFormat;
+  layout: GPUVertexBufferLayout;
+}
+
+const COMPONENTS: Record<MeshAttribute, number> = {
+  position: 3,
+  normal: 3,
+  uv: 2,
+  tangent: 4,
+};
+
+/** Interleaves the `attributes` of `geometry` into a vertex buffer. */
+export function buildMesh(geometry: Geometry, options: MeshOptions = {}): Mesh {
+  const {
+    attributes = ["position", "normal", "uv"],
+    format = "float32",
+  } = options;
+  const vertexCount = geometry.positions.length / 3;
+  const indexFormat = options.indexFormat ??
+    (vertexCount <= 0x10000 ? "uint16" : "uint32");
+  if (indexFormat === "uint16" && vertexCount > 0x10000) {
+    throw new Error(`${vertexCount} vertices do not fit uint16 indices`);
+  }
+
+  const sources: Record<MeshAttribute, () => number[]> = {
+    position: () => geometry.positions,
+    normal: () => geometry.normals,
+    uv: () => geometry.uvs,
+    tangent: () => computeTangents(geometry),
+  };
+  const float = format === "float32";
+  let offset = 0;
+  const layouts = attributes.map((attribute, shaderLocation) => {
+    const inputComponents = COMPONENTS[attribute];
+    // 8-bit formats come in pairs and quads only.
+    const components = float || inputComponents === 2 ? inputComponents : 4;
+    const vertexFormat = `${format}x${components}` as GPUVertexFormat;
+    const layout = {
+      attribute,
+      data: sources[attribute](),
+      inputComponents,
+      components,
+      gpu: { format: vertexFormat, offset, shaderLocation },
+    };
+    // Keeps every attribute 4-byte aligned.
+    offset += float ? components * 4 : 4;
+    return layout;
+  });
+  const arrayStride = offset;
+
+  const vertexData = new ArrayBuffer(arrayStride * vertexCount);
+  const view = new DataView(vertexData);
+  for (const layout of layouts) {
+    const padding = layout.attribute === "position" ? 1 : 0;
+    for (let vertex = 0; vertex < vertexCount; vertex++) {
+      for (let component = 0; component < layout.components; component++) {
+        const value = component < layout.inputComponents
+          ? layout.data[vertex * layout.inputComponents + component]
+          : padding;
+        const byteOffset = vertex * arrayStride + layout.gpu.offset;
+        if (float) {
+          view.setFloat32(byteOffset + component * 4, value, true);
+        } else {
+          view.setInt8(
+            byteOffset + component,
+            encode8(value, format, layout.attribute),
+          );
+        }
+      }
+    }
+  }
+
+  const IndexArray = indexFormat === "uint16" ? Uint16Array : Uint32Array;
+  return {
+    vertexData,
+    indexData: new IndexArray(geometry.indices),
+    vertexCount,
+    indexCount: geometry.indices.length,
+    indexFormat,
+    layout: {
+      arrayStride,
+      attributes: layouts.map((layout) => layout.gpu),
+    },
+  };
+}
+
+function encode8(
+  value: number,
+  format: MeshVertexFormat,
+  attribute: MeshAttribute,
+): number {
+  if (format === "snorm8") {
+    if (Math.abs(value) > 1 + 1e-6) {
+      throw new Error(`${attribute} ${value} is outside of the snorm8 range`);
+    }
+    return Math.round(Math.max(-1, Math.min(1, value)) * 127);
+  }
+  const rounded = Math.round(value);
+  if (Math.abs(value - rounded) > 1e-6 || rounded < -128 || rounded > 127) {
+    throw new Error(`${attribute} ${value} is not representable as sint8`);
+  }
+  return rounded;
+}
+
+/** Uploads the vertices and indices of `mesh`. */
+export function createMeshBuffers(
+  device: GPUDevice,
+  mesh: Mesh,
+  label = "Mesh",
+): { vertexBuffer: GPUBuffer; indexBuffer: GPUBuffer } {
+  return {
+    vertexBuffer: createBufferInit(device, {
+      label: `${label} Vertex Buffer`,
+      usage: GPUBufferUsage.VERTEX,
+      contents: mesh.vertexData,
+    }),
+    indexBuffer: createBufferInit(device, {
+      label: `${label} Index Buffer`,
+      usage: GPUBufferUsage.INDEX,
+      contents: new Uint8Array(
+        mesh.indexData.buffer,
+        mesh.indexData.byteOffset,
+        mesh.indexData.byteLength,
+      ),
+    }),
+  };
+}
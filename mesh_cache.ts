@@ -0,0 +1,260 @@
+import type { Vec3 } from "./camera.ts";
+import type { Geometry, Mesh } from "./mesh.ts";
+
+/** An axis-aligned box around the positions of a mesh. */
+export interface MeshBounds {
+  min: Vec3;
+  max: Vec3;
+}
+
+export interface MeshFile extends Mesh {
+  bounds: MeshBounds;
+  /** Data stored along with the mesh as JSON, such as material groups. */
+  extras?: unknown;
+}
+
+/** The source a cached mesh was converted from. */
+interface MeshSource {
+  /** Modification time in milliseconds. */
+  mtime: number;
+  /** SHA-256 of the cache key and the file. */
+  hash: Uint8Array;
+}
+
+const MAGIC = 0x534d4757; // "WGMS"
+const VERSION = 1;
+const HEADER_SIZE = 96;
+const ATTRIBUTE_SIZE = 12;
+
+// Formats are stored as their index in this list, so it may only be appended.
+const VERTEX_FORMATS: GPUVertexFormat[] = [
+  "float32",
+  "float32x2",
+  "float32x3",
+  "float32x4",
+  "snorm8x2",
+  "snorm8x4",
+  "sint8x2",
+  "sint8x4",
+  "unorm8x2",
+  "unorm8x4",
+  "uint8x2",
+  "uint8x4",
+  "float16x2",
+  "float16x4",
+  "snorm16x2",
+  "snorm16x4",
+  "unorm16x2",
+  "unorm16x4",
+  "sint16x2",
+  "sint16x4",
+  "uint16x2",
+  "uint16x4",
+  "sint32",
+  "sint32x2",
+  "sint32x3",
+  "sint32x4",
+  "uint32",
+  "uint32x2",
+  "uint32x3",
+  "uint32x4",
+];
+
+const align4 = (size: number) => (size + 3) & ~3;
+
+export function computeBounds(geometry: Geometry): MeshBounds {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  const { positions } = geometry;
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], positions[i + axis]);
+      max[axis] = Math.max(max[axis], positions[i + axis]);
+    }
+  }
+  return { min, max };
+}
+
+/**
+ * Serializes a mesh. The file is a 96 byte header, the vertex attributes, the
+ * extras as JSON and the vertex and index data, each starting 4-byte aligned.
+ */
+export function encodeMesh(mesh: MeshFile, source?: MeshSource): Uint8Array {
+  const attributes = [...mesh.layout.attributes];
+  const extras = mesh.extras === undefined
+    ? new Uint8Array()
+    : new TextEncoder().encode(JSON.stringify(mesh.extras));
+  const vertexData = mesh.vertexData instanceof Uint8Array
+    ? mesh.vertexData
+    : new Uint8Array(mesh.vertexData);
+  const indexData = new Uint8Array(
+    mesh.indexData.buffer,
+    mesh.indexData.byteOffset,
+    mesh.indexData.byteLength,
+  );
+
+  const extrasOffset = HEADER_SIZE + attributes.length * ATTRIBUTE_SIZE;
+  const vertexOffset = align4(extrasOffset + extras.length);
+  const indexOffset = align4(vertexOffset + vertexData.length);
+  const bytes = new Uint8Array(indexOffset + indexData.length);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, MAGIC, true);
+  view.setUint32(4, VERSION, true);
+  view.setUint32(8, mesh.indexFormat === "uint16" ? 0 : 1, true);
+  view.setUint32(12, mesh.vertexCount, true);
+  view.setUint32(16, mesh.indexCount, true);
+  view.setUint32(20, Number(mesh.layout.arrayStride), true);
+  view.setUint32(24, attributes.length, true);
+  view.setUint32(28, extras.length, true);
+  [...mesh.bounds.min, ...mesh.bounds.max].forEach((value, i) => {
+    view.setFloat32(32 + i * 4, value, true);
+  });
+  if (source) {
+    view.setFloat64(56, source.mtime, true);
+    bytes.set(source.hash, 64);
+  }
+  attributes.forEach((attribute, i) => {
+    const offset = HEADER_SIZE + i * ATTRIBUTE_SIZE;
+    const format = VERTEX_FORMATS.indexOf(attribute.format);
+    if (format === -1) {
+      throw new Error(`vertex format ${attribute.format} cannot be stored`);
+    }
+    view.setUint32(offset, format, true);
+    view.setUint32(offset + 4, attribute.offset, true);
+    view.setUint32(offset + 8, attribute.shaderLocation, true);
+  });
+  bytes.set(extras, extrasOffset);
+  bytes.set(vertexData, vertexOffset);
+  bytes.set(indexData, indexOffset);
+  return bytes;
+}
+
+function decode(bytes: Uint8Array): MeshFile & { source: MeshSource } {
+  // Typed arrays need aligned offsets to view the file in place.
+  if (bytes.byteOffset % 4 !== 0) bytes = bytes.slice();
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < HEADER_SIZE || view.getUint32(0, true) !== MAGIC) {
+    throw new Error("not a mesh file");
+  }
+  const version = view.getUint32(4, true);
+  if (version !== VERSION) {
+    throw new Error(`unsupported mesh file version ${version}`);
+  }
+  const indexFormat = view.getUint32(8, true) === 0 ? "uint16" : "uint32";
+  const vertexCount = view.getUint32(12, true);
+  const indexCount = view.getUint32(16, true);
+  const arrayStride = view.getUint32(20, true);
+  const attributeCount = view.getUint32(24, true);
+  const extrasLength = view.getUint32(28, true);
+  const bounds = [0, 1, 2, 3, 4, 5].map((i) =>
+    view.getFloat32(32 + i * 4, true)
+  );
+
+  const extrasOffset = HEADER_SIZE + attributeCount * ATTRIBUTE_SIZE;
+  const vertexOffset = align4(extrasOffset + extrasLength);
+  const indexOffset = align4(vertexOffset + vertexCount * arrayStride);
+  const IndexArray = indexFormat === "uint16" ? Uint16Array : Uint32Array;
+  if (
+    bytes.length < indexOffset + indexCount * IndexArray.BYTES_PER_ELEMENT
+  ) {
+    throw new Error("mesh file is truncated");
+  }
+
+  const attributes = Array.from({ length: attributeCount }, (_, i) => {
+    const offset = HEADER_SIZE + i * ATTRIBUTE_SIZE;
+    return {
+      format: VERTEX_FORMATS[view.getUint32(offset, true)],
+      offset: view.getUint32(offset + 4, true),
+      shaderLocation: view.getUint32(offset + 8, true),
+    };
+  });
+  return {
+    vertexData: bytes.subarray(
+      vertexOffset,
+      vertexOffset + vertexCount * arrayStride,
+    ),
+    indexData: new IndexArray(
+      bytes.buffer as ArrayBuffer,
+      bytes.byteOffset + indexOffset,
+      indexCount,
+    ),
+    vertexCount,
+    indexCount,
+    indexFormat,
+    layout: { arrayStride, attributes },
+    bounds: {
+      min: bounds.slice(0, 3) as Vec3,
+      max: bounds.slice(3) as Vec3,
+    },
+    extras: extrasLength === 0 ? undefined : JSON.parse(
+      new TextDecoder().decode(
+        bytes.subarray(extrasOffset, extrasOffset + extrasLength),
+      ),
+    ),
+    source: {
+      mtime: view.getFloat64(56, true),
+      hash: bytes.subarray(64, 96),
+    },
+  };
+}
+
+/** Reads a mesh written by `encodeMesh`, with views into `bytes`. */
+export function decodeMesh(bytes: Uint8Array): MeshFile {
+  const { source: _, ...mesh } = decode(bytes);
+  return mesh;
+}
+
+export interface MeshCacheOptions {
+  /** Defaults to `.cache/<source name>.mesh` next to the source. */
+  cacheUrl?: URL;
+  /**
+   * Identifies how the mesh is converted, such as its attributes, so that a
+   * change of it invalidates the cache.
+   */
+  key?: string;
+}
+
+/**
+ * Converts the file at `source` with `convert`, or reads the result of an
+ * earlier conversion from the cache while the source's modification time and
+ * hash stay the same.
+ */
+export async function loadCachedMesh(
+  source: URL,
+  convert: (file: Uint8Array) => MeshFile | Promise<MeshFile>,
+  options: MeshCacheOptions = {},
+): Promise<MeshFile> {
+  const name = source.pathname.slice(source.pathname.lastIndexOf("/") + 1);
+  const cacheUrl = options.cacheUrl ?? new URL(`.cache/${name}.mesh`, source);
+  const [file, stat] = await Promise.all([
+    Deno.readFile(source),
+    Deno.stat(source),
+  ]);
+  const key = new TextEncoder().encode(options.key ?? "");
+  const keyed = new Uint8Array(key.length + file.length);
+  keyed.set(key);
+  keyed.set(file, key.length);
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", keyed));
+  const mtime = stat.mtime?.getTime() ?? 0;
+
+  try {
+    const { source: cached, ...mesh } = decode(await Deno.readFile(cacheUrl));
+    if (
+      cached.mtime === mtime && cached.hash.every((byte, i) => byte === hash[i])
+    ) {
+      return mesh;
+    }
+  } catch {
+    // A missing or unreadable cache file is replaced below.
+  }
+
+  const mesh = await convert(file);
+  try {
+    await Deno.mkdir(new URL(".", cacheUrl), { recursive: true });
+    await Deno.writeFile(cacheUrl, encodeMesh(mesh, { mtime, hash }));
+  } catch {
+    // Without a writable cache directory, the mesh is converted on every load.
+  }
+  return mesh;
+}
@@ -0,0 +1,64 @@
+import { assertEquals } from "std/assert";
+import { buildMesh, createUvSphere, Mesh, MeshOptions } from "./mesh.ts";
+import {
+  computeBounds,
+  decodeMesh,
+  encodeMesh,
+  loadCachedMesh,
+  MeshFile,
+} from "./mesh_cache.ts";
+
+const bytesOf = (data: Mesh["vertexData"] | Mesh["indexData"]) =>
+  ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+
+function assertSameMesh(actual: MeshFile, expected: MeshFile) {
+  const { vertexData, indexData, ...rest } = actual;
+  const {
+    vertexData: expectedVertexData,
+    indexData: expectedIndexData,
+    ...expectedRest
+  } = expected;
+  assertEquals(rest, expectedRest);
+  assertEquals(bytesOf(vertexData), bytesOf(expectedVertexData));
+  assertEquals(indexData.constructor, expectedIndexData.constructor);
+  assertEquals(bytesOf(indexData), bytesOf(expectedIndexData));
+}
+
+Deno.test("round-trips meshes through encodeMesh and decodeMesh", () => {
+  const geometry = createUvSphere();
+  const meshOptions: MeshOptions[] = [{}, {
+    attributes: ["position", "normal", "uv", "tangent"],
+    format: "snorm8",
+    indexFormat: "uint32",
+  }];
+  for (const options of meshOptions) {
+    const mesh: MeshFile = {
+      ...buildMesh(geometry, options),
+      bounds: computeBounds(geometry),
+      // An odd length, so the vertex data after it needs padding.
+      extras: { groups: ["a"] },
+    };
+    const bytes = encodeMesh(mesh);
+    assertSameMesh(decodeMesh(bytes), mesh);
+    // Files read at an unaligned offset are copied rather than viewed.
+    const unaligned = new Uint8Array(bytes.length + 1).subarray(1);
+    unaligned.set(bytes);
+    assertSameMesh(decodeMesh(unaligned), mesh);
+  }
+});
+
+Deno.test("returns the converted mesh when the cache cannot be written", async () => {
+  const source = new URL("./testdata/quad.gltf", import.meta.url);
+  const geometry = createUvSphere();
+  const mesh: MeshFile = {
+    ...buildMesh(geometry),
+    bounds: computeBounds(geometry),
+  };
+  // The cache would be inside a file, so it can neither be read nor written.
+  const loaded = await loadCachedMesh(source, () => mesh, {
+    cacheUrl: new URL("./quad.mesh", source.href + "/"),
+  });
+  assertEquals(loaded, mesh);
+});
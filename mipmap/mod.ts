@@ -1,10 +1,9 @@
 import { Framework } from "../framework.ts";
-import * as gmath from "gmath";
-import {
-  createBufferInit,
-  Dimensions,
-  OPENGL_TO_WGPU_MATRIX,
-} from "../utils.ts";
+import { parseExampleArgs } from "../cli.ts";
+import { Camera } from "../camera.ts";
+import { generateMipmaps, MipmapFilter } from "../mipmaps.ts";
+import { readTextureData, writeTextureFile } from "../texture_files.ts";
+import { createBufferInit, Dimensions } from "../utils.ts";
 
 function createTexels(size: number, cx: number, cy: number): Uint8Array {
   const texels = new Uint8Array(size * size * 4);
@@ -31,107 +30,27 @@ function createTexels(size: number, cx: number, cy: number): Uint8Array {
   return texels;
 }
 
-function generateMatrix(aspectRatio: number): Float32Array {
-  const mxProjection = new gmath.PerspectiveFov(
-    new gmath.Deg(45),
-    aspectRatio,
-    1,
-    1000,
-  ).toPerspective().toMatrix4();
-  const mxView = gmath.Matrix4.lookAtRh(
-    new gmath.Vector3(0, 0, 10),
-    new gmath.Vector3(0, 50, 0),
-    gmath.Vector3.forward(),
-  );
-  return OPENGL_TO_WGPU_MATRIX.mul(mxProjection.mul(mxView)).toFloat32Array();
-}
-
 class Mipmap extends Framework {
   mipLevelCount: number;
+  mipFilter: MipmapFilter;
 
+  texture!: GPUTexture;
   drawPipeline!: GPURenderPipeline;
   bindGroup!: GPUBindGroup;
+  uniformBuffer!: GPUBuffer;
+  camera!: Camera;
 
   constructor(options: {
     mipLevelCount: number;
+    mipFilter: MipmapFilter;
     dimensions: Dimensions;
   }, device: GPUDevice) {
     super(options.dimensions, device);
 
     this.mipLevelCount = options.mipLevelCount;
+    this.mipFilter = options.mipFilter;
   }
 
-  generateMipmaps(encoder: GPUCommandEncoder, texture: GPUTexture) {
-    const shader = this.device.createShaderModule({
-      code: Deno.readTextFileSync(new URL("blit.wgsl", import.meta.url)),
-    });
-    const pipeline = this.device.createRenderPipeline({
-      layout: "auto",
-      label: "blit",
-      vertex: {
-        module: shader,
-        entryPoint: "vs_main",
-      },
-      fragment: {
-        module: shader,
-        entryPoint: "fs_main",
-        targets: [{
-          format: "rgba8unorm-srgb",
-        }],
-      },
-      primitive: {
-        topology: "triangle-list",
-      },
-    });
-    const bindGroupLayout = pipeline.getBindGroupLayout(0);
-    const sampler = this.device.createSampler({
-      label: "mip",
-      magFilter: "linear",
-      minFilter: "linear",
-    });
-    const views = [];
-    for (let i = 0; i < this.mipLevelCount; i++) {
-      views.push(texture.createView({
-        label: "mip",
-        baseMipLevel: i,
-        mipLevelCount: 1,
-      }));
-    }
-
-    for (let i = 1; i < this.mipLevelCount; i++) {
-      const bindGroup = this.device.createBindGroup({
-        layout: bindGroupLayout,
-        entries: [
-          {
-            binding: 0,
-            resource: views[i - 1],
-          },
-          {
-            binding: 1,
-            resource: sampler,
-          },
-        ],
-      });
-
-      const renderPass = encoder.beginRenderPass({
-        colorAttachments: [
-          {
-            view: views[i],
-            storeOp: "store",
-            loadOp: "clear",
-            clearValue: [1, 1, 1, 1],
-          },
-        ],
-      });
-
-      renderPass.setPipeline(pipeline);
-      renderPass.setBindGroup(0, bindGroup);
-      renderPass.draw(3, 1);
-      renderPass.end();
-    }
-  }
-
-  // deno-lint-ignore require-await
   async init() {
     const initEncoder = this.device.createCommandEncoder();
 
@@ -147,8 +66,10 @@ class Mipmap extends Framework {
       format: "rgba8unorm-srgb",
       usage: GPUTextureUsage.TEXTURE_BINDING |
         GPUTextureUsage.RENDER_ATTACHMENT |
-        GPUTextureUsage.COPY_DST,
+        GPUTextureUsage.COPY_DST |
+        GPUTextureUsage.COPY_SRC,
     });
+    this.texture = texture;
     const textureView = texture.createView();
 
     const tempBuffer = createBufferInit(this.device, {
@@ -176,16 +97,22 @@ class Mipmap extends Framework {
       mipmapFilter: "linear",
     });
 
-    const uniformBuffer = createBufferInit(this.device, {
+    this.camera = new Camera({
+      projection: { type: "perspective", fovY: 45, near: 1, far: 1000 },
+      aspect: this.dimensions.width / this.dimensions.height,
+      position: [0, 0, 10],
+      target: [0, 50, 0],
+      up: [0, 0, 1],
+    });
+    this.uniformBuffer = createBufferInit(this.device, {
       label: "Uniform Buffer",
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-      contents:
-        generateMatrix(this.dimensions.width / this.dimensions.height).buffer,
+      contents: this.camera.viewProj().buffer,
     });
 
-    const shader = this.device.createShaderModule({
-      code: Deno.readTextFileSync(new URL("./draw.wgsl", import.meta.url)),
-    });
+    const shader = await this.loadShader(
+      new URL("./draw.wgsl", import.meta.url),
+    );
 
     this.drawPipeline = this.device.createRenderPipeline({
       layout: "auto",
@@ -200,7 +127,7 @@ class Mipmap extends Framework {
         entryPoint: "fs_main",
         targets: [
           {
-            format: "rgba8unorm-srgb",
+            format: this.format,
           },
         ],
       },
@@ -217,7 +144,7 @@ class Mipmap extends Framework {
         {
           binding: 0,
           resource: {
-            buffer: uniformBuffer,
+            buffer: this.uniformBuffer,
           },
         },
         {
@@ -231,11 +158,22 @@ class Mipmap extends Framework {
       ],
     });
 
-    this.generateMipmaps(initEncoder, texture);
+    generateMipmaps(this.device, initEncoder, texture, {
+      filter: this.mipFilter,
+    });
 
     this.device.queue.submit([initEncoder.finish()]);
   }
 
+  onResize(dimensions: Dimensions) {
+    this.camera.aspect = dimensions.width / dimensions.height;
+    this.device.queue.writeBuffer(
+      this.uniformBuffer,
+      0,
+      this.camera.viewProj(),
+    );
+  }
+
   render(encoder: GPUCommandEncoder, view: GPUTextureView) {
     const renderPass = encoder.beginRenderPass({
       colorAttachments: [
@@ -254,11 +192,49 @@ class Mipmap extends Framework {
   }
 }
 
-const mipmap = new Mipmap({
-  mipLevelCount: 10,
+const args = parseExampleArgs({
+  name: "mipmap",
+  description: "This example shows how to generate and make use of mipmaps.",
   dimensions: {
     width: 1600,
     height: 1200,
   },
+  options: {
+    mipLevelCount: {
+      type: "number",
+      default: 10,
+      description: "Mip levels of the texture, which is 2^(count-1) wide",
+      integer: true,
+      min: 1,
+      max: 14,
+    },
+    mipFilter: {
+      type: "string",
+      default: "box",
+      description: "Filter the mipmaps are generated with",
+      choices: ["box", "kaiser"],
+    },
+    textureOut: {
+      type: "string",
+      default: "",
+      description:
+        "Also write the texture with its generated mips to this KTX2 or DDS file",
+    },
+  },
+});
+
+const mipmap = new Mipmap({
+  mipLevelCount: args.mipLevelCount,
+  mipFilter: args.mipFilter as MipmapFilter,
+  dimensions: {
+    width: args.width,
+    height: args.height,
+  },
 }, await Mipmap.getDevice());
-await mipmap.renderPng();
+await mipmap.renderOutput(args);
+if (args.textureOut) {
+  writeTextureFile(
+    args.textureOut,
+    await readTextureData(mipmap.device, mipmap.texture),
+  );
+}
@@ -0,0 +1,342 @@
+import { describeTextureFormat } from "std/webgpu";
+
+export type MipmapFilter = "box" | "kaiser";
+
+export interface MipmapOptions {
+  /**
+   * `box` averages the texels each destination texel covers, `kaiser` uses a
+   * windowed sinc, which keeps mips sharper. Defaults to `box`.
+   */
+  filter?: MipmapFilter;
+  /** The level the others are filtered from. Defaults to 0. */
+  baseMipLevel?: number;
+  /** Defaults to all the layers, such as the six faces of a cube map. */
+  baseArrayLayer?: number;
+  arrayLayerCount?: number;
+}
+
+// Formats that can be written as storage textures without extra features.
+const STORAGE_FORMATS: GPUTextureFormat[] = [
+  "rgba8unorm",
+  "rgba8snorm",
+  "rgba16float",
+  "r32float",
+  "rg32float",
+  "rgba32float",
+];
+
+function shaderCode(filter: MipmapFilter, storageFormat?: GPUTextureFormat) {
+  return `
+const KAISER = ${filter === "kaiser"};
+// Half-width of the Kaiser window in destination texels, and its shape.
+const RADIUS = 2.0;
+const ALPHA = 4.0;
+const PI = 3.14159265;
+
+@group(0) @binding(0) var src: texture_2d<f32>;
+
+fn bessel_i0(x: f32) -> f32 {
+    var sum = 1.0;
+    var term = 1.0;
+    for (var k = 1; k < 16; k++) {
+        let t = x / (2.0 * f32(k));
+        term *= t * t;
+        sum += term;
+    }
+    return sum;
+}
+
+// Weight of source texel \`s\` for destination texel \`d\` along one axis.
+fn axis_weight(s: i32, d: u32, scale: f32) -> f32 {
+    if KAISER {
+        let t = (f32(s) + 0.5 - (f32(d) + 0.5) * scale) / scale;
+        if abs(t) >= RADIUS {
+            return 0.0;
+        }
+        let sinc = select(sin(PI * t) / (PI * t), 1.0, abs(t) < 1e-4);
+        let r = t / RADIUS;
+        return sinc * bessel_i0(ALPHA * sqrt(1.0 - r * r)) / bessel_i0(ALPHA);
+    }
+    // The part of the source texel inside the destination texel.
+    let start = f32(d) * scale;
+    return max(0.0, min(f32(s) + 1.0, start + scale) - max(f32(s), start));
+}
+
+fn downsample(dst: vec2<u32>) -> vec4<f32> {
+    let src_size = textureDimensions(src);
+    let dst_size = max(src_size / 2u, vec2<u32>(1u));
+    let scale = vec2<f32>(src_size) / vec2<f32>(dst_size);
+    let center = (vec2<f32>(dst) + 0.5) * scale;
+    let extent = scale * select(0.5, RADIUS, KAISER);
+    let lo = vec2<i32>(floor(center - extent));
+    let hi = vec2<i32>(ceil(center + extent));
+    let last = vec2<i32>(src_size) - 1;
+    var sum = vec4<f32>(0.0);
+    var total = 0.0;
+    for (var y = lo.y; y < hi.y; y++) {
+        let wy = axis_weight(y, dst.y, scale.y);
+        for (var x = lo.x; x < hi.x; x++) {
+            let w = wy * axis_weight(x, dst.x, scale.x);
+            if w != 0.0 {
+                let coord = clamp(vec2<i32>(x, y), vec2<i32>(0), last);
+                sum += textureLoad(src, coord, 0) * w;
+                total += w;
+            }
+        }
+    }
+    return sum / total;
+}
+${
+    storageFormat
+      ? `
+@group(0) @binding(1) var dst: texture_storage_2d<${storageFormat}, write>;
+
+@compute @workgroup_size(8, 8)
+fn cs_main(@builtin(global_invocation_id) id: vec3<u32>) {
+    if all(id.xy < textureDimensions(dst)) {
+        textureStore(dst, id.xy, downsample(id.xy));
+    }
+}`
+      : `
+@vertex
+fn vs_main(@builtin(vertex_index) vertex_index: u32) -> @builtin(position) vec4<f32> {
+    let uv = vec2<f32>(f32(vertex_index / 2u), f32(vertex_index & 1u)) * 2.0;
+    return vec4<f32>(uv * 2.0 - 1.0, 0.0, 1.0);
+}
+
+@fragment
+fn fs_main(@builtin(position) position: vec4<f32>) -> @location(0) vec4<f32> {
+    return downsample(vec2<u32>(position.xy));
+}`
+  }
+`;
+}
+
+/** The number of mip levels down to 1x1 for a texture of the given size. */
+export function mipLevelCount(width: number, height = width): number {
+  return Math.floor(Math.log2(Math.max(width, height))) + 1;
+}
+
+/**
+ * Fills in the mip levels of 2D textures, 2D arrays and cube maps from their
+ * base level, at any size. Textures with the `STORAGE_BINDING` usage and a
+ * storage format such as `rgba8unorm`, `rgba16float` or `rgba32float` are
+ * filtered in a compute pass, others need the `RENDER_ATTACHMENT` usage and
+ * are filtered in render passes, with sRGB textures filtered in linear space.
+ * Pipelines are created once per format and filter.
+ */
+export class MipmapGenerator {
+  device: GPUDevice;
+  #renderLayout: GPUBindGroupLayout;
+  #computeLayouts = new Map<GPUTextureFormat, GPUBindGroupLayout>();
+  #pipelines = new Map<string, GPURenderPipeline | GPUComputePipeline>();
+
+  constructor(device: GPUDevice) {
+    this.device = device;
+    this.#renderLayout = device.createBindGroupLayout({
+      label: "Mipmap",
+      entries: [{
+        binding: 0,
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: { sampleType: "unfilterable-float" },
+      }],
+    });
+  }
+
+  #computeLayout(format: GPUTextureFormat): GPUBindGroupLayout {
+    let layout = this.#computeLayouts.get(format);
+    if (!layout) {
+      layout = this.device.createBindGroupLayout({
+        label: `Mipmap ${format}`,
+        entries: [
+          {
+            binding: 0,
+            visibility: GPUShaderStage.COMPUTE,
+            texture: { sampleType: "unfilterable-float" },
+          },
+          {
+            binding: 1,
+            visibility: GPUShaderStage.COMPUTE,
+            storageTexture: { access: "write-only", format },
+          },
+        ],
+      });
+      this.#computeLayouts.set(format, layout);
+    }
+    return layout;
+  }
+
+  #renderPipeline(
+    format: GPUTextureFormat,
+    filter: MipmapFilter,
+  ): GPURenderPipeline {
+    const key = `render/${format}/${filter}`;
+    let pipeline = this.#pipelines.get(key) as GPURenderPipeline | undefined;
+    if (!pipeline) {
+      const module = this.device.createShaderModule({
+        label: `Mipmap ${filter}`,
+        code: shaderCode(filter),
+      });
+      pipeline = this.device.createRenderPipeline({
+        label: `Mipmap ${format} ${filter}`,
+        layout: this.device.createPipelineLayout({
+          bindGroupLayouts: [this.#renderLayout],
+        }),
+        vertex: { module, entryPoint: "vs_main" },
+        fragment: { module, entryPoint: "fs_main", targets: [{ format }] },
+      });
+      this.#pipelines.set(key, pipeline);
+    }
+    return pipeline;
+  }
+
+  #computePipeline(
+    format: GPUTextureFormat,
+    filter: MipmapFilter,
+  ): GPUComputePipeline {
+    const key = `compute/${format}/${filter}`;
+    let pipeline = this.#pipelines.get(key) as GPUComputePipeline | undefined;
+    if (!pipeline) {
+      pipeline = this.device.createComputePipeline({
+        label: `Mipmap ${format} ${filter}`,
+        layout: this.device.createPipelineLayout({
+          bindGroupLayouts: [this.#computeLayout(format)],
+        }),
+        compute: {
+          module: this.device.createShaderModule({
+            label: `Mipmap ${format} ${filter}`,
+            code: shaderCode(filter, format),
+          }),
+          entryPoint: "cs_main",
+        },
+      });
+      this.#pipelines.set(key, pipeline);
+    }
+    return pipeline;
+  }
+
+  /** Encodes the passes that fill in the mip levels of `texture`. */
+  generate(
+    encoder: GPUCommandEncoder,
+    texture: GPUTexture,
+    options: MipmapOptions = {},
+  ) {
+    const {
+      filter = "box",
+      baseMipLevel = 0,
+      baseArrayLayer = 0,
+      arrayLayerCount = texture.depthOrArrayLayers - baseArrayLayer,
+    } = options;
+    const { format } = texture;
+    const { sampleType } = describeTextureFormat(format);
+    if (texture.dimension !== "2d") {
+      throw new Error(
+        `cannot generate mipmaps for ${texture.dimension} textures`,
+      );
+    }
+    if (sampleType !== "float" && sampleType !== "unfilterable-float") {
+      throw new Error(`cannot generate mipmaps for ${format} textures`);
+    }
+    const compute = STORAGE_FORMATS.includes(format) &&
+      (texture.usage & GPUTextureUsage.STORAGE_BINDING) !== 0;
+    if (!compute && !(texture.usage & GPUTextureUsage.RENDER_ATTACHMENT)) {
+      throw new Error(
+        "generating mipmaps needs the RENDER_ATTACHMENT or, for " +
+          `${STORAGE_FORMATS.join(", ")}, the STORAGE_BINDING texture usage`,
+      );
+    }
+
+    const view = (mipLevel: number, arrayLayer: number) =>
+      texture.createView({
+        label: `Mip ${mipLevel} of layer ${arrayLayer}`,
+        dimension: "2d",
+        baseMipLevel: mipLevel,
+        mipLevelCount: 1,
+        baseArrayLayer: arrayLayer,
+        arrayLayerCount: 1,
+      });
+
+    if (compute) {
+      const pipeline = this.#computePipeline(format, filter);
+      const pass = encoder.beginComputePass({ label: "Mipmaps" });
+      pass.setPipeline(pipeline);
+      for (
+        let layer = baseArrayLayer;
+        layer < baseArrayLayer + arrayLayerCount;
+        layer++
+      ) {
+        for (
+          let level = baseMipLevel + 1;
+          level < texture.mipLevelCount;
+          level++
+        ) {
+          pass.setBindGroup(
+            0,
+            this.device.createBindGroup({
+              layout: this.#computeLayout(format),
+              entries: [
+                { binding: 0, resource: view(level - 1, layer) },
+                { binding: 1, resource: view(level, layer) },
+              ],
+            }),
+          );
+          pass.dispatchWorkgroups(
+            Math.ceil(Math.max(1, texture.width >> level) / 8),
+            Math.ceil(Math.max(1, texture.height >> level) / 8),
+          );
+        }
+      }
+      pass.end();
+      return;
+    }
+
+    const pipeline = this.#renderPipeline(format, filter);
+    for (
+      let layer = baseArrayLayer;
+      layer < baseArrayLayer + arrayLayerCount;
+      layer++
+    ) {
+      for (
+        let level = baseMipLevel + 1;
+        level < texture.mipLevelCount;
+        level++
+      ) {
+        const pass = encoder.beginRenderPass({
+          label: "Mipmaps",
+          colorAttachments: [{
+            view: view(level, layer),
+            loadOp: "clear",
+            storeOp: "store",
+          }],
+        });
+        pass.setPipeline(pipeline);
+        pass.setBindGroup(
+          0,
+          this.device.createBindGroup({
+            layout: this.#renderLayout,
+            entries: [{ binding: 0, resource: view(level - 1, layer) }],
+          }),
+        );
+        pass.draw(3);
+        pass.end();
+      }
+    }
+  }
+}
+
+const generators = new WeakMap<GPUDevice, MipmapGenerator>();
+
+/** Generates mipmaps with a `MipmapGenerator` shared per device. */
+export function generateMipmaps(
+  device: GPUDevice,
+  encoder: GPUCommandEncoder,
+  texture: GPUTexture,
+  options: MipmapOptions = {},
+) {
+  let generator = generators.get(device);
+  if (!generator) {
+    generator = new MipmapGenerator(device);
+    generators.set(device, generator);
+  }
+  generator.generate(encoder, texture, options);
+}
@@ -1,4 +1,5 @@
-import { Framework } from "../framework.ts";
+import { Framework, ScreenTexture } from "../framework.ts";
+import { parseExampleArgs } from "../cli.ts";
 import { createBufferInit, Dimensions } from "../utils.ts";
 
 class MsaaLine extends Framework {
@@ -6,7 +7,7 @@ class MsaaLine extends Framework {
   vertexCount: number;
 
   bundle!: GPURenderBundle;
-  multisampledBuffer!: GPUTextureView;
+  multisampledBuffer!: ScreenTexture;
 
   constructor(options: {
     enableMsaa: boolean;
@@ -52,7 +53,7 @@ class MsaaLine extends Framework {
         entryPoint: "fs_main",
         targets: [
           {
-            format: "rgba8unorm-srgb",
+            format: this.format,
           },
         ],
       },
@@ -66,7 +67,7 @@ class MsaaLine extends Framework {
 
     const encoder = this.device.createRenderBundleEncoder({
       colorFormats: [
-        "rgba8unorm-srgb",
+        this.format,
       ],
       sampleCount: this.sampleCount,
     });
@@ -78,22 +79,20 @@ class MsaaLine extends Framework {
     });
   }
 
-  // deno-lint-ignore require-await
   async init() {
-    const shader = this.device.createShaderModule({
-      code: Deno.readTextFileSync(new URL("./shader.wgsl", import.meta.url)),
-    });
+    const shader = await this.loadShader(
+      new URL("./shader.wgsl", import.meta.url),
+    );
 
     const pipelineLayout = this.device.createPipelineLayout({
       bindGroupLayouts: [],
     });
 
-    this.multisampledBuffer = this.device.createTexture({
-      size: this.dimensions,
+    this.multisampledBuffer = this.createScreenTexture({
       sampleCount: this.sampleCount,
-      format: "rgba8unorm-srgb",
+      format: this.format,
       usage: GPUTextureUsage.RENDER_ATTACHMENT,
-    }).createView();
+    });
 
     const vertexSizePerIter = 6 * 2;
     const vertexData = new Float32Array(this.vertexCount * vertexSizePerIter);
@@ -135,7 +134,7 @@ class MsaaLine extends Framework {
         clearValue: [0, 0, 0, 1],
       }
       : {
-        view: this.multisampledBuffer,
+        view: this.multisampledBuffer.view,
         resolveTarget: view,
         storeOp: "discard",
         loadOp: "clear",
@@ -149,12 +148,35 @@ class MsaaLine extends Framework {
   }
 }
 
-const msaaLine = new MsaaLine({
-  enableMsaa: true,
-  lineCount: 50,
+const args = parseExampleArgs({
+  name: "msaa-line",
+  description: "This example shows how to render lines using MSAA.",
   dimensions: {
     width: 1600,
     height: 1200,
   },
+  options: {
+    enableMsaa: {
+      type: "boolean",
+      default: true,
+      description: "Render with 4x multisampling",
+    },
+    lineCount: {
+      type: "number",
+      default: 50,
+      description: "Number of lines",
+      integer: true,
+      min: 1,
+    },
+  },
+});
+
+const msaaLine = new MsaaLine({
+  enableMsaa: args.enableMsaa,
+  lineCount: args.lineCount,
+  dimensions: {
+    width: args.width,
+    height: args.height,
+  },
 }, await MsaaLine.getDevice());
-await msaaLine.renderPng();
+await msaaLine.renderOutput(args);
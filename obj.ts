@@ -0,0 +1,352 @@
+import { Geometry } from "./mesh.ts";
+
+type Vec3 = [number, number, number];
+
+export interface ObjMaterial {
+  name: string;
+  ambient: Vec3;
+  diffuse: Vec3;
+  specular: Vec3;
+  emissive: Vec3;
+  /** Specular exponent, from 0 to 1000. */
+  shininess: number;
+  opacity: number;
+  /** The PBR extension's `Pr` and `Pm`, when the file has them. */
+  roughness?: number;
+  metalness?: number;
+  diffuseMap?: URL;
+  specularMap?: URL;
+  normalMap?: URL;
+}
+
+/** A run of faces sharing an object or group name and a material. */
+export interface ObjGroup {
+  name: string;
+  material?: string;
+  firstIndex: number;
+  indexCount: number;
+}
+
+export interface ObjOptions {
+  /**
+   * How to generate the normals of faces that have none. `smooth` averages
+   * the normals of all faces around a position, `flat` gives every face its
+   * own. Defaults to `smooth`.
+   */
+  normals?: "smooth" | "flat";
+}
+
+export interface ObjModel {
+  /**
+   * Deduplicated vertices, with V flipped for textures whose first row is the
+   * top one. Vertices without texture coordinates get (0, 0).
+   */
+  geometry: Geometry;
+  groups: ObjGroup[];
+  /** Files named by `mtllib`, relative to the OBJ file. */
+  materialLibraries: string[];
+}
+
+function parseNumbers(tokens: string[], count: number): number[] {
+  const numbers = tokens.slice(0, count).map(Number);
+  if (numbers.length < count || numbers.some(Number.isNaN)) {
+    throw new Error(`expected ${count} numbers, got "${tokens.join(" ")}"`);
+  }
+  return numbers;
+}
+
+/** Normal of a polygon, with the length of twice its area (Newell's method). */
+function polygonNormal(positions: number[], corners: number[]): Vec3 {
+  const normal: Vec3 = [0, 0, 0];
+  for (let i = 0; i < corners.length; i++) {
+    const a = corners[i] * 3;
+    const b = corners[(i + 1) % corners.length] * 3;
+    normal[0] += (positions[a + 1] - positions[b + 1]) *
+      (positions[a + 2] + positions[b + 2]);
+    normal[1] += (positions[a + 2] - positions[b + 2]) *
+      (positions[a] + positions[b]);
+    normal[2] += (positions[a] - positions[b]) *
+      (positions[a + 1] + positions[b + 1]);
+  }
+  return normal;
+}
+
+function normalize(v: number[]): Vec3 {
+  const length = Math.hypot(v[0], v[1], v[2]);
+  return length === 0
+    ? [0, 0, 1]
+    : [v[0] / length, v[1] / length, v[2] / length];
+}
+
+/**
+ * Parses the vertices and faces of a Wavefront OBJ file. Polygons are split
+ * into triangle fans, and lines and points are skipped.
+ */
+export function parseObj(text: string, options: ObjOptions = {}): ObjModel {
+  const { normals: generatedNormals = "smooth" } = options;
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const normals: number[] = [];
+  const geometry: Geometry = {
+    positions: [],
+    normals: [],
+    uvs: [],
+    indices: [],
+  };
+  const groups: ObjGroup[] = [];
+  const materialLibraries: string[] = [];
+  const vertices = new Map<string, number>();
+  // Face normals summed per position, for smooth generated normals.
+  const smoothNormals = new Map<number, Vec3>();
+  const smoothVertices: [vertex: number, position: number][] = [];
+
+  let name = "";
+  let material: string | undefined;
+  let faceCount = 0;
+
+  const resolve = (raw: string, count: number, line: number) => {
+    const index = Number(raw);
+    if (!Number.isInteger(index) || index === 0) {
+      throw new Error(`line ${line}: invalid index "${raw}"`);
+    }
+    const resolved = index < 0 ? count + index : index - 1;
+    if (resolved < 0 || resolved >= count) {
+      throw new Error(`line ${line}: index ${index} is out of range`);
+    }
+    return resolved;
+  };
+
+  const lines = text.split(/\r?\n/);
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lineIndex + 1;
+    const [keyword, ...tokens] = lines[lineIndex].trim().split(/\s+/);
+    switch (keyword) {
+      case "v":
+        positions.push(...parseNumbers(tokens, 3));
+        break;
+      case "vt": {
+        // 1D textures only have a U.
+        const [u, v = 0] = parseNumbers(tokens, tokens.length > 1 ? 2 : 1);
+        uvs.push(u, 1 - v);
+        break;
+      }
+      case "vn":
+        normals.push(...parseNumbers(tokens, 3));
+        break;
+      case "o":
+      case "g":
+        name = tokens.join(" ");
+        break;
+      case "usemtl":
+        material = tokens.join(" ");
+        break;
+      case "mtllib":
+        materialLibraries.push(tokens.join(" "));
+        break;
+      case "f": {
+        if (tokens.length < 3) {
+          throw new Error(`line ${line}: faces need at least 3 vertices`);
+        }
+        const corners = tokens.map((token) => {
+          const [p, t, n] = token.split("/");
+          return {
+            position: resolve(p, positions.length / 3, line),
+            uv: t ? resolve(t, uvs.length / 2, line) : undefined,
+            normal: n ? resolve(n, normals.length / 3, line) : undefined,
+          };
+        });
+        const face = faceCount++;
+        let faceNormal: Vec3 | undefined;
+        const getFaceNormal = () =>
+          faceNormal ??= polygonNormal(
+            positions,
+            corners.map(({ position }) => position),
+          );
+        const indices = corners.map((corner) => {
+          let key = `${corner.position}/${corner.uv ?? ""}/`;
+          if (corner.normal !== undefined) {
+            key += corner.normal;
+          } else if (generatedNormals === "flat") {
+            key += `f${face}`;
+          }
+          let index = vertices.get(key);
+          if (index === undefined) {
+            index = geometry.positions.length / 3;
+            vertices.set(key, index);
+            const p = corner.position * 3;
+            geometry.positions.push(...positions.slice(p, p + 3));
+            geometry.uvs.push(
+              ...(corner.uv === undefined
+                ? [0, 0]
+                : uvs.slice(corner.uv * 2, corner.uv * 2 + 2)),
+            );
+            if (corner.normal !== undefined) {
+              const n = corner.normal * 3;
+              geometry.normals.push(...normals.slice(n, n + 3));
+            } else {
+              geometry.normals.push(...normalize(getFaceNormal()));
+              if (generatedNormals === "smooth") {
+                smoothVertices.push([index, corner.position]);
+              }
+            }
+          }
+          if (corner.normal === undefined && generatedNormals === "smooth") {
+            const normal = getFaceNormal();
+            const sum = smoothNormals.get(corner.position) ?? [0, 0, 0];
+            smoothNormals.set(corner.position, [
+              sum[0] + normal[0],
+              sum[1] + normal[1],
+              sum[2] + normal[2],
+            ]);
+          }
+          return index;
+        });
+
+        const last = groups[groups.length - 1];
+        if (!last || last.name !== name || last.material !== material) {
+          groups.push({
+            name,
+            material,
+            firstIndex: geometry.indices.length,
+            indexCount: 0,
+          });
+        }
+        for (let i = 2; i < indices.length; i++) {
+          geometry.indices.push(indices[0], indices[i - 1], indices[i]);
+          groups[groups.length - 1].indexCount += 3;
+        }
+        break;
+      }
+    }
+  }
+
+  for (const [vertex, position] of smoothVertices) {
+    geometry.normals.splice(
+      vertex * 3,
+      3,
+      ...normalize(smoothNormals.get(position)!),
+    );
+  }
+
+  return { geometry, groups, materialLibraries };
+}
+
+function defaultMaterial(name: string): ObjMaterial {
+  return {
+    name,
+    ambient: [0, 0, 0],
+    diffuse: [0.8, 0.8, 0.8],
+    specular: [0, 0, 0],
+    emissive: [0, 0, 0],
+    shininess: 0,
+    opacity: 1,
+  };
+}
+
+/**
+ * Parses the materials of an MTL file. Texture paths are resolved against
+ * `baseUrl`, and texture options such as `-bm 1` are ignored.
+ */
+export function parseMtl(
+  text: string,
+  baseUrl: URL,
+): Map<string, ObjMaterial> {
+  const materials = new Map<string, ObjMaterial>();
+  let material: ObjMaterial | undefined;
+  const color = (tokens: string[]): Vec3 => {
+    const values = parseNumbers(tokens, 1);
+    return tokens.length >= 3
+      ? parseNumbers(tokens, 3) as Vec3
+      : [values[0], values[0], values[0]];
+  };
+  const texture = (tokens: string[]) =>
+    new URL(tokens[tokens.length - 1].replaceAll("\\", "/"), baseUrl);
+
+  const lines = text.split(/\r?\n/);
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const [keyword, ...tokens] = lines[lineIndex].trim().split(/\s+/);
+    if (keyword === "newmtl") {
+      material = defaultMaterial(tokens.join(" "));
+      materials.set(material.name, material);
+      continue;
+    }
+    if (!material || keyword === "" || keyword.startsWith("#")) continue;
+    switch (keyword) {
+      case "Ka":
+        material.ambient = color(tokens);
+        break;
+      case "Kd":
+        material.diffuse = color(tokens);
+        break;
+      case "Ks":
+        material.specular = color(tokens);
+        break;
+      case "Ke":
+        material.emissive = color(tokens);
+        break;
+      case "Ns":
+        material.shininess = parseNumbers(tokens, 1)[0];
+        break;
+      case "d":
+        material.opacity = parseNumbers(tokens, 1)[0];
+        break;
+      case "Tr":
+        material.opacity = 1 - parseNumbers(tokens, 1)[0];
+        break;
+      case "Pr":
+        material.roughness = parseNumbers(tokens, 1)[0];
+        break;
+      case "Pm":
+        material.metalness = parseNumbers(tokens, 1)[0];
+        break;
+      case "map_Kd":
+        material.diffuseMap = texture(tokens);
+        break;
+      case "map_Ks":
+        material.specularMap = texture(tokens);
+        break;
+      case "map_Bump":
+      case "map_bump":
+      case "bump":
+      case "norm":
+        material.normalMap = texture(tokens);
+        break;
+    }
+  }
+  return materials;
+}
+
+/**
+ * Reads the MTL files a model references, relative to the OBJ file at `url`.
+ * Groups whose material is missing from them get a plain gray one.
+ */
+export async function loadMaterials(
+  model: Pick<ObjModel, "groups" | "materialLibraries">,
+  url: URL,
+): Promise<Map<string, ObjMaterial>> {
+  const materials = new Map<string, ObjMaterial>();
+  for (const library of model.materialLibraries) {
+    const libraryUrl = new URL(library, url);
+    const parsed = parseMtl(await Deno.readTextFile(libraryUrl), libraryUrl);
+    for (const [name, material] of parsed) {
+      materials.set(name, material);
+    }
+  }
+  for (const group of model.groups) {
+    const name = group.material ?? "";
+    if (!materials.has(name)) {
+      materials.set(name, defaultMaterial(name));
+    }
+    group.material = name;
+  }
+  return materials;
+}
+
+/** Reads an OBJ file together with the MTL files it references. */
+export async function loadObj(
+  url: URL,
+  options: ObjOptions = {},
+): Promise<ObjModel & { materials: Map<string, ObjMaterial> }> {
+  const model = parseObj(await Deno.readTextFile(url), options);
+  return { ...model, materials: await loadMaterials(model, url) };
+}
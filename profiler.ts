@@ -0,0 +1,279 @@
+/** Most passes a single frame can time on the GPU. */
+const MAX_PASSES = 64;
+
+export interface PassSample {
+  frame: number;
+  label: string;
+  /** Duration in milliseconds. */
+  duration: number;
+}
+
+export interface PassSummary {
+  label: string;
+  count: number;
+  /** Durations in milliseconds. */
+  mean: number;
+  min: number;
+  max: number;
+  total: number;
+}
+
+export interface ProfileReport {
+  /**
+   * `"gpu"` when passes were timed with timestamp queries. `"cpu"` when the
+   * device lacks `timestamp-query`, in which case passes are timed while they
+   * are encoded, and the `queue` label holds the time from submission until
+   * the GPU finished the frame.
+   */
+  source: "gpu" | "cpu";
+  frames: number;
+  passes: PassSummary[];
+  samples: PassSample[];
+}
+
+interface PendingPass {
+  label: string;
+  /** Start of encoding, only used for CPU timing. */
+  start: number;
+}
+
+/**
+ * Calls `onPass` with the label of every render and compute pass begun on
+ * `encoder`: its descriptor label, else the debug groups it is encoded in,
+ * else its kind and index, such as `render pass 0`. The pass is begun with
+ * the timestamp writes `onPass` returns, then handed to `onBegin`.
+ */
+export function tracePasses(
+  encoder: GPUCommandEncoder,
+  onPass: (label: string) => GPURenderPassTimestampWrites | undefined,
+  onBegin?: (pass: GPURenderPassEncoder | GPUComputePassEncoder) => void,
+): GPUCommandEncoder {
+  const groups: string[] = [];
+  const counts = { render: 0, compute: 0 };
+  const label = (
+    kind: keyof typeof counts,
+    descriptor: GPUObjectDescriptorBase,
+  ) =>
+    descriptor.label ||
+    (groups.length > 0 ? groups.join(" / ") : `${kind} pass ${counts[kind]}`);
+  // The methods are wrapped as they are, so that several tracers can share an
+  // encoder.
+  const { pushDebugGroup, popDebugGroup, beginRenderPass, beginComputePass } =
+    encoder;
+
+  encoder.pushDebugGroup = (groupLabel) => {
+    groups.push(groupLabel);
+    return pushDebugGroup.call(encoder, groupLabel);
+  };
+  encoder.popDebugGroup = () => {
+    groups.pop();
+    return popDebugGroup.call(encoder);
+  };
+  encoder.beginRenderPass = (descriptor) => {
+    const timestampWrites = onPass(label("render", descriptor));
+    const pass = beginRenderPass.call(
+      encoder,
+      timestampWrites ? { ...descriptor, timestampWrites } : descriptor,
+    );
+    counts.render++;
+    onBegin?.(pass);
+    return pass;
+  };
+  encoder.beginComputePass = (descriptor = {}) => {
+    const timestampWrites = onPass(label("compute", descriptor));
+    const pass = beginComputePass.call(
+      encoder,
+      timestampWrites ? { ...descriptor, timestampWrites } : descriptor,
+    );
+    counts.compute++;
+    onBegin?.(pass);
+    return pass;
+  };
+  return encoder;
+}
+
+/**
+ * Times every render and compute pass of a frame. Passes are labelled with
+ * their descriptor label, else with the debug groups they are encoded in,
+ * such as `shadow passes / shadow pass 0`.
+ */
+export class Profiler {
+  device: GPUDevice;
+  source: ProfileReport["source"];
+  samples: PassSample[] = [];
+  #frames = 0;
+  #querySet?: GPUQuerySet;
+  #resolveBuffer?: GPUBuffer;
+  #readBuffer?: GPUBuffer;
+  #passes: PendingPass[] = [];
+  #cpuSamples: PassSample[] = [];
+
+  constructor(device: GPUDevice) {
+    this.device = device;
+    this.source = device.features.has("timestamp-query") ? "gpu" : "cpu";
+    if (this.source === "gpu") {
+      this.#querySet = device.createQuerySet({
+        label: "Profiler Query Set",
+        type: "timestamp",
+        count: MAX_PASSES * 2,
+      });
+      this.#resolveBuffer = device.createBuffer({
+        label: "Profiler Resolve Buffer",
+        size: MAX_PASSES * 2 * 8,
+        usage: GPUBufferUsage.QUERY_RESOLVE | GPUBufferUsage.COPY_SRC,
+      });
+      this.#readBuffer = device.createBuffer({
+        label: "Profiler Read Buffer",
+        size: MAX_PASSES * 2 * 8,
+        usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+      });
+    }
+  }
+
+  /**
+   * Makes `encoder` record the passes begun on it. Call `resolve` on it once
+   * the frame is encoded, and `collect` after it has been submitted.
+   */
+  instrument(encoder: GPUCommandEncoder): GPUCommandEncoder {
+    return tracePasses(
+      encoder,
+      (label) => this.#beginPass(label),
+      (pass) => this.#instrumentEnd(pass),
+    );
+  }
+
+  #beginPass(label: string): GPURenderPassTimestampWrites | undefined {
+    const index = this.#passes.length;
+    this.#passes.push({ label, start: performance.now() });
+    if (!this.#querySet) return undefined;
+    if (index >= MAX_PASSES) {
+      throw new Error(`cannot profile more than ${MAX_PASSES} passes a frame`);
+    }
+    return {
+      querySet: this.#querySet,
+      beginningOfPassWriteIndex: index * 2,
+      endOfPassWriteIndex: index * 2 + 1,
+    };
+  }
+
+  #instrumentEnd(pass: GPURenderPassEncoder | GPUComputePassEncoder) {
+    if (this.#querySet) return;
+    const pending = this.#passes[this.#passes.length - 1];
+    const end = pass.end;
+    pass.end = () => {
+      const result = end.call(pass);
+      this.#cpuSamples.push({
+        frame: this.#frames,
+        label: pending.label,
+        duration: performance.now() - pending.start,
+      });
+      return result;
+    };
+  }
+
+  /** Copies the timestamps of the frame encoded on `encoder` for reading. */
+  resolve(encoder: GPUCommandEncoder) {
+    if (!this.#querySet || this.#passes.length === 0) return;
+    const size = this.#passes.length * 2;
+    encoder.resolveQuerySet(this.#querySet, 0, size, this.#resolveBuffer!, 0);
+    encoder.copyBufferToBuffer(
+      this.#resolveBuffer!,
+      0,
+      this.#readBuffer!,
+      0,
+      size * 8,
+    );
+  }
+
+  /** Records the timings of the frame that was just submitted. */
+  async collect() {
+    const passes = this.#passes;
+    const frame = this.#frames++;
+    this.#passes = [];
+
+    if (!this.#querySet) {
+      const submitted = performance.now();
+      await this.device.queue.onSubmittedWorkDone();
+      this.samples.push(...this.#cpuSamples, {
+        frame,
+        label: "queue",
+        duration: performance.now() - submitted,
+      });
+      this.#cpuSamples = [];
+      return;
+    }
+
+    if (passes.length === 0) return;
+    await this.#readBuffer!.mapAsync(GPUMapMode.READ, 0, passes.length * 16);
+    const timestamps = new BigUint64Array(
+      this.#readBuffer!.getMappedRange(0, passes.length * 16),
+    );
+    for (let i = 0; i < passes.length; i++) {
+      // Timestamps are not guaranteed to increase, e.g. across GPU clock changes.
+      const nanoseconds = timestamps[i * 2 + 1] > timestamps[i * 2]
+        ? Number(timestamps[i * 2 + 1] - timestamps[i * 2])
+        : 0;
+      this.samples.push({
+        frame,
+        label: passes[i].label,
+        duration: nanoseconds / 1e6,
+      });
+    }
+    this.#readBuffer!.unmap();
+  }
+
+  report(): ProfileReport {
+    const byLabel = new Map<string, number[]>();
+    for (const sample of this.samples) {
+      let durations = byLabel.get(sample.label);
+      if (!durations) {
+        durations = [];
+        byLabel.set(sample.label, durations);
+      }
+      durations.push(sample.duration);
+    }
+
+    const passes = [...byLabel].map(([label, durations]) => {
+      const total = durations.reduce((sum, duration) => sum + duration, 0);
+      return {
+        label,
+        count: durations.length,
+        mean: total / durations.length,
+        min: Math.min(...durations),
+        max: Math.max(...durations),
+        total,
+      };
+    });
+
+    return {
+      source: this.source,
+      frames: this.#frames,
+      passes,
+      samples: this.samples,
+    };
+  }
+
+  /** Prints the mean, minimum and maximum duration of every pass. */
+  print() {
+    const { source, frames, passes } = this.report();
+    console.log(`${source} pass timings over ${frames} frame(s), in ms:`);
+    const width = Math.max(0, ...passes.map(({ label }) => label.length));
+    for (const { label, mean, min, max } of passes) {
+      console.log(
+        `  ${label.padEnd(width)}  mean ${mean.toFixed(3)}  min ${
+          min.toFixed(3)
+        }  max ${max.toFixed(3)}`,
+      );
+    }
+  }
+
+  writeReport(path: string) {
+    Deno.writeTextFileSync(path, JSON.stringify(this.report(), null, 2));
+  }
+
+  destroy() {
+    this.#querySet?.destroy();
+    this.#resolveBuffer?.destroy();
+    this.#readBuffer?.destroy();
+  }
+}
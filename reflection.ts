@@ -0,0 +1,852 @@
+import { AddressSpace, layoutOf, WgslScalar, WgslType } from "./utils.ts";
+
+export type ShaderStage = "vertex" | "fragment" | "compute";
+
+export type ResourceBinding =
+  & {
+    group: number;
+    binding: number;
+    name: string;
+  }
+  & (
+    | {
+      resource: "buffer";
+      type: GPUBufferBindingType;
+      /** The type of the variable, undefined when it is not host-shareable. */
+      dataType?: WgslType;
+    }
+    | { resource: "sampler"; type: GPUSamplerBindingType }
+    | {
+      resource: "texture";
+      sampleType: GPUTextureSampleType;
+      viewDimension: GPUTextureViewDimension;
+      multisampled: boolean;
+    }
+    | {
+      resource: "storageTexture";
+      format: GPUTextureFormat;
+      access: GPUStorageTextureAccess;
+      viewDimension: GPUTextureViewDimension;
+    }
+  );
+
+export interface EntryPoint {
+  name: string;
+  stage: ShaderStage;
+  /** Only set for compute entry points whose size is given as literals. */
+  workgroupSize?: number[];
+  /** Names of the resources the entry point uses, directly or through calls. */
+  resources: string[];
+}
+
+export interface ShaderReflection {
+  /** Every struct that can be laid out in a buffer, by name. */
+  structs: Record<string, WgslType>;
+  bindings: ResourceBinding[];
+  entryPoints: EntryPoint[];
+}
+
+interface Token {
+  kind: "ident" | "number" | "punct";
+  value: string;
+}
+
+interface TypeExpr {
+  name: string;
+  args: TypeExpr[];
+}
+
+type Attributes = Map<string, string[]>;
+
+function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < code.length) {
+    const rest = code.slice(i);
+    if (rest.startsWith("//")) {
+      const end = code.indexOf("\n", i);
+      i = end === -1 ? code.length : end;
+    } else if (rest.startsWith("/*")) {
+      // Block comments nest in WGSL.
+      let depth = 0;
+      do {
+        if (code.startsWith("/*", i)) {
+          depth++;
+          i += 2;
+        } else if (code.startsWith("*/", i)) {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      } while (depth > 0 && i < code.length);
+    } else {
+      const match = /^(\s+)|^([A-Za-z_]\w*)|^(\d[\w.]*|\.\d[\w.]*)/.exec(rest);
+      if (match?.[2]) {
+        tokens.push({ kind: "ident", value: match[2] });
+      } else if (match?.[3]) {
+        tokens.push({ kind: "number", value: match[3] });
+      } else if (!match) {
+        tokens.push({ kind: "punct", value: code[i] });
+      }
+      i += match ? match[0].length : 1;
+    }
+  }
+  return tokens;
+}
+
+function parseInteger(value: string): number | undefined {
+  const number = Number(value.replace(/[iu]$/, ""));
+  return Number.isInteger(number) ? number : undefined;
+}
+
+/**
+ * The identifiers a function body refers to from outside of it. Member names
+ * after `.` are left out, as are the names of parameters, and of local
+ * declarations from where they are declared to the end of their block.
+ */
+function referencedIdentifiers(
+  parameters: Token[],
+  body: Token[],
+): Set<string> {
+  const referenced = new Set<string>();
+  const scopes = [
+    new Set(
+      parameters
+        .filter((token, i) =>
+          token.kind === "ident" && parameters[i + 1]?.value === ":"
+        )
+        .map((token) => token.value),
+    ),
+  ];
+  // Declared names shadow others once their declaration ends, so that
+  // `let a = a;` still refers to the outer `a`.
+  const declared: { name: string; depth: number }[] = [];
+  for (let i = 0; i < body.length; i++) {
+    const token = body[i];
+    if (token.value === "{") {
+      scopes.push(new Set());
+    } else if (token.value === "}") {
+      scopes.pop();
+    } else if (token.value === ";") {
+      while (declared.at(-1)?.depth === scopes.length) {
+        scopes.at(-1)!.add(declared.pop()!.name);
+      }
+    } else if (token.kind === "ident" && body[i - 1]?.value !== ".") {
+      if (["let", "var", "const"].includes(token.value)) {
+        // Skip the address space of `var<function>`.
+        if (body[i + 1]?.value === "<") {
+          while (i < body.length - 1 && body[i].value !== ">") i++;
+        }
+        declared.push({ name: body[++i].value, depth: scopes.length });
+      } else if (!scopes.some((scope) => scope.has(token.value))) {
+        referenced.add(token.value);
+      }
+    }
+  }
+  return referenced;
+}
+
+class Parser {
+  tokens: Token[];
+  position = 0;
+  structs = new Map<string, { name: string; type: TypeExpr }[]>();
+  aliases = new Map<string, TypeExpr>();
+  constants = new Map<string, number>();
+  variables: {
+    attributes: Attributes;
+    space: string[];
+    name: string;
+    type: TypeExpr;
+  }[] = [];
+  functions = new Map<
+    string,
+    { attributes: Attributes; identifiers: Set<string> }
+  >();
+
+  constructor(code: string) {
+    this.tokens = tokenize(code);
+  }
+
+  peek(): string | undefined {
+    return this.tokens[this.position]?.value;
+  }
+
+  next(): string {
+    const token = this.tokens[this.position++];
+    if (!token) throw new Error("unexpected end of shader");
+    return token.value;
+  }
+
+  expect(value: string) {
+    const token = this.next();
+    if (token !== value) {
+      throw new Error(`expected "${value}", found "${token}"`);
+    }
+  }
+
+  /** Skips tokens up to and including `close`, minding nested brackets. */
+  skipUntil(close: string): Token[] {
+    const skipped = [];
+    let depth = 0;
+    while (true) {
+      const token = this.tokens[this.position++];
+      if (!token) throw new Error(`expected "${close}"`);
+      if (depth === 0 && token.value === close) return skipped;
+      if ("([{".includes(token.value)) depth++;
+      if (")]}".includes(token.value)) depth--;
+      skipped.push(token);
+    }
+  }
+
+  parseAttributes(): Attributes {
+    const attributes: Attributes = new Map();
+    while (this.peek() === "@") {
+      this.next();
+      const name = this.next();
+      const args: string[] = [];
+      if (this.peek() === "(") {
+        this.next();
+        let arg = "";
+        for (const token of this.skipUntil(")")) {
+          if (token.value === ",") {
+            args.push(arg);
+            arg = "";
+          } else {
+            arg += token.value;
+          }
+        }
+        if (arg) args.push(arg);
+      }
+      attributes.set(name, args);
+    }
+    return attributes;
+  }
+
+  parseType(): TypeExpr {
+    const name = this.next();
+    const args: TypeExpr[] = [];
+    if (this.peek() === "<") {
+      this.next();
+      while (this.peek() !== ">") {
+        args.push(this.parseType());
+        if (this.peek() === ",") this.next();
+      }
+      this.next();
+    }
+    return { name, args };
+  }
+
+  parse() {
+    while (this.position < this.tokens.length) {
+      const attributes = this.parseAttributes();
+      const keyword = this.next();
+      if (keyword === ";") {
+        continue;
+      } else if (keyword === "struct") {
+        const name = this.next();
+        const members = [];
+        this.expect("{");
+        while (this.peek() !== "}") {
+          this.parseAttributes();
+          const member = this.next();
+          this.expect(":");
+          members.push({ name: member, type: this.parseType() });
+          if (this.peek() === "," || this.peek() === ";") this.next();
+        }
+        this.next();
+        if (this.peek() === ";") this.next();
+        this.structs.set(name, members);
+      } else if (keyword === "var") {
+        const space = [];
+        if (this.peek() === "<") {
+          this.next();
+          while (this.peek() !== ">") {
+            const token = this.next();
+            if (token !== ",") space.push(token);
+          }
+          this.next();
+        }
+        const name = this.next();
+        let type: TypeExpr = { name: "", args: [] };
+        if (this.peek() === ":") {
+          this.next();
+          type = this.parseType();
+        }
+        this.skipUntil(";");
+        this.variables.push({ attributes, space, name, type });
+      } else if (keyword === "fn") {
+        const name = this.next();
+        this.expect("(");
+        const parameters = this.skipUntil(")");
+        while (this.peek() !== "{") this.next();
+        this.next();
+        const identifiers = referencedIdentifiers(
+          parameters,
+          this.skipUntil("}"),
+        );
+        this.functions.set(name, { attributes, identifiers });
+      } else if (keyword === "alias") {
+        const name = this.next();
+        this.expect("=");
+        this.aliases.set(name, this.parseType());
+        this.expect(";");
+      } else if (keyword === "const" || keyword === "override") {
+        const name = this.next();
+        const tokens = this.skipUntil(";");
+        const value = tokens[tokens.length - 1];
+        if (
+          tokens[tokens.length - 2]?.value === "=" && value.kind === "number"
+        ) {
+          const integer = parseInteger(value.value);
+          if (integer !== undefined) this.constants.set(name, integer);
+        }
+      } else {
+        // enable, requires, diagnostic and const_assert directives
+        this.skipUntil(";");
+      }
+    }
+  }
+
+  toWgslType(expr: TypeExpr, seen: string[] = []): WgslType {
+    const { name, args } = expr;
+    const scalar = (type: TypeExpr | string): WgslScalar => {
+      const scalarName = typeof type === "string" ? type : type.name;
+      if (
+        scalarName === "f32" || scalarName === "i32" || scalarName === "u32"
+      ) {
+        return scalarName;
+      }
+      throw new Error(`${scalarName} is not supported in buffers`);
+    };
+    const suffixes: Record<string, WgslScalar> = {
+      f: "f32",
+      i: "i32",
+      u: "u32",
+    };
+
+    let match;
+    if (name === "f32" || name === "i32" || name === "u32") {
+      return { kind: "scalar", scalar: name };
+    } else if (name === "atomic") {
+      return this.toWgslType(args[0], seen);
+    } else if ((match = /^vec([234])([fiuh]?)$/.exec(name))) {
+      return {
+        kind: "vector",
+        size: Number(match[1]) as 2 | 3 | 4,
+        scalar: match[2]
+          ? scalar(suffixes[match[2]] ?? "f16")
+          : scalar(args[0]),
+      };
+    } else if ((match = /^mat([234])x([234])([fh]?)$/.exec(name))) {
+      scalar(match[3] ? suffixes[match[3]] ?? "f16" : args[0]);
+      return {
+        kind: "matrix",
+        columns: Number(match[1]) as 2 | 3 | 4,
+        rows: Number(match[2]) as 2 | 3 | 4,
+      };
+    } else if (name === "array") {
+      let length;
+      if (args[1]) {
+        length = parseInteger(args[1].name) ?? this.constants.get(args[1].name);
+        if (length === undefined) {
+          throw new Error(`cannot evaluate the array length ${args[1].name}`);
+        }
+      }
+      return {
+        kind: "array",
+        element: this.toWgslType(args[0], seen),
+        length,
+      };
+    } else if (this.aliases.has(name)) {
+      return this.toWgslType(this.aliases.get(name)!, seen);
+    } else if (this.structs.has(name)) {
+      if (seen.includes(name)) throw new Error(`struct ${name} is recursive`);
+      const members: Record<string, WgslType> = {};
+      for (const member of this.structs.get(name)!) {
+        members[member.name] = this.toWgslType(member.type, [...seen, name]);
+      }
+      return { kind: "struct", name, members };
+    }
+    throw new Error(`${name} is not supported in buffers`);
+  }
+}
+
+const VIEW_DIMENSIONS: Record<string, GPUTextureViewDimension> = {
+  "1d": "1d",
+  "2d": "2d",
+  "2d_array": "2d-array",
+  "3d": "3d",
+  "cube": "cube",
+  "cube_array": "cube-array",
+};
+const SAMPLE_TYPES: Record<string, GPUTextureSampleType> = {
+  f32: "float",
+  i32: "sint",
+  u32: "uint",
+};
+const STORAGE_ACCESS: Record<string, GPUStorageTextureAccess> = {
+  read: "read-only",
+  write: "write-only",
+  read_write: "read-write",
+};
+
+function toBinding(
+  parser: Parser,
+  variable: Parser["variables"][number],
+): ResourceBinding | undefined {
+  const group = parseInteger(variable.attributes.get("group")?.[0] ?? "");
+  const binding = parseInteger(variable.attributes.get("binding")?.[0] ?? "");
+  if (group === undefined || binding === undefined) return undefined;
+  const base = { group, binding, name: variable.name };
+  const [space, access] = variable.space;
+  const { name, args } = variable.type;
+
+  if (space === "uniform" || space === "storage") {
+    let dataType;
+    try {
+      dataType = parser.toWgslType(variable.type);
+    } catch {
+      // Left undefined, so sizes cannot be checked.
+    }
+    return {
+      ...base,
+      resource: "buffer",
+      type: space === "uniform"
+        ? "uniform"
+        : access === "read_write"
+        ? "storage"
+        : "read-only-storage",
+      dataType,
+    };
+  } else if (name === "sampler" || name === "sampler_comparison") {
+    return {
+      ...base,
+      resource: "sampler",
+      type: name === "sampler" ? "filtering" : "comparison",
+    };
+  }
+
+  let match;
+  if ((match = /^texture_storage_(\w+)$/.exec(name))) {
+    return {
+      ...base,
+      resource: "storageTexture",
+      format: args[0].name as GPUTextureFormat,
+      access: STORAGE_ACCESS[args[1].name],
+      viewDimension: VIEW_DIMENSIONS[match[1]],
+    };
+  } else if ((match = /^texture_(depth_)?(multisampled_)?(\w+)$/.exec(name))) {
+    return {
+      ...base,
+      resource: "texture",
+      sampleType: match[1] ? "depth" : SAMPLE_TYPES[args[0]?.name],
+      viewDimension: VIEW_DIMENSIONS[match[3]],
+      multisampled: match[2] !== undefined,
+    };
+  }
+  throw new Error(`unsupported resource type ${name} of ${variable.name}`);
+}
+
+/**
+ * Reflects the resource bindings, buffer structs and entry points of WGSL
+ * source. This is not a full WGSL parser: it expects a shader that compiles.
+ */
+export function reflectWgsl(code: string): ShaderReflection {
+  const parser = new Parser(code);
+  parser.parse();
+
+  const structs: Record<string, WgslType> = {};
+  for (const name of parser.structs.keys()) {
+    try {
+      structs[name] = parser.toWgslType({ name, args: [] });
+    } catch {
+      // Structs holding builtins such as bool are only used for stage IO.
+    }
+  }
+
+  const bindings = parser.variables
+    .map((variable) => toBinding(parser, variable))
+    .filter((binding) => binding !== undefined);
+
+  const entryPoints: EntryPoint[] = [];
+  for (const [name, { attributes }] of parser.functions) {
+    const stage = (["vertex", "fragment", "compute"] as const).find((stage) =>
+      attributes.has(stage)
+    );
+    if (!stage) continue;
+
+    // Follow the calls to find every identifier the entry point can reach.
+    const reached = new Set<string>();
+    const pending = [name];
+    while (pending.length > 0) {
+      const fn = parser.functions.get(pending.pop()!)!;
+      for (const identifier of fn.identifiers) {
+        if (reached.has(identifier)) continue;
+        reached.add(identifier);
+        if (parser.functions.has(identifier)) pending.push(identifier);
+      }
+    }
+
+    const workgroupSize = attributes.get("workgroup_size")?.map(parseInteger);
+    entryPoints.push({
+      name,
+      stage,
+      workgroupSize: workgroupSize?.every((size) => size !== undefined)
+        ? workgroupSize as number[]
+        : undefined,
+      resources: bindings
+        .filter((binding) => reached.has(binding.name))
+        .map((binding) => binding.name),
+    });
+  }
+
+  return { structs, bindings, entryPoints };
+}
+
+/** Reads a WGSL file and reflects it. */
+export async function reflectWgslFile(url: URL): Promise<ShaderReflection> {
+  return reflectWgsl(await Deno.readTextFile(url));
+}
+
+export interface LayoutOptions {
+  /** Entry points the layouts are for. Defaults to all of them. */
+  entryPoints?: string[];
+  /**
+   * Extra properties of the generated entries by resource name, such as
+   * `{ u_entity: { buffer: { hasDynamicOffset: true } } }`.
+   */
+  overrides?: Record<string, Partial<GPUBindGroupLayoutEntry>>;
+}
+
+const STAGE_FLAGS: Record<ShaderStage, number> = {
+  vertex: 0x1,
+  fragment: 0x2,
+  compute: 0x4,
+};
+
+/** The bindings used by the entry points, with the stages that use them. */
+function usedBindings(
+  reflection: ShaderReflection,
+  entryPointNames?: string[],
+): { binding: ResourceBinding; visibility: number }[] {
+  const entryPoints = entryPointNames
+    ? entryPointNames.map((name) => {
+      const entryPoint = reflection.entryPoints.find((entryPoint) =>
+        entryPoint.name === name
+      );
+      if (!entryPoint) throw new Error(`unknown entry point ${name}`);
+      return entryPoint;
+    })
+    : reflection.entryPoints;
+
+  const used = new Map<
+    string,
+    { binding: ResourceBinding; visibility: number }
+  >();
+  for (const entryPoint of entryPoints) {
+    for (const name of entryPoint.resources) {
+      const binding = reflection.bindings.find((binding) =>
+        binding.name === name
+      )!;
+      const key = `${binding.group}:${binding.binding}`;
+      const existing = used.get(key);
+      if (existing && existing.binding !== binding) {
+        throw new Error(
+          `${existing.binding.name} and ${binding.name} share @group(${binding.group}) @binding(${binding.binding}), select entry points that use only one of them`,
+        );
+      }
+      used.set(key, {
+        binding,
+        visibility: (existing?.visibility ?? 0) | STAGE_FLAGS[entryPoint.stage],
+      });
+    }
+  }
+  return [...used.values()];
+}
+
+function minBindingSize(binding: ResourceBinding): number {
+  if (binding.resource !== "buffer" || !binding.dataType) return 0;
+  const space: AddressSpace = binding.type === "uniform"
+    ? "uniform"
+    : "storage";
+  return layoutOf(binding.dataType, space).size;
+}
+
+/**
+ * Generates the bind group layout entries for the entry points, indexed by
+ * group. Groups no binding uses get no entries.
+ */
+export function layoutEntries(
+  reflection: ShaderReflection,
+  options: LayoutOptions = {},
+): GPUBindGroupLayoutEntry[][] {
+  const groups: GPUBindGroupLayoutEntry[][] = [];
+  for (
+    const { binding, visibility } of usedBindings(
+      reflection,
+      options.entryPoints,
+    )
+  ) {
+    let entry: GPUBindGroupLayoutEntry = {
+      binding: binding.binding,
+      visibility,
+    };
+    switch (binding.resource) {
+      case "buffer":
+        entry.buffer = {
+          type: binding.type,
+          minBindingSize: minBindingSize(binding),
+        };
+        break;
+      case "sampler":
+        entry.sampler = { type: binding.type };
+        break;
+      case "texture":
+        entry.texture = {
+          sampleType: binding.sampleType,
+          viewDimension: binding.viewDimension,
+          multisampled: binding.multisampled,
+        };
+        break;
+      case "storageTexture":
+        entry.storageTexture = {
+          format: binding.format,
+          access: binding.access,
+          viewDimension: binding.viewDimension,
+        };
+        break;
+    }
+
+    const override = options.overrides?.[binding.name];
+    if (override) {
+      entry = {
+        ...entry,
+        ...override,
+        buffer: entry.buffer && { ...entry.buffer, ...override.buffer },
+        sampler: entry.sampler && { ...entry.sampler, ...override.sampler },
+        texture: entry.texture && { ...entry.texture, ...override.texture },
+        storageTexture: entry.storageTexture &&
+          { ...entry.storageTexture, ...override.storageTexture },
+      };
+    }
+
+    for (let group = groups.length; group <= binding.group; group++) {
+      groups.push([]);
+    }
+    groups[binding.group].push(entry);
+  }
+  for (const entries of groups) {
+    entries.sort((a, b) => a.binding - b.binding);
+  }
+  return groups;
+}
+
+/** Creates the bind group layouts of the entry points, indexed by group. */
+export function createBindGroupLayouts(
+  device: GPUDevice,
+  reflection: ShaderReflection,
+  options: LayoutOptions & { label?: string } = {},
+): GPUBindGroupLayout[] {
+  return layoutEntries(reflection, options).map((entries, group) =>
+    device.createBindGroupLayout({
+      label: options.label && `${options.label} (group ${group})`,
+      entries,
+    })
+  );
+}
+
+function describe(binding: ResourceBinding): string {
+  return `@group(${binding.group}) @binding(${binding.binding}) ${binding.name}`;
+}
+
+function bindingKind(entry: GPUBindGroupLayoutEntry): string | undefined {
+  if (entry.buffer) return "buffer";
+  if (entry.sampler) return "sampler";
+  if (entry.texture) return "texture";
+  if (entry.storageTexture) return "storageTexture";
+  return undefined;
+}
+
+/**
+ * Checks hand-written layout entries for `group` against the shader, and
+ * throws an error listing every binding the entry points use that is
+ * missing, of the wrong type, too small or not visible to their stages.
+ */
+export function validateLayoutEntries(
+  reflection: ShaderReflection,
+  group: number,
+  entries: GPUBindGroupLayoutEntry[],
+  options: Pick<LayoutOptions, "entryPoints"> = {},
+) {
+  const problems = [];
+  for (
+    const { binding, visibility } of usedBindings(
+      reflection,
+      options.entryPoints,
+    )
+  ) {
+    if (binding.group !== group) continue;
+    const name = describe(binding);
+    const entry = entries.find((entry) => entry.binding === binding.binding);
+    if (!entry) {
+      problems.push(`${name} has no entry`);
+      continue;
+    }
+    if ((entry.visibility & visibility) !== visibility) {
+      problems.push(`${name} is not visible to every stage that uses it`);
+    }
+    const kind = bindingKind(entry);
+    if (kind !== binding.resource) {
+      problems.push(`${name} is a ${binding.resource}, not a ${kind}`);
+      continue;
+    }
+
+    switch (binding.resource) {
+      case "buffer": {
+        const type = entry.buffer!.type ?? "uniform";
+        if (type !== binding.type) {
+          problems.push(`${name} is a ${binding.type} buffer, not ${type}`);
+        }
+        const size = minBindingSize(binding);
+        const entrySize = entry.buffer!.minBindingSize ?? 0;
+        if (entrySize !== 0 && entrySize < size) {
+          problems.push(
+            `${name} needs at least ${size} bytes, but minBindingSize is ${entrySize}`,
+          );
+        }
+        break;
+      }
+      case "sampler": {
+        const type = entry.sampler!.type ?? "filtering";
+        if ((type === "comparison") !== (binding.type === "comparison")) {
+          problems.push(`${name} is a ${binding.type} sampler, not ${type}`);
+        }
+        break;
+      }
+      case "texture": {
+        const sampleType = entry.texture!.sampleType ?? "float";
+        const compatible = sampleType === binding.sampleType ||
+          (binding.sampleType === "float" &&
+            sampleType === "unfilterable-float");
+        if (!compatible) {
+          problems.push(
+            `${name} has sample type ${binding.sampleType}, not ${sampleType}`,
+          );
+        }
+        const viewDimension = entry.texture!.viewDimension ?? "2d";
+        if (viewDimension !== binding.viewDimension) {
+          problems.push(
+            `${name} is a ${binding.viewDimension} texture, not ${viewDimension}`,
+          );
+        }
+        if ((entry.texture!.multisampled ?? false) !== binding.multisampled) {
+          problems.push(
+            `${name} is${binding.multisampled ? "" : " not"} multisampled`,
+          );
+        }
+        break;
+      }
+      case "storageTexture": {
+        const { format, access, viewDimension } = entry.storageTexture!;
+        if (format !== binding.format) {
+          problems.push(`${name} has format ${binding.format}, not ${format}`);
+        }
+        if ((access ?? "write-only") !== binding.access) {
+          problems.push(`${name} has access ${binding.access}, not ${access}`);
+        }
+        if ((viewDimension ?? "2d") !== binding.viewDimension) {
+          problems.push(
+            `${name} is a ${binding.viewDimension} texture, not ${viewDimension}`,
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `bind group layout ${group} does not match the shader:\n  ${
+        problems.join("\n  ")
+      }`,
+    );
+  }
+}
+
+/**
+ * Creates the bind group for `group` from resources named after the shader
+ * variables. Buffers may be passed directly, or as a `GPUBufferBinding` to
+ * bind a range. Throws before creating the bind group when a resource is
+ * missing, unknown, of the wrong kind, or a buffer is too small or lacks the
+ * usage its binding needs.
+ */
+export function createBindGroupByName(
+  device: GPUDevice,
+  reflection: ShaderReflection,
+  layout: GPUBindGroupLayout,
+  group: number,
+  resources: Record<string, GPUBuffer | GPUBindingResource>,
+  options: Pick<LayoutOptions, "entryPoints"> & { label?: string } = {},
+): GPUBindGroup {
+  const bindings = usedBindings(reflection, options.entryPoints)
+    .map(({ binding }) => binding)
+    .filter((binding) => binding.group === group);
+  const problems = [];
+  const entries: GPUBindGroupEntry[] = [];
+
+  for (const name of Object.keys(resources)) {
+    if (!bindings.some((binding) => binding.name === name)) {
+      problems.push(`${name} is not bound in group ${group}`);
+    }
+  }
+
+  for (const binding of bindings) {
+    const name = describe(binding);
+    const given = resources[binding.name];
+    if (given === undefined) {
+      problems.push(`${name} has no resource`);
+      continue;
+    }
+    const resource = given instanceof GPUBuffer ? { buffer: given } : given;
+
+    if (binding.resource === "buffer") {
+      if (!("buffer" in resource)) {
+        problems.push(`${name} needs a buffer`);
+        continue;
+      }
+      const { buffer, offset = 0 } = resource;
+      const usage = binding.type === "uniform"
+        ? GPUBufferUsage.UNIFORM
+        : GPUBufferUsage.STORAGE;
+      if ((buffer.usage & usage) === 0) {
+        problems.push(
+          `${name} needs a buffer with the ${
+            binding.type === "uniform" ? "UNIFORM" : "STORAGE"
+          } usage`,
+        );
+      }
+      const size = resource.size ?? buffer.size - offset;
+      const required = minBindingSize(binding);
+      if (size < required) {
+        problems.push(`${name} needs at least ${required} bytes, got ${size}`);
+      }
+    } else if (binding.resource === "sampler") {
+      if (!(resource instanceof GPUSampler)) {
+        problems.push(`${name} needs a sampler`);
+      }
+    } else if (!(resource instanceof GPUTextureView)) {
+      problems.push(`${name} needs a texture view`);
+    }
+    entries.push({ binding: binding.binding, resource });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `bind group ${group} does not match the shader:\n  ${
+        problems.join("\n  ")
+      }`,
+    );
+  }
+  return device.createBindGroup({ label: options.label, layout, entries });
+}
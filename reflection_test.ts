@@ -0,0 +1,142 @@
+import { assertEquals, assertThrows } from "std/assert";
+import { layoutEntries, reflectWgsl, reflectWgslFile } from "./reflection.ts";
+import { layoutOf } from "./utils.ts";
+
+Deno.test("lays out reflected structs with vec3, f32 and array members", () => {
+  const reflection = reflectWgsl(`
+    struct Params {
+      origin: vec3<f32>,
+      scale: f32,
+      colors: array<vec4<f32>, 2>,
+    };
+    struct Particles {
+      origin: vec3<f32>,
+      scale: f32,
+      positions: array<vec3<f32>>,
+    };
+    @group(0) @binding(0) var<uniform> params: Params;
+    @group(0) @binding(1) var<storage, read_write> particles: Particles;
+    @compute @workgroup_size(64)
+    fn main() {
+      particles.positions[0] = params.origin * params.scale;
+    }
+  `);
+  const { Params, Particles } = reflection.structs;
+  assertEquals(layoutOf(Params, "uniform"), { align: 16, size: 48 });
+  assertEquals(layoutOf(Particles, "storage"), { align: 16, size: 32 });
+  assertEquals(layoutOf(Particles, "storage", 3), { align: 16, size: 64 });
+  assertEquals(
+    layoutEntries(reflection)[0].map((entry) => entry.buffer),
+    [
+      { type: "uniform", minBindingSize: 48 },
+      { type: "storage", minBindingSize: 32 },
+    ],
+  );
+});
+
+Deno.test("finds the resources entry points reach through helper functions", () => {
+  const reflection = reflectWgsl(`
+    @group(0) @binding(0) var<uniform> scale: f32;
+    @group(0) @binding(1) var<storage, read> input: array<f32>;
+    @group(0) @binding(2) var<storage, read_write> output: array<f32>;
+    @group(1) @binding(0) var<uniform> unused: f32;
+    fn load(i: u32) -> f32 {
+      return input[i] * get_scale();
+    }
+    fn get_scale() -> f32 {
+      return scale;
+    }
+    @compute @workgroup_size(64)
+    fn double(@builtin(global_invocation_id) id: vec3<u32>) {
+      output[id.x] = load(id.x);
+    }
+    @compute @workgroup_size(64)
+    fn clear(@builtin(global_invocation_id) id: vec3<u32>) {
+      output[id.x] = 0.0;
+    }
+  `);
+  assertEquals(
+    reflection.entryPoints.map(({ name, resources }) => ({ name, resources })),
+    [
+      { name: "double", resources: ["scale", "input", "output"] },
+      { name: "clear", resources: ["output"] },
+    ],
+  );
+  assertEquals(reflection.entryPoints[0].workgroupSize, [64]);
+  assertEquals(
+    layoutEntries(reflection, { entryPoints: ["clear"] })
+      .map((entries) => entries.map((entry) => entry.binding)),
+    [[2]],
+  );
+});
+
+Deno.test("ignores members and locals named like bindings", () => {
+  const reflection = reflectWgsl(`
+    struct Light {
+      params: vec4<f32>,
+      lights: u32,
+    };
+    @group(0) @binding(0) var<uniform> params: vec4<f32>;
+    @group(0) @binding(1) var<storage, read> lights: array<Light>;
+    @group(0) @binding(2) var<storage, read_write> output: array<vec4<f32>>;
+    @group(0) @binding(3) var<uniform> scale: f32;
+    fn shade(light: Light, scale: f32) -> vec4<f32> {
+      return light.params * f32(light.lights) * scale;
+    }
+    @compute @workgroup_size(64)
+    fn member_and_parameter(@builtin(global_invocation_id) id: vec3<u32>) {
+      var light: Light;
+      output[id.x] = shade(light, 2.0);
+    }
+    @compute @workgroup_size(64)
+    fn local(@builtin(global_invocation_id) id: vec3<u32>) {
+      {
+        let params = vec4<f32>(1.0);
+        output[id.x] = params;
+      }
+      var<function> scale = 2.0;
+      output[id.x] *= scale;
+    }
+    @compute @workgroup_size(64)
+    fn outer(@builtin(global_invocation_id) id: vec3<u32>) {
+      {
+        let params = vec4<f32>(1.0);
+      }
+      let scale = scale;
+      output[id.x] = params * scale;
+    }
+  `);
+  assertEquals(
+    reflection.entryPoints.map(({ name, resources }) => ({ name, resources })),
+    [
+      { name: "member_and_parameter", resources: ["output"] },
+      { name: "local", resources: ["output"] },
+      { name: "outer", resources: ["params", "output", "scale"] },
+    ],
+  );
+});
+
+Deno.test("rejects bindings shared by shadow's storage and uniform lights", async () => {
+  const reflection = await reflectWgslFile(
+    new URL("./shadow/shader.wgsl", import.meta.url),
+  );
+  assertThrows(
+    () => layoutEntries(reflection),
+    Error,
+    "s_lights and u_lights share @group(0) @binding(1)",
+  );
+  for (
+    const [entryPoint, type] of [
+      ["fs_main", "read-only-storage"],
+      ["fs_main_without_storage", "uniform"],
+    ] as const
+  ) {
+    const [group] = layoutEntries(reflection, {
+      entryPoints: ["vs_main", entryPoint],
+    });
+    assertEquals(
+      group.find((entry) => entry.binding === 1)?.buffer?.type,
+      type,
+    );
+  }
+});
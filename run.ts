@@ -1,10 +1,27 @@
 import $ from "dax";
 
+// With `--golden`, every example with a committed output image compares its
+// render against it instead of overwriting it, and all mismatches are reported.
+const golden = Deno.args.includes("--golden");
+const failures: string[] = [];
+
 for await (const entry of $.path(".").readDir()) {
   if (entry.isDirectory && !entry.name.startsWith(".")) {
-    await $`deno run --allow-read=. --allow-write=. --allow-import=deno.land,crux.land,jsr.io mod.ts`
-      .cwd(
-        entry.path,
-      );
+    const args = golden && entry.path.join("output.png").existsSync()
+      ? ["--golden"]
+      : [];
+    const command =
+      $`deno run --allow-read=. --allow-write=. --allow-import=deno.land,crux.land,jsr.io mod.ts ${args}`
+        .cwd(entry.path);
+    if (!golden) {
+      await command;
+    } else if ((await command.noThrow()).code !== 0) {
+      failures.push(entry.name);
+    }
   }
 }
+
+if (failures.length > 0) {
+  console.error(`golden image mismatch in: ${failures.join(", ")}`);
+  Deno.exit(1);
+}
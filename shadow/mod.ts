@@ -1,104 +1,28 @@
-import { Framework } from "../framework.ts";
+import { Framework, ScreenTexture } from "../framework.ts";
+import { parseExampleArgs } from "../cli.ts";
+import { Camera, OrbitController } from "../camera.ts";
+import {
+  buildMesh,
+  createCube,
+  createMeshBuffers,
+  createPlane,
+  MeshOptions,
+} from "../mesh.ts";
 import {
   createBufferInit,
   Dimensions,
+  layoutOf,
   OPENGL_TO_WGPU_MATRIX,
+  packStruct,
+  UniformArena,
+  wgsl,
 } from "../utils.ts";
+import { reflectWgslFile, validateLayoutEntries } from "../reflection.ts";
 import * as gmath from "gmath";
 
-function vertex(
-  pos: [number, number, number],
-  nor: [number, number, number],
-): number[] {
-  // deno-fmt-ignore
-  return [
-    ...pos, 1,
-    ...nor, 0,
-  ];
-}
-
-interface ObjectData {
-  vertexData: Int8Array;
-  indexData: Uint16Array;
-}
-
-function createCube(): ObjectData {
-  const vertexData = new Int8Array([
-    // top (0, 0, 1)
-    ...vertex([-1, -1, 1], [0, 0, 1]),
-    ...vertex([1, -1, 1], [0, 0, 1]),
-    ...vertex([1, 1, 1], [0, 0, 1]),
-    ...vertex([-1, 1, 1], [0, 0, 1]),
-    // bottom (0, 0, -1)
-    ...vertex([-1, 1, -1], [0, 0, -1]),
-    ...vertex([1, 1, -1], [0, 0, -1]),
-    ...vertex([1, -1, -1], [0, 0, -1]),
-    ...vertex([-1, -1, -1], [0, 0, -1]),
-    // right (1, 0, 0)
-    ...vertex([1, -1, -1], [1, 0, 0]),
-    ...vertex([1, 1, -1], [1, 0, 0]),
-    ...vertex([1, 1, 1], [1, 0, 0]),
-    ...vertex([1, -1, 1], [1, 0, 0]),
-    // left (-1, 0, 0)
-    ...vertex([-1, -1, 1], [-1, 0, 0]),
-    ...vertex([-1, 1, 1], [-1, 0, 0]),
-    ...vertex([-1, 1, -1], [-1, 0, 0]),
-    ...vertex([-1, -1, -1], [-1, 0, 0]),
-    // front (0, 1, 0)
-    ...vertex([1, 1, -1], [0, 1, 0]),
-    ...vertex([-1, 1, -1], [0, 1, 0]),
-    ...vertex([-1, 1, 1], [0, 1, 0]),
-    ...vertex([1, 1, 1], [0, 1, 0]),
-    // back (0, -1, 0)
-    ...vertex([1, -1, 1], [0, -1, 0]),
-    ...vertex([-1, -1, 1], [0, -1, 0]),
-    ...vertex([-1, -1, -1], [0, -1, 0]),
-    ...vertex([1, -1, -1], [0, -1, 0]),
-  ]);
-
-  // deno-fmt-ignore
-  const indexData = new Uint16Array([
-    0, 1, 2, 2, 3, 0, // top
-    4, 5, 6, 6, 7, 4, // bottom
-    8, 9, 10, 10, 11, 8, // right
-    12, 13, 14, 14, 15, 12, // left
-    16, 17, 18, 18, 19, 16, // front
-    20, 21, 22, 22, 23, 20, // back
-  ]);
-
-  return { vertexData, indexData };
-}
-
-function createPlane(size: number): ObjectData {
-  const vertexData = new Int8Array([
-    ...vertex([size, -size, 0], [0, 0, 1]),
-    ...vertex([size, size, 0], [0, 0, 1]),
-    ...vertex([-size, -size, 0], [0, 0, 1]),
-    ...vertex([-size, size, 0], [0, 0, 1]),
-  ]);
-
-  const indexData = new Uint16Array([0, 1, 2, 2, 1, 3]);
-
-  return { vertexData, indexData };
-}
-
-function generateMatrix(aspectRatio: number): Float32Array {
-  const mxProjection = new gmath.PerspectiveFov(
-    new gmath.Deg(45),
-    aspectRatio,
-    1,
-    20,
-  ).toPerspective().toMatrix4();
-  const mxView = gmath.Matrix4.lookAtRh(
-    new gmath.Vector3(3, -10, 6),
-    new gmath.Vector3(0, 0, 0),
-    gmath.Vector3.forward(),
-  );
-  return OPENGL_TO_WGPU_MATRIX.mul(mxProjection.mul(mxView)).toFloat32Array();
-}
-
 interface Entity {
   mxWorld: gmath.Matrix4;
+  /** Degrees per second around the entity's local X axis. */
   rotationSpeed: number;
   color: [number, number, number, number];
   vertexBuffer: GPUBuffer;
@@ -116,7 +40,22 @@ interface Light {
   targetView: GPUTextureView;
 }
 
-function lightToRaw(light: Light): Float32Array {
+// These mirror the structs in shader.wgsl.
+const GLOBALS = wgsl.struct({
+  view_proj: wgsl.mat4x4f,
+  num_lights: wgsl.vec4u,
+}, "Globals");
+const ENTITY = wgsl.struct({
+  world: wgsl.mat4x4f,
+  color: wgsl.vec4f,
+}, "Entity");
+const LIGHT = wgsl.struct({
+  proj: wgsl.mat4x4f,
+  pos: wgsl.vec4f,
+  color: wgsl.vec4f,
+}, "Light");
+
+function lightToRaw(light: Light): ArrayBuffer {
   const mxView = gmath.Matrix4.lookAtRh(
     light.pos,
     gmath.Vector3.zero(),
@@ -131,12 +70,11 @@ function lightToRaw(light: Light): Float32Array {
   const mxViewProj = OPENGL_TO_WGPU_MATRIX.mul(
     projection.toPerspective().toMatrix4().mul(mxView),
   );
-  // deno-fmt-ignore
-  return new Float32Array([
-    ...mxViewProj.toFloat32Array().slice(),
-    ...light.pos.toArray(), 1,
-    ...light.color,
-  ]);
+  return packStruct(LIGHT, {
+    proj: mxViewProj.toFloat32Array(),
+    pos: [...light.pos.toArray(), 1],
+    color: light.color,
+  });
 }
 
 interface Pass {
@@ -145,16 +83,17 @@ interface Pass {
   uniformBuffer: GPUBuffer;
 }
 
-const LIGHT_SIZE = (4 * 4 * 4) + (4 * 4) + (4 * 4);
+const LIGHT_SIZE = layoutOf(LIGHT).size;
 
 class Shadow extends Framework {
   maxLights: number;
+  camera: Camera;
 
   entities!: Entity[];
   shadowPass!: Pass;
   forwardPass!: Pass;
-  depthTextureView!: GPUTextureView;
-  entityUniformBuffer!: GPUBuffer;
+  depthTexture!: ScreenTexture;
+  entityUniforms!: UniformArena;
   lightStorageBuffer!: GPUBuffer;
   lights!: Light[];
   entityBindGroup!: GPUBindGroup;
@@ -163,14 +102,27 @@ class Shadow extends Framework {
 
   constructor(options: {
     maxLights: number;
+    /** Degrees per second the camera circles the scene at. */
+    orbitSpeed: number;
     dimensions: Dimensions;
   }, device: GPUDevice) {
     super(options.dimensions, device);
 
     this.maxLights = options.maxLights;
+    this.camera = new Camera({
+      projection: { type: "perspective", fovY: 45, near: 1, far: 20 },
+      aspect: options.dimensions.width / options.dimensions.height,
+      // Starts out at (3, -10, 6).
+      controller: new OrbitController({
+        distance: Math.hypot(3, 10, 6),
+        azimuth: Math.atan2(3, 10),
+        elevation: Math.atan2(6, Math.hypot(3, 10)),
+        up: [0, 0, 1],
+        speed: options.orbitSpeed * Math.PI / 180,
+      }),
+    });
   }
 
-  // deno-lint-ignore require-await
   async init() {
     const supportStorageResources = false; //this.device.limits.maxStorageBuffersPerShaderStage > 0;
 
@@ -180,34 +132,14 @@ class Shadow extends Framework {
       depthOrArrayLayers: this.maxLights,
     };
 
-    const vertexSize = 1 * 4 * 2;
-    const { vertexData: cubeVertexData, indexData: cubeIndexData } =
-      createCube();
-    const cubeVertexBuffer = createBufferInit(this.device, {
-      label: "Cubes Vertex Buffer",
-      usage: GPUBufferUsage.VERTEX,
-      contents: cubeVertexData.buffer,
-    });
-    const cubeIndexBuffer = createBufferInit(this.device, {
-      label: "Cubes Index Buffer",
-      usage: GPUBufferUsage.INDEX,
-      contents: cubeIndexData.buffer,
-    });
-
-    const { vertexData: planeVertexData, indexData: planeIndexData } =
-      createPlane(
-        7,
-      );
-    const planeVertexBuffer = createBufferInit(this.device, {
-      label: "Plane Vertex Buffer",
-      usage: GPUBufferUsage.VERTEX,
-      contents: planeVertexData.buffer,
-    });
-    const planeIndexBuffer = createBufferInit(this.device, {
-      label: "Plane Index Buffer",
-      usage: GPUBufferUsage.INDEX,
-      contents: planeIndexData.buffer,
-    });
+    const meshOptions: MeshOptions = {
+      attributes: ["position", "normal"],
+      format: "sint8",
+    };
+    const cubeMesh = buildMesh(createCube(), meshOptions);
+    const cubeBuffers = createMeshBuffers(this.device, cubeMesh, "Cubes");
+    const planeMesh = buildMesh(createPlane({ size: 14 }), meshOptions);
+    const planeBuffers = createMeshBuffers(this.device, planeMesh, "Plane");
 
     interface CubeDesc {
       offset: gmath.Vector3;
@@ -221,33 +153,31 @@ class Shadow extends Framework {
         offset: new gmath.Vector3(-2.0, -2.0, 2.0),
         angle: 10.0,
         scale: 0.7,
-        rotation: 0.1,
+        rotation: 6.0,
       },
       {
         offset: new gmath.Vector3(2.0, -2.0, 2.0),
         angle: 50.0,
         scale: 1.3,
-        rotation: 0.2,
+        rotation: 12.0,
       },
       {
         offset: new gmath.Vector3(-2.0, 2.0, 2.0),
         angle: 140.0,
         scale: 1.1,
-        rotation: 0.3,
+        rotation: 18.0,
       },
       {
         offset: new gmath.Vector3(2.0, 2.0, 2.0),
         angle: 210.0,
         scale: 0.9,
-        rotation: 0.4,
+        rotation: 24.0,
       },
     ];
 
-    const entityUniformSize = (4 * 4 * 4) + (4 * 4);
-    const numEntities = 1 + cubeDescs.length;
-    this.entityUniformBuffer = this.device.createBuffer({
-      size: numEntities * this.device.limits.minUniformBufferOffsetAlignment!,
-      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    const entityUniformSize = layoutOf(ENTITY).size;
+    this.entityUniforms = new UniformArena(this.device, {
+      label: "Entity Uniforms",
     });
 
     this.entities = [
@@ -255,11 +185,10 @@ class Shadow extends Framework {
         mxWorld: gmath.Matrix4.identity(),
         rotationSpeed: 0,
         color: [1, 1, 1, 1],
-        vertexBuffer: planeVertexBuffer,
-        indexBuffer: planeIndexBuffer,
-        indexFormat: "uint16",
-        indexCount: planeIndexData.length,
-        uniformOffset: 0,
+        ...planeBuffers,
+        indexFormat: planeMesh.indexFormat,
+        indexCount: planeMesh.indexCount,
+        uniformOffset: this.entityUniforms.allocate(entityUniformSize),
       },
     ];
 
@@ -276,39 +205,30 @@ class Shadow extends Framework {
         }),
         rotationSpeed: cube.rotation,
         color: [0, 1, 0, 1],
-        vertexBuffer: cubeVertexBuffer,
-        indexBuffer: cubeIndexBuffer,
-        indexFormat: "uint16",
-        indexCount: cubeIndexData.length,
-        uniformOffset: (i + 1) *
-          this.device.limits.minUniformBufferOffsetAlignment!,
+        ...cubeBuffers,
+        indexFormat: cubeMesh.indexFormat,
+        indexCount: cubeMesh.indexCount,
+        uniformOffset: this.entityUniforms.allocate(entityUniformSize),
       });
     }
 
-    const localBindGroupLayout = this.device.createBindGroupLayout({
-      entries: [
-        {
-          binding: 0,
-          visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
-          buffer: {
-            hasDynamicOffset: true,
-            minBindingSize: entityUniformSize,
-          },
-        },
-      ],
-    });
-    this.entityBindGroup = this.device.createBindGroup({
-      layout: localBindGroupLayout,
-      entries: [
-        {
-          binding: 0,
-          resource: {
-            buffer: this.entityUniformBuffer,
-            size: entityUniformSize,
-          },
+    const localLayoutEntries: GPUBindGroupLayoutEntry[] = [
+      {
+        binding: 0,
+        visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
+        buffer: {
+          hasDynamicOffset: true,
+          minBindingSize: entityUniformSize,
         },
-      ],
+      },
+    ];
+    const localBindGroupLayout = this.device.createBindGroupLayout({
+      entries: localLayoutEntries,
     });
+    this.entityBindGroup = this.entityUniforms.bindGroup(
+      localBindGroupLayout,
+      entityUniformSize,
+    );
 
     const shadowSampler = this.device.createSampler({
       label: "shadow",
@@ -359,37 +279,33 @@ class Shadow extends Framework {
         GPUBufferUsage.COPY_DST,
     });
 
-    const vertexBufferLayout: GPUVertexBufferLayout = {
-      arrayStride: vertexSize,
-      attributes: [
-        {
-          format: "sint8x4",
-          offset: 0,
-          shaderLocation: 0,
-        },
-        {
-          format: "sint8x4",
-          offset: 4,
-          shaderLocation: 1,
+    const shaderUrl = new URL("./shader.wgsl", import.meta.url);
+    const shader = await this.loadShader(shaderUrl);
+    // The layouts are written by hand to pick dynamic offsets and the kind
+    // of light buffer, so check them against the shader before use.
+    const reflection = await reflectWgslFile(shaderUrl);
+    const fragmentEntryPoint = supportStorageResources
+      ? "fs_main"
+      : "fs_main_without_storage";
+
+    const uniformSize = layoutOf(GLOBALS).size;
+    const shadowLayoutEntries: GPUBindGroupLayoutEntry[] = [
+      {
+        binding: 0,
+        visibility: GPUShaderStage.VERTEX,
+        buffer: {
+          minBindingSize: uniformSize,
         },
-      ],
-    };
-
-    const shader = this.device.createShaderModule({
-      code: Deno.readTextFileSync(new URL("./shader.wgsl", import.meta.url)),
+      },
+    ];
+    validateLayoutEntries(reflection, 0, shadowLayoutEntries, {
+      entryPoints: ["vs_bake"],
+    });
+    validateLayoutEntries(reflection, 1, localLayoutEntries, {
+      entryPoints: ["vs_bake"],
     });
-
-    const uniformSize = (4 * 4 * 4) + (4 * 4);
     const shadowBindGroupLayout = this.device.createBindGroupLayout({
-      entries: [
-        {
-          binding: 0,
-          visibility: GPUShaderStage.VERTEX,
-          buffer: {
-            minBindingSize: uniformSize,
-          },
-        },
-      ],
+      entries: shadowLayoutEntries,
     });
     const shadowPipelineLayout = this.device.createPipelineLayout({
       label: "shadow",
@@ -418,7 +334,7 @@ class Shadow extends Framework {
       vertex: {
         module: shader,
         entryPoint: "vs_bake",
-        buffers: [vertexBufferLayout],
+        buffers: [cubeMesh.layout],
       },
       primitive: {
         cullMode: "back",
@@ -441,58 +357,59 @@ class Shadow extends Framework {
       uniformBuffer: shadowUniformBuffer,
     };
 
-    const forwardBindGroupLayout = this.device.createBindGroupLayout({
-      entries: [
-        {
-          binding: 0,
-          visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
-          buffer: {
-            minBindingSize: uniformSize,
-          },
+    const forwardLayoutEntries: GPUBindGroupLayoutEntry[] = [
+      {
+        binding: 0,
+        visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
+        buffer: {
+          minBindingSize: uniformSize,
         },
-        {
-          binding: 1,
-          visibility: GPUShaderStage.FRAGMENT,
-          buffer: {
-            type: supportStorageResources ? "read-only-storage" : "uniform",
-            minBindingSize: lightUniformSize,
-          },
+      },
+      {
+        binding: 1,
+        visibility: GPUShaderStage.FRAGMENT,
+        buffer: {
+          type: supportStorageResources ? "read-only-storage" : "uniform",
+          minBindingSize: lightUniformSize,
         },
-        {
-          binding: 2,
-          visibility: GPUShaderStage.FRAGMENT,
-          texture: {
-            sampleType: "depth",
-            viewDimension: "2d-array",
-          },
+      },
+      {
+        binding: 2,
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: {
+          sampleType: "depth",
+          viewDimension: "2d-array",
         },
-        {
-          binding: 3,
-          visibility: GPUShaderStage.FRAGMENT,
-          sampler: {
-            type: "comparison",
-          },
+      },
+      {
+        binding: 3,
+        visibility: GPUShaderStage.FRAGMENT,
+        sampler: {
+          type: "comparison",
         },
-      ],
+      },
+    ];
+    validateLayoutEntries(reflection, 0, forwardLayoutEntries, {
+      entryPoints: ["vs_main", fragmentEntryPoint],
+    });
+    validateLayoutEntries(reflection, 1, localLayoutEntries, {
+      entryPoints: ["vs_main", fragmentEntryPoint],
+    });
+    const forwardBindGroupLayout = this.device.createBindGroupLayout({
+      entries: forwardLayoutEntries,
     });
     const forwardPipelineLayout = this.device.createPipelineLayout({
       label: "main",
       bindGroupLayouts: [forwardBindGroupLayout, localBindGroupLayout],
     });
 
-    const mxTotal = generateMatrix(
-      this.dimensions.width / this.dimensions.height,
-    );
-    const buffer = new ArrayBuffer(mxTotal.byteLength + (4 * 4));
-    const float32 = new Float32Array(buffer);
-    float32.set(mxTotal);
-    const uint32 = new Uint32Array(buffer);
-    uint32.set([this.lights.length, 0, 0, 0], uint32.length - 4);
-
     const forwardUniformBuffer = createBufferInit(this.device, {
       label: "Uniform Buffer",
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-      contents: buffer,
+      contents: packStruct(GLOBALS, {
+        view_proj: this.camera.viewProj(),
+        num_lights: [this.lights.length, 0, 0, 0],
+      }),
     });
 
     const forwardBindGroup = this.device.createBindGroup({
@@ -527,16 +444,14 @@ class Shadow extends Framework {
       vertex: {
         module: shader,
         entryPoint: "vs_main",
-        buffers: [vertexBufferLayout],
+        buffers: [cubeMesh.layout],
       },
       fragment: {
         module: shader,
-        entryPoint: supportStorageResources
-          ? "fs_main"
-          : "fs_main_without_storage",
+        entryPoint: fragmentEntryPoint,
         targets: [
           {
-            format: "rgba8unorm-srgb",
+            format: this.format,
           },
         ],
       },
@@ -558,31 +473,49 @@ class Shadow extends Framework {
       uniformBuffer: forwardUniformBuffer,
     };
 
-    this.depthTextureView = this.device.createTexture({
-      size: this.dimensions,
+    this.depthTexture = this.createScreenTexture({
       format: "depth32float",
       usage: GPUTextureUsage.RENDER_ATTACHMENT,
-    }).createView();
+    });
   }
 
-  render(encoder: GPUCommandEncoder, view: GPUTextureView) {
+  onResize(dimensions: Dimensions) {
+    this.camera.aspect = dimensions.width / dimensions.height;
+    this.writeCamera();
+  }
+
+  writeCamera() {
+    this.device.queue.writeBuffer(
+      this.forwardPass.uniformBuffer,
+      0,
+      this.camera.viewProj(),
+    );
+  }
+
+  update(dt: number) {
+    this.camera.update(dt);
+    this.writeCamera();
     for (const entity of this.entities) {
       if (entity.rotationSpeed != 0) {
         const rotation = gmath.Matrix4.fromAngleX(
-          new gmath.Deg(entity.rotationSpeed),
+          new gmath.Deg(entity.rotationSpeed * dt),
         );
         entity.mxWorld = entity.mxWorld.mul(rotation);
       }
-      const data = new Float32Array([
-        ...entity.mxWorld.toFloat32Array().slice(),
-        ...entity.color,
-      ]);
-      this.device.queue.writeBuffer(
-        this.entityUniformBuffer,
+    }
+  }
+
+  render(encoder: GPUCommandEncoder, view: GPUTextureView) {
+    for (const entity of this.entities) {
+      this.entityUniforms.write(
         entity.uniformOffset,
-        data,
+        packStruct(ENTITY, {
+          world: entity.mxWorld.toFloat32Array(),
+          color: entity.color,
+        }),
       );
     }
+    this.entityUniforms.flush();
 
     if (this.lightsAreDirty) {
       this.lightsAreDirty = false;
@@ -652,7 +585,7 @@ class Shadow extends Framework {
         },
       ],
       depthStencilAttachment: {
-        view: this.depthTextureView,
+        view: this.depthTexture.view,
         depthClearValue: 1,
         depthLoadOp: "clear",
         depthStoreOp: "discard",
@@ -672,16 +605,33 @@ class Shadow extends Framework {
   }
 }
 
+const args = parseExampleArgs({
+  name: "shadow",
+  description: "This animated example demonstrates shadow mapping.",
+  dimensions: {
+    width: 1600,
+    height: 1200,
+  },
+  options: {
+    orbitSpeed: {
+      type: "number",
+      default: 0,
+      description: "Degrees per second the camera circles the scene at",
+    },
+  },
+});
+
 const shadow = new Shadow(
   {
     maxLights: 10,
+    orbitSpeed: args.orbitSpeed,
     dimensions: {
-      width: 1600,
-      height: 1200,
+      width: args.width,
+      height: args.height,
     },
   },
   await Shadow.getDevice({
     requiredFeatures: ["depth-clip-control"],
   }),
 );
-await shadow.renderPng();
+await shadow.renderOutput(args);
@@ -1,104 +1,142 @@
-import { Framework } from "../framework.ts";
-import * as gmath from "gmath";
+import { Framework, ScreenTexture } from "../framework.ts";
+import { parseExampleArgs } from "../cli.ts";
+import { Camera, mat4, OrbitController } from "../camera.ts";
 import { Dds } from "dds";
-import * as obj from "obj";
 import { createTextureWithData } from "std/webgpu";
+import { buildMesh, createMeshBuffers, MeshOptions } from "../mesh.ts";
+import { computeBounds, loadCachedMesh } from "../mesh_cache.ts";
+import { loadMaterials, ObjModel, parseObj } from "../obj.ts";
+import { loadPngTexture } from "../textures.ts";
+import { createIblMaps, loadHdrCubemap } from "../environment.ts";
 import {
-  createBufferInit,
-  Dimensions,
-  OPENGL_TO_WGPU_MATRIX,
-} from "../utils.ts";
-
-interface Entity {
-  vertexCount: number;
-  vertexBuffer: GPUBuffer;
-}
+  compressionFeature,
+  createCompressedTexture,
+} from "../texture_compression.ts";
+import { createBufferInit, Dimensions, packStruct, wgsl } from "../utils.ts";
 
-interface Camera {
-  dimensions: Dimensions;
-  angleXZ: number;
-  angleY: number;
-  dist: number;
+/** Faces drawn with one material. */
+interface Group {
+  firstIndex: number;
+  indexCount: number;
+  bindGroup: GPUBindGroup;
 }
 
 const DEPTH_FORMAT = "depth24plus";
 const MODEL_CENTER_Y = 2;
 const IMAGE_SIZE = 128;
 
-function cameraToUniformData(camera: Camera): Float32Array {
-  const mxProjection = new gmath.PerspectiveFov(
-    new gmath.Deg(45),
-    camera.dimensions.width / camera.dimensions.height,
-    1,
-    50,
-  ).toPerspective().toMatrix4();
-  const camPos = new gmath.Vector3(
-    Math.cos(camera.angleXZ) * Math.sin(camera.angleY) * camera.dist,
-    Math.sin(camera.angleXZ) * camera.dist + MODEL_CENTER_Y,
-    Math.cos(camera.angleXZ) * Math.cos(camera.angleY) * camera.dist,
-  );
-  const mxView = gmath.Matrix4.lookAtRh(
-    camPos,
-    new gmath.Vector3(0, MODEL_CENTER_Y, 0),
-    gmath.Vector3.up(),
-  );
-  const proj = OPENGL_TO_WGPU_MATRIX.mul(mxProjection);
-  const projInvert = proj.invert();
-  const view = OPENGL_TO_WGPU_MATRIX.mul(mxView);
-  return new Float32Array([
-    ...proj.toFloat32Array(),
-    ...projInvert!.toFloat32Array(),
-    ...view.toFloat32Array(),
-    ...camPos.toFloat32Array(),
-    1,
-  ]);
+// The images of the sky in ./images, in order of preference.
+const SKY_FORMATS: Record<string, GPUTextureFormat> = {
+  astc: "astc-4x4-unorm-srgb",
+  etc2: "etc2-rgb8unorm-srgb",
+  bc1: "bc1-rgba-unorm-srgb",
+  bgra: "bgra8unorm-srgb",
+};
+
+// Mirrors `Data` in shader.wgsl.
+const DATA = wgsl.struct({
+  proj: wgsl.mat4x4f,
+  proj_inv: wgsl.mat4x4f,
+  view: wgsl.mat4x4f,
+  cam_pos: wgsl.vec4f,
+}, "Data");
+
+// Mirrors `Material` in shader.wgsl.
+const MATERIAL = wgsl.struct({
+  diffuse: wgsl.vec4f,
+  roughness: wgsl.f32,
+  metalness: wgsl.f32,
+}, "Material");
+
+function cameraToUniformData(camera: Camera): ArrayBuffer {
+  const proj = camera.proj();
+  return packStruct(DATA, {
+    proj,
+    proj_inv: mat4.invert(proj),
+    view: camera.view(),
+    cam_pos: [...camera.position, 1],
+  });
 }
 
 class Skybox extends Framework {
-  entities: Entity[] = [];
-  depthView!: GPUTextureView;
+  vertexBuffer!: GPUBuffer;
+  indexBuffer!: GPUBuffer;
+  indexFormat!: GPUIndexFormat;
+  groups: Group[] = [];
+  depthTexture!: ScreenTexture;
   camera!: Camera;
   skyPipeline!: GPURenderPipeline;
   entityPipeline!: GPURenderPipeline;
   bindGroup!: GPUBindGroup;
   uniformBuffer!: GPUBuffer;
+  skyFormat: string;
+  skyHdr: string;
+  skyFaceSize: number;
 
-  // deno-lint-ignore require-await
-  async init() {
-    const data = obj.Obj.parse(
-      Deno.readTextFileSync(
-        new URL("./models/teslacyberv3.0.obj", import.meta.url),
+  constructor(options: {
+    skyFormat: string;
+    skyHdr: string;
+    skyFaceSize: number;
+    dimensions: Dimensions;
+  }, device: GPUDevice) {
+    super(options.dimensions, device);
+
+    this.skyFormat = options.skyFormat;
+    this.skyHdr = options.skyHdr;
+    this.skyFaceSize = options.skyFaceSize;
+  }
+
+  /** Loads the sky cube map from the DDS image picked by `skyFormat`. */
+  loadSkyImage(): GPUTexture {
+    const skyImage = this.skyFormat === "auto"
+      ? Object.keys(SKY_FORMATS).find((name) => {
+        const feature = compressionFeature(SKY_FORMATS[name]);
+        return !feature || this.device.features.has(feature);
+      })!
+      : this.skyFormat;
+
+    const size: GPUExtent3D = {
+      width: IMAGE_SIZE,
+      height: IMAGE_SIZE,
+      depthOrArrayLayers: 6,
+    };
+
+    const maxMips = 32 - Math.clz32(Math.max(size.width!, size.height!));
+    const image = Dds.read(
+      Deno.readFileSync(
+        new URL(`./images/${skyImage}.dds`, import.meta.url),
       ),
-      {
-        strict: true,
-      },
-    );
-    let vertices = [];
-    for (const object of data.objects) {
-      for (const group of object.groups) {
-        vertices = [];
-        for (const poly of group.polys) {
-          for (let i = 2; i < poly.length; i++) {
-            for (const index of [0, i - 1, i]) {
-              const [pos, _, nor] = poly[index];
-              vertices.push(
-                ...data.position[pos],
-                ...data.normal[nor!],
-              );
-            }
-          }
-        }
-        const vertexBuffer = createBufferInit(this.device, {
-          label: "Vertex",
-          contents: new Float32Array(vertices).buffer,
-          usage: GPUBufferUsage.VERTEX,
-        });
-        this.entities.push({
-          vertexCount: vertices.length / 6,
-          vertexBuffer,
-        });
-      }
-    }
+    ).data;
+
+    // Decompressed on the CPU when the device lacks the format's feature.
+    return createCompressedTexture(this.device, {
+      size,
+      mipLevelCount: maxMips,
+      format: SKY_FORMATS[skyImage],
+      usage: GPUTextureUsage.TEXTURE_BINDING,
+    }, image);
+  }
+
+  async init() {
+    const modelUrl = new URL("./models/teslacyberv3.0.obj", import.meta.url);
+    const meshOptions: MeshOptions = {
+      attributes: ["position", "normal", "uv"],
+    };
+    const mesh = await loadCachedMesh(modelUrl, (file) => {
+      const { geometry, groups, materialLibraries } = parseObj(
+        new TextDecoder().decode(file),
+      );
+      return {
+        ...buildMesh(geometry, meshOptions),
+        bounds: computeBounds(geometry),
+        extras: { groups, materialLibraries },
+      };
+    }, { key: `obj ${JSON.stringify(meshOptions)}` });
+    const model = mesh.extras as Omit<ObjModel, "geometry">;
+    const materials = await loadMaterials(model, modelUrl);
+    ({ vertexBuffer: this.vertexBuffer, indexBuffer: this.indexBuffer } =
+      createMeshBuffers(this.device, mesh, "Model"));
+    this.indexFormat = mesh.indexFormat;
 
     const bindGroupLayout = this.device.createBindGroupLayout({
       entries: [
@@ -119,31 +157,64 @@ class Skybox extends Framework {
           visibility: GPUShaderStage.FRAGMENT,
           sampler: {},
         },
+        {
+          binding: 3,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: { viewDimension: "cube" },
+        },
+        {
+          binding: 4,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: { viewDimension: "cube" },
+        },
+        {
+          binding: 5,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: {},
+        },
       ],
     });
 
-    const shader = this.device.createShaderModule({
-      code: Deno.readTextFileSync(new URL("./shader.wgsl", import.meta.url)),
-    });
+    const shader = await this.loadShader(
+      new URL("./shader.wgsl", import.meta.url),
+    );
 
-    this.camera = {
-      dimensions: this.dimensions,
-      angleXZ: 0.2,
-      angleY: 0.2,
-      dist: 30.0,
-    };
+    this.camera = new Camera({
+      projection: { type: "perspective", fovY: 45, near: 1, far: 50 },
+      aspect: this.dimensions.width / this.dimensions.height,
+      controller: new OrbitController({
+        target: [0, MODEL_CENTER_Y, 0],
+        distance: 14.5,
+        azimuth: 0.2,
+        elevation: 0.2,
+      }),
+    });
     this.uniformBuffer = createBufferInit(this.device, {
       label: "Buffer",
-      contents: cameraToUniformData(this.camera).buffer,
+      contents: cameraToUniformData(this.camera),
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
     });
 
-    const pipelineLayout = this.device.createPipelineLayout({
-      bindGroupLayouts: [bindGroupLayout],
+    const materialBindGroupLayout = this.device.createBindGroupLayout({
+      entries: [
+        {
+          binding: 0,
+          visibility: GPUShaderStage.FRAGMENT,
+          buffer: {},
+        },
+        {
+          binding: 1,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: {},
+        },
+      ],
     });
+
     this.skyPipeline = this.device.createRenderPipeline({
       label: "Sky",
-      layout: pipelineLayout,
+      layout: this.device.createPipelineLayout({
+        bindGroupLayouts: [bindGroupLayout],
+      }),
       vertex: {
         module: shader,
         entryPoint: "vs_sky",
@@ -153,7 +224,7 @@ class Skybox extends Framework {
         entryPoint: "fs_sky",
         targets: [
           {
-            format: "rgba8unorm-srgb",
+            format: this.format,
           },
         ],
       },
@@ -171,34 +242,20 @@ class Skybox extends Framework {
 
     this.entityPipeline = this.device.createRenderPipeline({
       label: "Entity",
-      layout: pipelineLayout,
+      layout: this.device.createPipelineLayout({
+        bindGroupLayouts: [bindGroupLayout, materialBindGroupLayout],
+      }),
       vertex: {
         module: shader,
         entryPoint: "vs_entity",
-        buffers: [
-          {
-            arrayStride: (4 * 3) + (4 * 3),
-            attributes: [
-              {
-                format: "float32x3",
-                offset: 0,
-                shaderLocation: 0,
-              },
-              {
-                format: "float32x3",
-                offset: 12,
-                shaderLocation: 1,
-              },
-            ],
-          },
-        ],
+        buffers: [mesh.layout],
       },
       fragment: {
         module: shader,
         entryPoint: "fs_entity",
         targets: [
           {
-            format: "rgba8unorm-srgb",
+            format: this.format,
           },
         ],
       },
@@ -220,44 +277,18 @@ class Skybox extends Framework {
       mipmapFilter: "linear",
     });
 
-    let skyboxFormat!: GPUTextureFormat;
-    // deno-lint-ignore no-constant-condition
-    if (this.device.features.has("texture-compression-astc") && false) {
-      skyboxFormat = "astc-4x4-unorm-srgb";
-    } else if (this.device.features.has("texture-compression-etc2")) {
-      skyboxFormat = "etc2-rgb8unorm-srgb";
-    } else if (this.device.features.has("texture-compression-bc")) {
-      skyboxFormat = "bc1-rgba-unorm-srgb";
-    } else {
-      skyboxFormat = "bgra8unorm-srgb";
-    }
-
-    const size: GPUExtent3D = {
-      width: IMAGE_SIZE,
-      height: IMAGE_SIZE,
-      depthOrArrayLayers: 6,
-    };
-
-    const maxMips = 32 - Math.clz32(Math.max(size.width!, size.height!));
-    const image = Dds.read(
-      Deno.readFileSync(
-        new URL(
-          `./images/${skyboxFormat.split(/[^a-zA-Z12]+/)[0]}.dds`,
-          import.meta.url,
-        ),
-      ),
-    ).data;
-
-    const texture = createTextureWithData(this.device, {
-      size,
-      mipLevelCount: maxMips,
-      format: skyboxFormat,
-      usage: GPUTextureUsage.TEXTURE_BINDING,
-    }, image);
+    // A panorama is converted into a cube map on the GPU.
+    const texture = this.skyHdr
+      ? await loadHdrCubemap(this.device, this.skyHdr, {
+        label: "Sky",
+        faceSize: this.skyFaceSize,
+      })
+      : this.loadSkyImage();
 
     const textureView = texture.createView({
       dimension: "cube",
     });
+    const ibl = createIblMaps(this.device, texture);
     this.bindGroup = this.device.createBindGroup({
       layout: bindGroupLayout,
       entries: [
@@ -275,15 +306,84 @@ class Skybox extends Framework {
           binding: 2,
           resource: sampler,
         },
+        {
+          binding: 3,
+          resource: ibl.irradiance.createView({ dimension: "cube" }),
+        },
+        {
+          binding: 4,
+          resource: ibl.specular.createView({ dimension: "cube" }),
+        },
+        {
+          binding: 5,
+          resource: ibl.brdfLut.createView(),
+        },
       ],
     });
 
-    const depthTexture = this.device.createTexture({
-      size: this.dimensions,
+    const whiteTexture = createTextureWithData(this.device, {
+      label: "White",
+      size: [1, 1],
+      format: "rgba8unorm-srgb",
+      usage: GPUTextureUsage.TEXTURE_BINDING,
+    }, new Uint8Array([255, 255, 255, 255]));
+    const materialBindGroups = new Map<string, GPUBindGroup>();
+    for (const [name, material] of materials) {
+      materialBindGroups.set(
+        name,
+        this.device.createBindGroup({
+          label: `Material ${name}`,
+          layout: materialBindGroupLayout,
+          entries: [
+            {
+              binding: 0,
+              resource: {
+                buffer: createBufferInit(this.device, {
+                  label: `Material ${name}`,
+                  contents: packStruct(MATERIAL, {
+                    diffuse: [...material.diffuse, material.opacity],
+                    // Without PBR values, the specular exponent gives a
+                    // roughness that roughly matches the Blinn-Phong lobe.
+                    roughness: material.roughness ??
+                      (2 / (material.shininess + 2)) ** 0.25,
+                    metalness: material.metalness ?? 0,
+                  }),
+                  usage: GPUBufferUsage.UNIFORM,
+                }),
+              },
+            },
+            {
+              binding: 1,
+              resource: (material.diffuseMap
+                ? await loadPngTexture(this.device, material.diffuseMap, {
+                  colorSpace: "srgb",
+                  mipmaps: true,
+                })
+                : whiteTexture).createView(),
+            },
+          ],
+        }),
+      );
+    }
+    this.groups = model.groups.map((group) => ({
+      firstIndex: group.firstIndex,
+      indexCount: group.indexCount,
+      bindGroup: materialBindGroups.get(group.material!)!,
+    }));
+
+    this.depthTexture = this.createScreenTexture({
       format: DEPTH_FORMAT,
       usage: GPUTextureUsage.RENDER_ATTACHMENT,
     });
-    this.depthView = depthTexture.createView();
+  }
+
+  onResize(dimensions: Dimensions) {
+    this.camera.aspect = dimensions.width / dimensions.height;
+    this.device.queue.writeBuffer(
+      this.uniformBuffer,
+      0,
+      cameraToUniformData(this.camera),
+    );
   }
 
   render(encoder: GPUCommandEncoder, view: GPUTextureView) {
@@ -297,7 +397,7 @@ class Skybox extends Framework {
         },
       ],
       depthStencilAttachment: {
-        view: this.depthView,
+        view: this.depthTexture.view,
 
         depthClearValue: 1,
         depthLoadOp: "clear",
@@ -311,9 +411,11 @@ class Skybox extends Framework {
 
     renderPass.setBindGroup(0, this.bindGroup);
     renderPass.setPipeline(this.entityPipeline);
-    for (const entity of this.entities) {
-      renderPass.setVertexBuffer(0, entity.vertexBuffer);
-      renderPass.draw(entity.vertexCount);
+    renderPass.setVertexBuffer(0, this.vertexBuffer);
+    renderPass.setIndexBuffer(this.indexBuffer, this.indexFormat);
+    for (const group of this.groups) {
+      renderPass.setBindGroup(1, group.bindGroup);
+      renderPass.drawIndexed(group.indexCount, 1, group.firstIndex);
     }
     renderPass.setPipeline(this.skyPipeline);
     renderPass.draw(3);
@@ -321,11 +423,50 @@ class Skybox extends Framework {
   }
 }
 
-const skybox = new Skybox(
-  {
+const args = parseExampleArgs({
+  name: "skybox",
+  description:
+    "This example demonstrates loading a Wavefront OBJ model with its MTL materials, and rendering it with skybox and image-based lighting.",
+  dimensions: {
     width: 1600,
     height: 1200,
   },
+  options: {
+    skyFormat: {
+      type: "string",
+      default: "auto",
+      description:
+        "Sky image to load, decompressed on the CPU if the adapter lacks " +
+        "its format; auto picks the first supported one",
+      choices: ["auto", ...Object.keys(SKY_FORMATS)],
+    },
+    skyHdr: {
+      type: "string",
+      default: "",
+      description:
+        "Radiance .hdr panorama to use as the sky instead of the images",
+    },
+    skyFaceSize: {
+      type: "number",
+      default: 512,
+      description: "Face size of the cube map an .hdr panorama is turned into",
+      integer: true,
+      min: 1,
+      max: 4096,
+    },
+  },
+});
+
+const skybox = new Skybox(
+  {
+    skyFormat: args.skyFormat,
+    skyHdr: args.skyHdr,
+    skyFaceSize: args.skyFaceSize,
+    dimensions: {
+      width: args.width,
+      height: args.height,
+    },
+  },
   await Skybox.getDevice({
     optionalFeatures: [
       "texture-compression-astc",
@@ -334,4 +475,4 @@ const skybox = new Skybox(
     ],
   }),
 );
-await skybox.renderPng();
+await skybox.renderOutput(args);
@@ -43,15 +43,18 @@ struct EntityOutput {
     @builtin(position) position: vec4<f32>,
     @location(1) normal: vec3<f32>,
     @location(3) view: vec3<f32>,
+    @location(4) uv: vec2<f32>,
 };
 
 @vertex
 fn vs_entity(
     @location(0) pos: vec3<f32>,
     @location(1) normal: vec3<f32>,
+    @location(2) uv: vec2<f32>,
 ) -> EntityOutput {
     var result: EntityOutput;
     result.normal = normal;
+    result.uv = uv;
     result.view = pos - r_data.cam_pos.xyz;
     result.position = r_data.proj * r_data.view * vec4<f32>(pos, 1.0);
     return result;
@@ -69,12 +72,48 @@ fn fs_sky(vertex: SkyOutput) -> @location(0) vec4<f32> {
     return textureSample(r_texture, r_sampler, vertex.uv);
 }
 
+struct Material {
+    // rgb is the diffuse color, a the opacity
+    diffuse: vec4<f32>,
+    roughness: f32,
+    metalness: f32,
+};
+@group(1)
+@binding(0)
+var<uniform> r_material: Material;
+@group(1)
+@binding(1)
+var r_diffuse_map: texture_2d<f32>;
+
+// Image-based lighting generated from the sky.
+@group(0)
+@binding(3)
+var r_irradiance: texture_cube<f32>;
+@group(0)
+@binding(4)
+var r_specular: texture_cube<f32>;
+@group(0)
+@binding(5)
+var r_brdf_lut: texture_2d<f32>;
+
 @fragment
 fn fs_entity(vertex: EntityOutput) -> @location(0) vec4<f32> {
-    let incident = normalize(vertex.view);
+    let to_camera = -normalize(vertex.view);
     let normal = normalize(vertex.normal);
-    let reflected = incident - 2.0 * dot(normal, incident) * normal;
+    let reflected = reflect(-to_camera, normal);
+    let n_dot_v = max(dot(normal, to_camera), 1e-4);
+
+    let albedo = r_material.diffuse.rgb * textureSample(r_diffuse_map, r_sampler, vertex.uv).rgb;
+    let roughness = r_material.roughness;
+    let f0 = mix(vec3<f32>(0.04), albedo, r_material.metalness);
+    // Schlick's Fresnel, damped for rough surfaces.
+    let fresnel = f0 + (max(vec3<f32>(1.0 - roughness), f0) - f0) * pow(1.0 - n_dot_v, 5.0);
+    let diffuse = (1.0 - fresnel) * (1.0 - r_material.metalness) * albedo *
+        textureSampleLevel(r_irradiance, r_sampler, normal, 0.0).rgb;
 
-    let reflected_color = textureSample(r_texture, r_sampler, reflected).rgb;
-    return vec4<f32>(vec3<f32>(0.1) + 0.5 * reflected_color, 1.0);
+    let max_lod = f32(textureNumLevels(r_specular) - 1u);
+    let prefiltered = textureSampleLevel(r_specular, r_sampler, reflected, roughness * max_lod).rgb;
+    let brdf = textureSampleLevel(r_brdf_lut, r_sampler, vec2<f32>(n_dot_v, roughness), 0.0).rg;
+    let specular = prefiltered * (fresnel * brdf.x + brdf.y);
+    return vec4<f32>(diffuse + specular, 1.0);
 }
@@ -0,0 +1,1370 @@
+import { createTextureWithData } from "std/webgpu";
+
+/** Texels expanded from compressed blocks, and the format they are in. */
+export interface DecompressedTexture {
+  format: GPUTextureFormat;
+  data: Uint8Array;
+}
+
+/** How a compressed format is stored and decoded. */
+interface BlockFormat {
+  blockWidth: number;
+  blockHeight: number;
+  /** Bytes per block. */
+  blockSize: number;
+  /** The uncompressed format the blocks expand to. */
+  format: GPUTextureFormat;
+  /** Writes the RGBA texels of `block`, row by row, to `out`. */
+  decode(block: Uint8Array, out: Uint8Array | Uint16Array): void;
+}
+
+/** Bit `start` onwards of little-endian `data`, `count` bits at most 32. */
+function readBits(data: Uint8Array, start: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) {
+    const bit = start + i;
+    value |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+  }
+  return value >>> 0;
+}
+
+const clampByte = (value: number) => Math.min(255, Math.max(0, value));
+
+// BC1-BC5
+
+/** Expands an RGB565 color to 8 bits per channel. */
+function rgb565(color: number): number[] {
+  const r = color >> 11, g = (color >> 5) & 0x3f, b = color & 0x1f;
+  return [(r << 3) | (r >> 2), (g << 2) | (g >> 4), (b << 3) | (b >> 2), 255];
+}
+
+/**
+ * Decodes the color half of BC1-BC3 blocks. Only BC1 has the three color mode
+ * with transparent black.
+ */
+function decodeBc1(block: Uint8Array, out: Uint8Array, bc1 = true) {
+  const c0 = block[0] | (block[1] << 8);
+  const c1 = block[2] | (block[3] << 8);
+  const e0 = rgb565(c0), e1 = rgb565(c1);
+  const palette = [e0, e1];
+  if (c0 > c1 || !bc1) {
+    palette.push(
+      e0.map((value, i) => Math.round((2 * value + e1[i]) / 3)),
+      e0.map((value, i) => Math.round((value + 2 * e1[i]) / 3)),
+    );
+  } else {
+    palette.push(e0.map((value, i) => (value + e1[i] + 1) >> 1), [0, 0, 0, 0]);
+  }
+  for (let i = 0; i < 16; i++) {
+    out.set(palette[readBits(block, 32 + i * 2, 2)], i * 4);
+  }
+}
+
+/**
+ * Decodes a BC3 alpha or BC4 channel block into channel `channel` of `out`,
+ * with signed values stored as two's complement bytes.
+ */
+function decodeBc4(
+  block: Uint8Array,
+  out: Uint8Array,
+  channel: number,
+  signed = false,
+) {
+  let a0 = block[0], a1 = block[1];
+  if (signed) {
+    a0 = Math.max(-127, (a0 << 24) >> 24);
+    a1 = Math.max(-127, (a1 << 24) >> 24);
+  }
+  const palette = [a0, a1];
+  if (a0 > a1) {
+    for (let i = 1; i < 7; i++) {
+      palette.push(Math.round(((7 - i) * a0 + i * a1) / 7));
+    }
+  } else {
+    for (let i = 1; i < 5; i++) {
+      palette.push(Math.round(((5 - i) * a0 + i * a1) / 5));
+    }
+    palette.push(signed ? -127 : 0, signed ? 127 : 255);
+  }
+  for (let i = 0; i < 16; i++) {
+    out[i * 4 + channel] = palette[readBits(block, 16 + i * 3, 3)] & 0xff;
+  }
+}
+
+function decodeBc2(block: Uint8Array, out: Uint8Array) {
+  decodeBc1(block.subarray(8), out, false);
+  for (let i = 0; i < 16; i++) out[i * 4 + 3] = readBits(block, i * 4, 4) * 17;
+}
+
+function decodeBc3(block: Uint8Array, out: Uint8Array) {
+  decodeBc1(block.subarray(8), out, false);
+  decodeBc4(block, out, 3);
+}
+
+/** Decodes BC4 and BC5 blocks, with channels after `channels` cleared. */
+function decodeBc45(
+  block: Uint8Array,
+  out: Uint8Array,
+  channels: number,
+  signed: boolean,
+) {
+  for (let i = 0; i < 16; i++) {
+    out.set([0, 0, 0, signed ? 127 : 255], i * 4);
+  }
+  for (let channel = 0; channel < channels; channel++) {
+    decodeBc4(block.subarray(channel * 8), out, channel, signed);
+  }
+}
+
+// BC6H and BC7
+
+// The subset of each texel in the partitions of two subsets, one bit each.
+// deno-fmt-ignore
+const PARTITIONS_2 = [
+  0xcccc, 0x8888, 0xeeee, 0xecc8, 0xc880, 0xfeec, 0xfec8, 0xec80,
+  0xc800, 0xffec, 0xfe80, 0xe800, 0xffe8, 0xff00, 0xfff0, 0xf000,
+  0xf710, 0x008e, 0x7100, 0x08ce, 0x008c, 0x7310, 0x3100, 0x8cce,
+  0x088c, 0x3110, 0x6666, 0x366c, 0x17e8, 0x0ff0, 0x718e, 0x399c,
+  0xaaaa, 0xf0f0, 0x5a5a, 0x33cc, 0x3c3c, 0x55aa, 0x9696, 0xa55a,
+  0x73ce, 0x13c8, 0x324c, 0x3bdc, 0x6996, 0xc33c, 0x9966, 0x0660,
+  0x0272, 0x04e4, 0x4e40, 0x2720, 0xc936, 0x936c, 0x39c6, 0x639c,
+  0x9336, 0x9cc6, 0x817e, 0xe718, 0xccf0, 0x0fcc, 0x7744, 0xee22,
+];
+
+// The subset of each texel in the partitions of three subsets, two bits each.
+// deno-fmt-ignore
+const PARTITIONS_3 = [
+  0xaa685050, 0x6a5a5040, 0x5a5a4200, 0x5450a0a8, 0xa5a50000, 0xa0a05050,
+  0x5555a0a0, 0x5a5a5050, 0xaa550000, 0xaa555500, 0xaaaa5500, 0x90909090,
+  0x94949494, 0xa4a4a4a4, 0xa9a59450, 0x2a0a4250, 0xa5945040, 0x0a425054,
+  0xa5a5a500, 0x55a0a0a0, 0xa8a85454, 0x6a6a4040, 0xa4a45000, 0x1a1a0500,
+  0x0050a4a4, 0xaaa59090, 0x14696914, 0x69691400, 0xa08585a0, 0xaa821414,
+  0x50a4a450, 0x6a5a0200, 0xa9a58000, 0x5090a0a8, 0xa8a09050, 0x24242424,
+  0x00aa5500, 0x24924924, 0x24499224, 0x50a50a50, 0x500aa550, 0xaaaa4444,
+  0x66660000, 0xa5a0a5a0, 0x50a050a0, 0x69286928, 0x44aaaa44, 0x66666600,
+  0xaa444444, 0x54a854a8, 0x95809580, 0x96969600, 0xa85454a8, 0x80959580,
+  0xaa141414, 0x96960000, 0xaaaa1414, 0xa05050a0, 0xa0a5a5a0, 0x96000000,
+  0x40804080, 0xa9a8a9a8, 0xaaaaaa44, 0x2a4a5254,
+];
+
+// The texels whose index has an implicit zero top bit, per subset after the
+// first, which always has texel 0.
+// deno-fmt-ignore
+const ANCHORS_2 = [
+  15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15,
+  15, 2, 8, 2, 2, 8, 8, 15, 2, 8, 2, 2, 8, 8, 2, 2,
+  15, 15, 6, 8, 2, 8, 15, 15, 2, 8, 2, 2, 2, 15, 15, 6,
+  6, 2, 6, 8, 15, 15, 2, 2, 15, 15, 15, 15, 15, 2, 2, 15,
+];
+// deno-fmt-ignore
+const ANCHORS_3A = [
+  3, 3, 15, 15, 8, 3, 15, 15, 8, 8, 6, 6, 6, 5, 3, 3,
+  3, 3, 8, 15, 3, 3, 6, 10, 5, 8, 8, 6, 8, 5, 15, 15,
+  8, 15, 3, 5, 6, 10, 8, 15, 15, 3, 15, 5, 15, 15, 15, 15,
+  3, 15, 5, 5, 5, 8, 5, 10, 5, 10, 8, 13, 15, 12, 3, 3,
+];
+// deno-fmt-ignore
+const ANCHORS_3B = [
+  15, 8, 8, 3, 15, 15, 3, 8, 15, 15, 15, 15, 15, 15, 15, 8,
+  15, 8, 15, 3, 15, 8, 15, 8, 3, 15, 6, 10, 15, 15, 10, 8,
+  15, 3, 15, 10, 10, 8, 9, 10, 6, 15, 8, 15, 3, 6, 6, 8,
+  15, 3, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 3, 15, 15, 8,
+];
+
+const WEIGHTS: Record<number, number[]> = {
+  2: [0, 21, 43, 64],
+  3: [0, 9, 18, 27, 37, 46, 55, 64],
+  4: [0, 4, 9, 13, 17, 21, 26, 30, 34, 38, 43, 47, 51, 55, 60, 64],
+};
+
+/** The subset of every texel of a partition, and the anchor texels. */
+function partition(subsets: number, index: number) {
+  const texels = Array.from(
+    { length: 16 },
+    (_, i) =>
+      subsets === 1
+        ? 0
+        : subsets === 2
+        ? (PARTITIONS_2[index] >> i) & 1
+        : (PARTITIONS_3[index] >>> (i * 2)) & 3,
+  );
+  const anchors = subsets === 1
+    ? [0]
+    : subsets === 2
+    ? [0, ANCHORS_2[index]]
+    : [0, ANCHORS_3A[index], ANCHORS_3B[index]];
+  return { texels, anchors };
+}
+
+/** Reads the indices of 16 texels, one bit shorter at the anchors. */
+function readIndices(
+  block: Uint8Array,
+  start: number,
+  bits: number,
+  anchors: number[],
+): number[] {
+  const indices = [];
+  for (let i = 0; i < 16; i++) {
+    const count = anchors.includes(i) ? bits - 1 : bits;
+    indices.push(readBits(block, start, count));
+    start += count;
+  }
+  return indices;
+}
+
+// Subsets, partition bits, rotation bits, index selection bits, color bits,
+// alpha bits, endpoint P-bits, shared P-bits, index bits and second index
+// bits of the BC7 modes.
+const BC7_MODES = [
+  [3, 4, 0, 0, 4, 0, 1, 0, 3, 0],
+  [2, 6, 0, 0, 6, 0, 0, 1, 3, 0],
+  [3, 6, 0, 0, 5, 0, 0, 0, 2, 0],
+  [2, 6, 0, 0, 7, 0, 1, 0, 2, 0],
+  [1, 0, 2, 1, 5, 6, 0, 0, 2, 3],
+  [1, 0, 2, 0, 7, 8, 0, 0, 2, 2],
+  [1, 0, 0, 0, 7, 7, 1, 0, 4, 0],
+  [2, 6, 0, 0, 5, 5, 1, 0, 2, 0],
+];
+
+function decodeBc7(block: Uint8Array, out: Uint8Array) {
+  const mode = BC7_MODES.findIndex((_, i) => (block[0] >> i) & 1);
+  if (mode === -1) {
+    out.fill(0);
+    return;
+  }
+  const [
+    subsets,
+    partitionBits,
+    rotationBits,
+    selectionBits,
+    colorBits,
+    alphaBits,
+    endpointPBits,
+    sharedPBits,
+    indexBits,
+    indexBits2,
+  ] = BC7_MODES[mode];
+  let position = mode + 1;
+  const read = (count: number) => {
+    const value = readBits(block, position, count);
+    position += count;
+    return value;
+  };
+  const { texels, anchors } = partition(subsets, read(partitionBits));
+  const rotation = read(rotationBits);
+  const selection = read(selectionBits);
+
+  // Endpoints are stored channel by channel, two per subset.
+  const endpoints = Array.from({ length: subsets * 2 }, () => [0, 0, 0, 255]);
+  for (let channel = 0; channel < (alphaBits ? 4 : 3); channel++) {
+    for (const endpoint of endpoints) {
+      endpoint[channel] = read(channel === 3 ? alphaBits : colorBits);
+    }
+  }
+  const pBits = endpointPBits
+    ? endpoints.map(() => read(1))
+    : sharedPBits
+    ? Array.from({ length: subsets }, () => read(1)).flatMap((p) => [p, p])
+    : undefined;
+  endpoints.forEach((endpoint, i) => {
+    for (let channel = 0; channel < (alphaBits ? 4 : 3); channel++) {
+      let bits = channel === 3 ? alphaBits : colorBits;
+      let value = endpoint[channel];
+      if (pBits) {
+        value = (value << 1) | pBits[i];
+        bits++;
+      }
+      endpoint[channel] = (value << (8 - bits)) | (value >> (2 * bits - 8));
+    }
+  });
+
+  const indices = readIndices(block, position, indexBits, anchors);
+  position += 16 * indexBits - anchors.length;
+  const indices2 = indexBits2
+    ? readIndices(block, position, indexBits2, [0])
+    : undefined;
+
+  for (let i = 0; i < 16; i++) {
+    const e0 = endpoints[texels[i] * 2], e1 = endpoints[texels[i] * 2 + 1];
+    let colorWeight = WEIGHTS[indexBits][indices[i]];
+    let alphaWeight = colorWeight;
+    if (indices2) {
+      alphaWeight = WEIGHTS[indexBits2][indices2[i]];
+      if (selection) [colorWeight, alphaWeight] = [alphaWeight, colorWeight];
+    }
+    const texel = e0.map((value, channel) => {
+      const weight = channel === 3 ? alphaWeight : colorWeight;
+      return ((64 - weight) * value + weight * e1[channel] + 32) >> 6;
+    });
+    if (rotation) {
+      [texel[3], texel[rotation - 1]] = [texel[rotation - 1], texel[3]];
+    }
+    out.set(texel, i * 4);
+  }
+}
+
+// The bits of the BC6H modes after the mode bits, as the endpoint (w to z)
+// and channel (r, g or b) they belong to and the bits they hold, high to low
+// for reversed runs. The layouts follow the BC6H specification.
+const BC6H_LAYOUTS = [
+  "gy4 by4 bz4 rw0-9 gw0-9 bw0-9 rx0-4 gz4 gy0-3 gx0-4 bz0 gz0-3 bx0-4 bz1 by0-3 ry0-4 bz2 rz0-4 bz3",
+  "gy5 gz4 gz5 rw0-6 bz0 bz1 by4 gw0-6 by5 bz2 gy4 bw0-6 bz3 bz5 bz4 rx0-5 gy0-3 gx0-5 gz0-3 bx0-5 by0-3 ry0-5 rz0-5",
+  "rw0-9 gw0-9 bw0-9 rx0-4 rw10 gy0-3 gx0-3 gw10 bz0 gz0-3 bx0-3 bw10 bz1 by0-3 ry0-4 bz2 rz0-4 bz3",
+  "rw0-9 gw0-9 bw0-9 rx0-3 rw10 gz4 gy0-3 gx0-4 gw10 gz0-3 bx0-3 bw10 bz1 by0-3 ry0-3 bz0 bz2 rz0-3 gy4 bz3",
+  "rw0-9 gw0-9 bw0-9 rx0-3 rw10 by4 gy0-3 gx0-3 gw10 bz0 gz0-3 bx0-4 bw10 by0-3 ry0-3 bz1 bz2 rz0-3 bz4 bz3",
+  "rw0-8 by4 gw0-8 gy4 bw0-8 bz4 rx0-4 gz4 gy0-3 gx0-4 bz0 gz0-3 bx0-4 bz1 by0-3 ry0-4 bz2 rz0-4 bz3",
+  "rw0-7 gz4 by4 gw0-7 bz2 gy4 bw0-7 bz3 bz4 rx0-5 gy0-3 gx0-4 bz0 gz0-3 bx0-4 bz1 by0-3 ry0-5 rz0-5",
+  "rw0-7 bz0 by4 gw0-7 gy5 gy4 bw0-7 gz5 bz4 rx0-4 gz4 gy0-3 gx0-5 gz0-3 bx0-4 bz1 by0-3 ry0-4 bz2 rz0-4 bz3",
+  "rw0-7 bz1 by4 gw0-7 by5 gy4 bw0-7 bz5 bz4 rx0-4 gz4 gy0-3 gx0-4 bz0 gz0-3 bx0-5 by0-3 ry0-4 bz2 rz0-4 bz3",
+  "rw0-5 gz4 bz0 bz1 by4 gw0-5 gy5 by5 bz2 gy4 bw0-5 gz5 bz3 bz5 bz4 rx0-5 gy0-3 gx0-5 gz0-3 bx0-5 by0-3 ry0-5 rz0-5",
+  "rw0-9 gw0-9 bw0-9 rx0-9 gx0-9 bx0-9",
+  "rw0-9 gw0-9 bw0-9 rx0-8 rw10 gx0-8 gw10 bx0-8 bw10",
+  "rw0-9 gw0-9 bw0-9 rx0-7 rw11-10 gx0-7 gw11-10 bx0-7 bw11-10",
+  "rw0-9 gw0-9 bw0-9 rx0-3 rw15-10 gx0-3 gw15-10 bx0-3 bw15-10",
+].map((layout) =>
+  layout.split(" ").flatMap((run) => {
+    const [, channel, endpoint, from, to = from] = run.match(
+      /^([rgb])([wxyz])(\d+)(?:-(\d+))?$/,
+    )!;
+    const step = Number(to) >= Number(from) ? 1 : -1;
+    return Array.from(
+      { length: Math.abs(Number(to) - Number(from)) + 1 },
+      (_, i) => ({
+        endpoint: "wxyz".indexOf(endpoint),
+        channel: "rgb".indexOf(channel),
+        bit: Number(from) + i * step,
+      }),
+    );
+  })
+);
+
+// The mode bits, subsets, endpoint bits, delta bits per channel and whether
+// the other endpoints are stored as deltas from the first, per BC6H mode.
+const BC6H_MODES = [
+  [0x00, 2, 10, [5, 5, 5], true],
+  [0x01, 2, 7, [6, 6, 6], true],
+  [0x02, 2, 11, [5, 4, 4], true],
+  [0x06, 2, 11, [4, 5, 4], true],
+  [0x0a, 2, 11, [4, 4, 5], true],
+  [0x0e, 2, 9, [5, 5, 5], true],
+  [0x12, 2, 8, [6, 5, 5], true],
+  [0x16, 2, 8, [5, 6, 5], true],
+  [0x1a, 2, 8, [5, 5, 6], true],
+  [0x1e, 2, 6, [6, 6, 6], false],
+  [0x03, 1, 10, [10, 10, 10], false],
+  [0x07, 1, 11, [9, 9, 9], true],
+  [0x0b, 1, 12, [8, 8, 8], true],
+  [0x0f, 1, 16, [4, 4, 4], true],
+] as const;
+
+const signExtend = (value: number, bits: number) =>
+  (value << (32 - bits)) >> (32 - bits);
+
+/** Decodes BC6H blocks to half floats, with an alpha of 1. */
+function decodeBc6h(block: Uint8Array, out: Uint16Array, signed: boolean) {
+  const modeBits = readBits(block, 0, 2) < 2 ? 2 : 5;
+  const modeIndex = BC6H_MODES.findIndex(([bits], i) =>
+    (i < 2) === (modeBits === 2) && bits === readBits(block, 0, modeBits)
+  );
+  if (modeIndex === -1) {
+    for (let i = 0; i < 16; i++) out.set([0, 0, 0, 0x3c00], i * 4);
+    return;
+  }
+  const [, subsets, endpointBits, deltaBits, transformed] =
+    BC6H_MODES[modeIndex];
+  const endpoints = [[0, 0, 0], [0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  let position = modeBits;
+  for (const { endpoint, channel, bit } of BC6H_LAYOUTS[modeIndex]) {
+    endpoints[endpoint][channel] |= readBits(block, position++, 1) << bit;
+  }
+  const partitionIndex = subsets === 2 ? readBits(block, position, 5) : 0;
+  position += subsets === 2 ? 5 : 0;
+
+  for (let channel = 0; channel < 3; channel++) {
+    const base = endpoints[0];
+    if (signed) base[channel] = signExtend(base[channel], endpointBits);
+    for (let i = 1; i < subsets * 2; i++) {
+      const endpoint = endpoints[i];
+      if (transformed || signed) {
+        endpoint[channel] = signExtend(
+          endpoint[channel],
+          transformed ? deltaBits[channel] : endpointBits,
+        );
+      }
+      if (transformed) {
+        endpoint[channel] = (base[channel] + endpoint[channel]) &
+          ((1 << endpointBits) - 1);
+        if (signed) {
+          endpoint[channel] = signExtend(endpoint[channel], endpointBits);
+        }
+      }
+    }
+  }
+
+  const unquantize = (value: number) => {
+    if (!signed) {
+      if (endpointBits >= 15) return value;
+      if (value === 0) return 0;
+      if (value === (1 << endpointBits) - 1) return 0xffff;
+      return ((value << 16) + 0x8000) >> endpointBits;
+    }
+    if (endpointBits >= 16) return value;
+    const magnitude = Math.abs(value);
+    const result = magnitude === 0
+      ? 0
+      : magnitude >= (1 << (endpointBits - 1)) - 1
+      ? 0x7fff
+      : ((magnitude << 15) + 0x4000) >> (endpointBits - 1);
+    return value < 0 ? -result : result;
+  };
+  const colors = endpoints.map((endpoint) => endpoint.map(unquantize));
+
+  const { texels, anchors } = partition(subsets, partitionIndex);
+  const indexBits = subsets === 2 ? 3 : 4;
+  const indices = readIndices(block, position, indexBits, anchors);
+  for (let i = 0; i < 16; i++) {
+    const e0 = colors[texels[i] * 2], e1 = colors[texels[i] * 2 + 1];
+    const weight = WEIGHTS[indexBits][indices[i]];
+    for (let channel = 0; channel < 3; channel++) {
+      const value = ((64 - weight) * e0[channel] + weight * e1[channel] + 32) >>
+        6;
+      // Scales the interpolated value to the bits of a half float.
+      out[i * 4 + channel] = !signed
+        ? (value * 31) >> 6
+        : value < 0
+        ? 0x8000 | ((-value * 31) >> 5)
+        : (value * 31) >> 5;
+    }
+    out[i * 4 + 3] = 0x3c00;
+  }
+}
+
+// ETC2 and EAC
+
+const ETC_MODIFIERS = [
+  [2, 8],
+  [5, 17],
+  [9, 29],
+  [13, 42],
+  [18, 60],
+  [24, 80],
+  [33, 106],
+  [47, 183],
+];
+
+const ETC_DISTANCES = [3, 6, 11, 16, 23, 32, 41, 64];
+
+const EAC_MODIFIERS = [
+  [-3, -6, -9, -15, 2, 5, 8, 14],
+  [-3, -7, -10, -13, 2, 6, 9, 12],
+  [-2, -5, -8, -13, 1, 4, 7, 12],
+  [-2, -4, -6, -13, 1, 3, 5, 12],
+  [-3, -6, -8, -12, 2, 5, 7, 11],
+  [-3, -7, -9, -11, 2, 6, 8, 10],
+  [-4, -7, -8, -11, 3, 6, 7, 10],
+  [-3, -5, -8, -11, 2, 4, 7, 10],
+  [-2, -6, -8, -10, 1, 5, 7, 9],
+  [-2, -5, -8, -10, 1, 4, 7, 9],
+  [-2, -4, -8, -10, 1, 3, 7, 9],
+  [-2, -5, -7, -10, 1, 4, 6, 9],
+  [-3, -4, -7, -10, 2, 3, 6, 9],
+  [-1, -2, -3, -10, 0, 1, 2, 9],
+  [-4, -6, -8, -9, 3, 5, 7, 8],
+  [-3, -5, -7, -9, 2, 4, 6, 8],
+];
+
+/** Bits `high` down to `low` of a big-endian 64-bit block. */
+function bigEndianBits(block: Uint8Array, high: number, low: number): number {
+  let value = 0;
+  for (let bit = high; bit >= low; bit--) {
+    value = (value << 1) | ((block[7 - (bit >> 3)] >> (bit & 7)) & 1);
+  }
+  return value >>> 0;
+}
+
+const extend = (value: number, bits: number) =>
+  (value << (8 - bits)) | (value >> (2 * bits - 8));
+
+/**
+ * Decodes the color of ETC1 and ETC2 blocks. With `punchthrough`, the
+ * differential bit instead marks opaque blocks, and other blocks have
+ * transparent black texels.
+ */
+function decodeEtc2(block: Uint8Array, out: Uint8Array, punchthrough = false) {
+  const bits = (high: number, low = high) => bigEndianBits(block, high, low);
+  const differential = punchthrough || bits(33) === 1;
+  const opaque = !punchthrough || bits(33) === 1;
+  const flip = bits(32);
+  // Texels are numbered column by column, each with an MSB and LSB.
+  const index = (i: number) => (bits(16 + i) << 1) | bits(i);
+  const texel = (x: number, y: number, color: number[]) =>
+    out.set(color, (y * 4 + x) * 4);
+  const add = (
+    color: number[],
+    offset: number,
+  ) => [...color.slice(0, 3).map((value) => clampByte(value + offset)), 255];
+
+  let base1: number[], base2: number[];
+  if (!differential) {
+    base1 = [bits(63, 60), bits(55, 52), bits(47, 44)].map((v) => v * 17);
+    base2 = [bits(59, 56), bits(51, 48), bits(43, 40)].map((v) => v * 17);
+  } else {
+    const r = bits(63, 59), g = bits(55, 51), b = bits(47, 43);
+    const r2 = r + signExtend(bits(58, 56), 3);
+    const g2 = g + signExtend(bits(50, 48), 3);
+    const b2 = b + signExtend(bits(42, 40), 3);
+
+    if (r2 < 0 || r2 > 31) {
+      // T mode.
+      const c1 = [
+        (bits(60, 59) << 2) | bits(57, 56),
+        bits(55, 52),
+        bits(51, 48),
+      ]
+        .map((v) => v * 17);
+      const c2 = [bits(47, 44), bits(43, 40), bits(39, 36)].map((v) => v * 17);
+      const d = ETC_DISTANCES[(bits(35, 34) << 1) | bits(32)];
+      const paint = [[...c1, 255], add(c2, d), [...c2, 255], add(c2, -d)];
+      for (let i = 0; i < 16; i++) {
+        const p = index(i);
+        texel(i >> 2, i & 3, !opaque && p === 2 ? [0, 0, 0, 0] : paint[p]);
+      }
+      return;
+    }
+    if (g2 < 0 || g2 > 31) {
+      // H mode.
+      const c1 = [
+        bits(62, 59),
+        (bits(58, 56) << 1) | bits(52),
+        (bits(51) << 3) | bits(49, 47),
+      ];
+      const c2 = [bits(46, 43), bits(42, 39), bits(38, 35)];
+      const order = (c: number[]) => (c[0] << 8) | (c[1] << 4) | c[2];
+      const d = ETC_DISTANCES[
+        (bits(34) << 2) | (bits(32) << 1) | (order(c1) >= order(c2) ? 1 : 0)
+      ];
+      const e1 = c1.map((v) => v * 17), e2 = c2.map((v) => v * 17);
+      const paint = [add(e1, d), add(e1, -d), add(e2, d), add(e2, -d)];
+      for (let i = 0; i < 16; i++) {
+        const p = index(i);
+        texel(i >> 2, i & 3, !opaque && p === 2 ? [0, 0, 0, 0] : paint[p]);
+      }
+      return;
+    }
+    if (b2 < 0 || b2 > 31) {
+      // Planar mode, a gradient between three colors.
+      const o = [
+        extend(bits(62, 57), 6),
+        extend((bits(56) << 6) | bits(54, 49), 7),
+        extend((bits(48) << 5) | (bits(44, 43) << 3) | bits(41, 39), 6),
+      ];
+      const h = [
+        extend((bits(38, 34) << 1) | bits(32), 6),
+        extend(bits(31, 25), 7),
+        extend(bits(24, 19), 6),
+      ];
+      const v = [
+        extend(bits(18, 13), 6),
+        extend(bits(12, 6), 7),
+        extend(bits(5, 0), 6),
+      ];
+      for (let y = 0; y < 4; y++) {
+        for (let x = 0; x < 4; x++) {
+          texel(x, y, [
+            ...o.map((value, c) =>
+              clampByte(
+                (x * (h[c] - value) + y * (v[c] - value) + 4 * value + 2) >> 2,
+              )
+            ),
+            255,
+          ]);
+        }
+      }
+      return;
+    }
+    base1 = [r, g, b].map((v) => extend(v, 5));
+    base2 = [r2, g2, b2].map((v) => extend(v, 5));
+  }
+
+  const tables = [bits(39, 37), bits(36, 34)];
+  for (let i = 0; i < 16; i++) {
+    const x = i >> 2, y = i & 3;
+    const subblock = flip ? (y >> 1) : (x >> 1);
+    const [small, large] = ETC_MODIFIERS[tables[subblock]];
+    const p = index(i);
+    if (!opaque && p === 2) {
+      texel(x, y, [0, 0, 0, 0]);
+      continue;
+    }
+    const modifier = [!opaque ? 0 : small, large, -small, -large][p];
+    texel(x, y, add(subblock ? base2 : base1, modifier));
+  }
+}
+
+/**
+ * Decodes an EAC channel into channel `channel` of `out`, as 8-bit alpha or
+ * as 11-bit values rounded to unsigned or two's complement signed bytes.
+ */
+function decodeEac(
+  block: Uint8Array,
+  out: Uint8Array,
+  channel: number,
+  mode: "alpha" | "unorm" | "snorm",
+) {
+  const bits = (high: number, low = high) => bigEndianBits(block, high, low);
+  const multiplier = bits(55, 52);
+  const modifiers = EAC_MODIFIERS[bits(51, 48)];
+  for (let i = 0; i < 16; i++) {
+    const modifier = modifiers[bits(47 - i * 3, 45 - i * 3)];
+    let value: number;
+    if (mode === "alpha") {
+      value = clampByte(bits(63, 56) + modifier * multiplier);
+    } else if (mode === "unorm") {
+      const texel = bits(63, 56) * 8 + 4 +
+        modifier * (multiplier ? multiplier * 8 : 1);
+      value = Math.round(Math.min(2047, Math.max(0, texel)) * 255 / 2047);
+    } else {
+      const base = Math.max(-127, signExtend(bits(63, 56), 8));
+      const texel = base * 8 + modifier * (multiplier ? multiplier * 8 : 1);
+      value = Math.round(Math.min(1023, Math.max(-1023, texel)) * 127 / 1023) &
+        0xff;
+    }
+    out[((i & 3) * 4 + (i >> 2)) * 4 + channel] = value;
+  }
+}
+
+function decodeEacChannels(
+  block: Uint8Array,
+  out: Uint8Array,
+  channels: number,
+  signed: boolean,
+) {
+  for (let i = 0; i < 16; i++) out.set([0, 0, 0, signed ? 127 : 255], i * 4);
+  for (let channel = 0; channel < channels; channel++) {
+    decodeEac(
+      block.subarray(channel * 8),
+      out,
+      channel,
+      signed ? "snorm" : "unorm",
+    );
+  }
+}
+
+// ASTC
+
+const ASTC_ERROR_COLOR = [255, 0, 255, 255];
+
+// The ranges of the integer sequences, each a power of two times 1, 3 or 5.
+// deno-fmt-ignore
+const ISE_RANGES = [
+  2, 3, 4, 5, 6, 8, 10, 12, 16, 20, 24, 32, 40, 48, 64, 80, 96, 128, 160, 192,
+  256,
+];
+
+function iseRange(range: number) {
+  const trits = range % 3 === 0, quints = range % 5 === 0;
+  const bits = Math.log2(range / (trits ? 3 : quints ? 5 : 1));
+  return { trits, quints, bits };
+}
+
+/** The number of bits of `count` values of an integer sequence. */
+function iseBitCount(count: number, range: number): number {
+  const { trits, quints, bits } = iseRange(range);
+  return count * bits +
+    (trits ? Math.ceil(count * 8 / 5) : quints ? Math.ceil(count * 7 / 3) : 0);
+}
+
+function decodeTrits(t: number): number[] {
+  const bit = (value: number, n: number) => (value >> n) & 1;
+  let c: number, t3: number, t4: number;
+  if (((t >> 2) & 7) === 7) {
+    c = (((t >> 5) & 7) << 2) | (t & 3);
+    t4 = t3 = 2;
+  } else {
+    c = t & 0x1f;
+    if (((t >> 5) & 3) === 3) {
+      t4 = 2;
+      t3 = bit(t, 7);
+    } else {
+      t4 = bit(t, 7);
+      t3 = (t >> 5) & 3;
+    }
+  }
+  let t0: number, t1: number, t2: number;
+  if ((c & 3) === 3) {
+    t2 = 2;
+    t1 = bit(c, 4);
+    t0 = (bit(c, 3) << 1) | (bit(c, 2) & ~bit(c, 3) & 1);
+  } else if (((c >> 2) & 3) === 3) {
+    t2 = t1 = 2;
+    t0 = c & 3;
+  } else {
+    t2 = bit(c, 4);
+    t1 = (c >> 2) & 3;
+    t0 = (bit(c, 1) << 1) | (bit(c, 0) & ~bit(c, 1) & 1);
+  }
+  return [t0, t1, t2, t3, t4];
+}
+
+function decodeQuints(q: number): number[] {
+  const bit = (n: number) => (q >> n) & 1;
+  if (((q >> 1) & 3) === 3 && ((q >> 5) & 3) === 0) {
+    return [
+      4,
+      4,
+      (bit(0) << 2) | ((bit(4) & ~bit(0) & 1) << 1) | (bit(3) & ~bit(0) & 1),
+    ];
+  }
+  let c: number, q2: number;
+  if (((q >> 1) & 3) === 3) {
+    q2 = 4;
+    c = (((q >> 3) & 3) << 3) | ((~(q >> 5) & 3) << 1) | bit(0);
+  } else {
+    q2 = (q >> 5) & 3;
+    c = q & 0x1f;
+  }
+  return (c & 7) === 5 ? [(c >> 3) & 3, 4, q2] : [c & 7, (c >> 3) & 3, q2];
+}
+
+/**
+ * Reads `count` values of an integer sequence at bit `start`, each as its
+ * trit or quint times the power of two plus its low bits.
+ */
+function decodeIse(
+  data: Uint8Array,
+  start: number,
+  count: number,
+  range: number,
+): number[] {
+  const { trits, quints, bits } = iseRange(range);
+  const end = start + iseBitCount(count, range);
+  let position = start;
+  // Sequences that end partway through a block of trits or quints leave out
+  // the remaining bits, which read as zeros.
+  const read = (n: number) => {
+    const value = readBits(
+      data,
+      position,
+      Math.max(0, Math.min(n, end - position)),
+    );
+    position += n;
+    return value;
+  };
+  // Each block of five trits or three quints is packed into 8 or 7 bits,
+  // interleaved with the low bits of the values.
+  const packedBits = trits ? [2, 2, 1, 2, 1] : quints ? [3, 2, 2] : [0];
+  const values: number[] = [];
+  while (values.length < count) {
+    const low: number[] = [];
+    let packed = 0, shift = 0;
+    for (const n of packedBits) {
+      low.push(read(bits));
+      packed |= read(n) << shift;
+      shift += n;
+    }
+    const digits = trits
+      ? decodeTrits(packed)
+      : quints
+      ? decodeQuints(packed)
+      : [0];
+    low.forEach((value, i) => values.push((digits[i] << bits) | value));
+  }
+  return values.slice(0, count);
+}
+
+/** Repeats the `from` bits of `value` to fill `to` bits. */
+function replicate(value: number, from: number, to: number): number {
+  let result = 0;
+  for (let shift = to - from; shift > -from; shift -= from) {
+    result |= shift >= 0 ? value << shift : value >> -shift;
+  }
+  return result;
+}
+
+/** Expands a color endpoint value to 0-255. */
+function unquantizeColor(value: number, range: number): number {
+  const { trits, quints, bits } = iseRange(range);
+  if (!trits && !quints) return replicate(value, bits, 8);
+  const d = value >> bits;
+  const a = value & 1 ? 0x1ff : 0;
+  const [b, c, e, f, g] = [1, 2, 3, 4, 5].map((n) => (value >> n) & 1);
+  // The low bits are scattered as specified per range, and scaled by a
+  // factor for the trit or quint.
+  const [scale, scattered] = trits
+    ? [
+      [204, 0],
+      [93, (b << 8) | (b << 4) | (b << 2) | (b << 1)],
+      [44, (c << 8) | (b << 7) | (c << 3) | (b << 2) | (c << 1) | b],
+      [22, (e << 8) | (c << 7) | (b << 6) | (e << 2) | (c << 1) | b],
+      [11, (f << 8) | (e << 7) | (c << 6) | (b << 5) | (f << 1) | e],
+      [5, (g << 8) | (f << 7) | (e << 6) | (c << 5) | (b << 4) | g],
+    ][bits - 1]
+    : [
+      [113, 0],
+      [54, (b << 8) | (b << 3) | (b << 2)],
+      [26, (c << 8) | (b << 7) | (c << 2) | (b << 1) | c],
+      [13, (e << 8) | (c << 7) | (b << 6) | (e << 1) | c],
+      [6, (f << 8) | (e << 7) | (c << 6) | (b << 5) | f],
+    ][bits - 1];
+  const t = (d * scale + scattered) ^ a;
+  return (a & 0x80) | (t >> 2);
+}
+
+/** Expands a weight to 0-64. */
+function unquantizeWeight(value: number, range: number): number {
+  if (range === 3) return [0, 32, 64][value];
+  if (range === 5) return [0, 16, 32, 48, 64][value];
+  const { trits, quints, bits } = iseRange(range);
+  let result: number;
+  if (!trits && !quints) {
+    result = replicate(value, bits, 6);
+  } else {
+    const d = value >> bits;
+    const a = value & 1 ? 0x7f : 0;
+    const b = (value >> 1) & 1, c = (value >> 2) & 1;
+    const [scale, scattered] = trits
+      ? [[50, 0], [23, (b << 6) | (b << 2) | b], [
+        11,
+        (c << 6) | (b << 5) | (c << 1) | b,
+      ]][bits - 1]
+      : [[28, 0], [13, (b << 6) | (b << 1)]][bits - 1];
+    result = (a & 0x20) | (((d * scale + scattered) ^ a) >> 2);
+  }
+  return result > 32 ? result + 1 : result;
+}
+
+function hash52(p: number): number {
+  p ^= p >>> 15;
+  p -= p << 17;
+  p += p << 7;
+  p += p << 4;
+  p ^= p >>> 5;
+  p += p << 16;
+  p ^= p >>> 7;
+  p ^= p >>> 3;
+  p ^= p << 6;
+  p ^= p >>> 17;
+  return p >>> 0;
+}
+
+/** The partition of a texel, as the ASTC specification computes it. */
+function selectPartition(
+  seed: number,
+  x: number,
+  y: number,
+  count: number,
+  smallBlock: boolean,
+): number {
+  if (smallBlock) {
+    x <<= 1;
+    y <<= 1;
+  }
+  seed += (count - 1) * 1024;
+  const rnum = hash52(seed);
+  const seeds = [0, 4, 8, 12, 16, 20, 24, 28, 18, 22, 26].map((shift) =>
+    (rnum >>> shift) & 0xf
+  );
+  seeds.push(((rnum >>> 30) | (rnum << 2)) & 0xf);
+  let sh1: number, sh2: number;
+  if (seed & 1) {
+    sh1 = seed & 2 ? 4 : 5;
+    sh2 = count === 3 ? 6 : 5;
+  } else {
+    sh1 = count === 3 ? 6 : 5;
+    sh2 = seed & 2 ? 4 : 5;
+  }
+  const sh3 = seed & 0x10 ? sh1 : sh2;
+  const s = seeds.map((value, i) =>
+    (value * value) >> (i >= 8 ? sh3 : i % 2 ? sh2 : sh1)
+  );
+  // The z coordinate of 3D blocks, and so seeds 9 to 12, are always 0 here.
+  const a = (s[0] * x + s[1] * y + (rnum >>> 14)) & 0x3f;
+  const b = (s[2] * x + s[3] * y + (rnum >>> 10)) & 0x3f;
+  const c = count < 3 ? 0 : (s[4] * x + s[5] * y + (rnum >>> 6)) & 0x3f;
+  const d = count < 4 ? 0 : (s[6] * x + s[7] * y + (rnum >>> 2)) & 0x3f;
+  if (a >= b && a >= c && a >= d) return 0;
+  if (b >= c && b >= d) return 1;
+  return c >= d ? 2 : 3;
+}
+
+/** Decodes the weight grid size, range and planes of an ASTC block mode. */
+function decodeBlockMode(mode: number) {
+  let range = (mode >> 4) & 1;
+  let high = (mode >> 9) & 1;
+  let dual = (mode >> 10) & 1;
+  const a = (mode >> 5) & 3;
+  let width: number, height: number;
+  if (mode & 3) {
+    range |= (mode & 3) << 1;
+    const b = (mode >> 7) & 3;
+    switch ((mode >> 2) & 3) {
+      case 0:
+        [width, height] = [b + 4, a + 2];
+        break;
+      case 1:
+        [width, height] = [b + 8, a + 2];
+        break;
+      case 2:
+        [width, height] = [a + 2, b + 8];
+        break;
+      default:
+        [width, height] = mode & 0x100
+          ? [(b & 1) + 2, a + 2]
+          : [a + 2, (b & 1) + 6];
+    }
+  } else {
+    range |= ((mode >> 2) & 3) << 1;
+    if (((mode >> 2) & 3) === 0) return;
+    const b = (mode >> 9) & 3;
+    switch ((mode >> 7) & 3) {
+      case 0:
+        [width, height] = [12, a + 2];
+        break;
+      case 1:
+        [width, height] = [a + 2, 12];
+        break;
+      case 2:
+        [width, height] = [a + 6, b + 6];
+        dual = high = 0;
+        break;
+      default:
+        if (a > 1) return;
+        [width, height] = a ? [10, 6] : [6, 10];
+    }
+  }
+  return {
+    width,
+    height,
+    range: ISE_RANGES[range - 2 + 6 * high],
+    dual: dual === 1,
+  };
+}
+
+const blueContract = ([r, g, b, a]: number[]) => [
+  (r + b) >> 1,
+  (g + b) >> 1,
+  b,
+  a,
+];
+
+/** Moves the top bit of `b` to `a`, making `b` a 6-bit signed offset. */
+function bitTransferSigned(b: number, a: number): [number, number] {
+  a = (a >> 1) | (b & 0x80);
+  b = (b >> 1) & 0x3f;
+  return [b & 0x20 ? b - 0x40 : b, a];
+}
+
+/** The 8-bit endpoints of an LDR color endpoint mode, or none for HDR. */
+function decodeEndpoints(cem: number, v: number[]): number[][] | undefined {
+  switch (cem) {
+    case 0:
+      return [[v[0], v[0], v[0], 255], [v[1], v[1], v[1], 255]];
+    case 1: {
+      const l0 = (v[0] >> 2) | (v[1] & 0xc0);
+      const l1 = Math.min(l0 + (v[1] & 0x3f), 255);
+      return [[l0, l0, l0, 255], [l1, l1, l1, 255]];
+    }
+    case 4:
+      return [[v[0], v[0], v[0], v[2]], [v[1], v[1], v[1], v[3]]];
+    case 5: {
+      const [l1, l0] = bitTransferSigned(v[1], v[0]);
+      const [a1, a0] = bitTransferSigned(v[3], v[2]);
+      return [[l0, l0, l0, a0], [l0 + l1, l0 + l1, l0 + l1, a0 + a1]]
+        .map((e) => e.map(clampByte));
+    }
+    case 6:
+    case 10: {
+      const a0 = cem === 10 ? v[4] : 255, a1 = cem === 10 ? v[5] : 255;
+      return [
+        [...v.slice(0, 3).map((c) => (c * v[3]) >> 8), a0],
+        [v[0], v[1], v[2], a1],
+      ];
+    }
+    case 8:
+    case 12: {
+      const e0 = [v[0], v[2], v[4], cem === 12 ? v[6] : 255];
+      const e1 = [v[1], v[3], v[5], cem === 12 ? v[7] : 255];
+      return v[1] + v[3] + v[5] >= v[0] + v[2] + v[4]
+        ? [e0, e1]
+        : [blueContract(e1), blueContract(e0)];
+    }
+    case 9:
+    case 13: {
+      const [r1, r0] = bitTransferSigned(v[1], v[0]);
+      const [g1, g0] = bitTransferSigned(v[3], v[2]);
+      const [b1, b0] = bitTransferSigned(v[5], v[4]);
+      const [a1, a0] = cem === 13 ? bitTransferSigned(v[7], v[6]) : [0, 255];
+      const e0 = [r0, g0, b0, a0];
+      const e1 = [r0 + r1, g0 + g1, b0 + b1, a0 + a1];
+      return (r1 + g1 + b1 >= 0
+        ? [e0, e1]
+        : [blueContract(e1), blueContract(e0)])
+        .map((e) => e.map(clampByte));
+    }
+  }
+}
+
+function decodeAstc(
+  block: Uint8Array,
+  out: Uint8Array,
+  blockWidth: number,
+  blockHeight: number,
+  srgb: boolean,
+) {
+  const texelCount = blockWidth * blockHeight;
+  const fill = (color: number[]) => {
+    for (let i = 0; i < texelCount; i++) out.set(color, i * 4);
+  };
+  const bits = (start: number, count: number) => readBits(block, start, count);
+
+  const blockMode = bits(0, 11);
+  if ((blockMode & 0x1ff) === 0x1fc) {
+    // A void-extent block of one color, as UNORM16 unless it is HDR. Its
+    // extent is either unset, with all bits set, or must not be empty.
+    const [sLow, sHigh, tLow, tHigh] = [12, 25, 38, 51].map((start) =>
+      bits(start, 13)
+    );
+    const unset = sLow & sHigh & tLow & tHigh;
+    if (
+      blockMode & 0x200 || bits(10, 2) !== 3 ||
+      (unset !== 0x1fff && (sLow >= sHigh || tLow >= tHigh))
+    ) {
+      return fill(ASTC_ERROR_COLOR);
+    }
+    return fill([0, 1, 2, 3].map((i) => bits(64 + i * 16, 16) >> 8));
+  }
+  const mode = decodeBlockMode(blockMode);
+  const partitions = bits(11, 2) + 1;
+  if (
+    !mode || mode.width > blockWidth || mode.height > blockHeight ||
+    (mode.dual && partitions === 4)
+  ) {
+    return fill(ASTC_ERROR_COLOR);
+  }
+  const planes = mode.dual ? 2 : 1;
+  const weightCount = mode.width * mode.height * planes;
+  const weightBits = iseBitCount(weightCount, mode.range);
+  if (weightCount > 64 || weightBits < 24 || weightBits > 96) {
+    return fill(ASTC_ERROR_COLOR);
+  }
+
+  // Blocks with several partitions and endpoint modes keep the high bits of
+  // the modes below the weights.
+  let cems: number[];
+  let extraBits = 0;
+  const partitionIndex = partitions > 1 ? bits(13, 10) : 0;
+  if (partitions === 1) {
+    cems = [bits(13, 4)];
+  } else if ((bits(23, 2)) === 0) {
+    cems = Array(partitions).fill(bits(25, 4));
+  } else {
+    extraBits = 3 * partitions - 4;
+    const encoded = bits(23, 6) |
+      (bits(128 - weightBits - extraBits, extraBits) << 6);
+    const base = (encoded & 3) - 1;
+    cems = Array.from(
+      { length: partitions },
+      (_, i) =>
+        ((base + ((encoded >> (2 + i)) & 1)) << 2) |
+        ((encoded >> (2 + partitions + i * 2)) & 3),
+    );
+  }
+  const colorStart = partitions === 1 ? 17 : 29;
+  const colorEnd = 128 - weightBits - extraBits - (mode.dual ? 2 : 0);
+  const plane2Channel = mode.dual ? bits(colorEnd, 2) : -1;
+
+  const colorCount = cems.reduce((sum, cem) => sum + ((cem >> 2) + 1) * 2, 0);
+  const colorRange = ISE_RANGES.findLast((range) =>
+    range >= 6 && iseBitCount(colorCount, range) <= colorEnd - colorStart
+  );
+  if (colorCount > 18 || !colorRange) return fill(ASTC_ERROR_COLOR);
+  const colors = decodeIse(block, colorStart, colorCount, colorRange)
+    .map((value) => unquantizeColor(value, colorRange));
+  // Partitions with HDR endpoints have the error color in the LDR profile.
+  const endpoints: (number[][] | undefined)[] = [];
+  let offset = 0;
+  for (const cem of cems) {
+    const count = ((cem >> 2) + 1) * 2;
+    const pair = decodeEndpoints(cem, colors.slice(offset, offset + count));
+    // Expands to 16 bits, with the low byte of sRGB colors halfway.
+    endpoints.push(
+      pair?.map((e) => e.map((c) => srgb ? (c << 8) | 0x80 : c * 257)),
+    );
+    offset += count;
+  }
+
+  // Weights are stored backwards from the end of the block.
+  const reversed = block.map((_, i) => {
+    const byte = block[15 - i];
+    let result = 0;
+    for (let bit = 0; bit < 8; bit++) {
+      result |= ((byte >> bit) & 1) << (7 - bit);
+    }
+    return result;
+  });
+  const weights = decodeIse(reversed, 0, weightCount, mode.range)
+    .map((value) => unquantizeWeight(value, mode.range));
+
+  // Interpolates the weight grid at the texels.
+  const ds = Math.floor((1024 + (blockWidth >> 1)) / (blockWidth - 1));
+  const dt = Math.floor((1024 + (blockHeight >> 1)) / (blockHeight - 1));
+  for (let y = 0; y < blockHeight; y++) {
+    for (let x = 0; x < blockWidth; x++) {
+      const gs = (ds * x * (mode.width - 1) + 32) >> 6;
+      const gt = (dt * y * (mode.height - 1) + 32) >> 6;
+      const js = gs >> 4, fs = gs & 0xf, jt = gt >> 4, ft = gt & 0xf;
+      const w11 = (fs * ft + 8) >> 4;
+      const grid = [
+        [0, 0, 16 - fs - ft + w11],
+        [1, 0, fs - w11],
+        [0, 1, ft - w11],
+        [1, 1, w11],
+      ];
+      const texelWeights = [0, 1].slice(0, planes).map((plane) => {
+        let sum = 8;
+        for (const [dx, dy, factor] of grid) {
+          if (factor) {
+            const i = (jt + dy) * mode.width + js + dx;
+            sum += weights[i * planes + plane] * factor;
+          }
+        }
+        return sum >> 4;
+      });
+      const part = partitions > 1
+        ? selectPartition(partitionIndex, x, y, partitions, texelCount < 31)
+        : 0;
+      const pair = endpoints[part];
+      out.set(
+        pair?.[0].map((c0, c) => {
+          const w = texelWeights[c === plane2Channel ? 1 : 0];
+          return ((c0 * (64 - w) + pair[1][c] * w + 32) >> 6) >> 8;
+        }) ?? ASTC_ERROR_COLOR,
+        (y * blockWidth + x) * 4,
+      );
+    }
+  }
+}
+
+// Formats
+
+function blockFormat(format: GPUTextureFormat): BlockFormat | undefined {
+  const srgb = format.endsWith("-srgb");
+  const rgba8: GPUTextureFormat = srgb ? "rgba8unorm-srgb" : "rgba8unorm";
+  const signed = format.includes("snorm");
+  const rgbaChannels: GPUTextureFormat = signed ? "rgba8snorm" : "rgba8unorm";
+  const bc = (
+    blockSize: number,
+    decode: BlockFormat["decode"],
+    output: GPUTextureFormat = rgba8,
+  ): BlockFormat => ({
+    blockWidth: 4,
+    blockHeight: 4,
+    blockSize,
+    format: output,
+    decode,
+  });
+  const u8 =
+    (decode: (block: Uint8Array, out: Uint8Array) => void) =>
+    (block: Uint8Array, out: Uint8Array | Uint16Array) =>
+      decode(block, out as Uint8Array);
+
+  switch (format.replace("-srgb", "")) {
+    case "bc1-rgba-unorm":
+      return bc(8, u8(decodeBc1));
+    case "bc2-rgba-unorm":
+      return bc(16, u8(decodeBc2));
+    case "bc3-rgba-unorm":
+      return bc(16, u8(decodeBc3));
+    case "bc4-r-unorm":
+    case "bc4-r-snorm":
+      return bc(
+        8,
+        u8((block, out) => decodeBc45(block, out, 1, signed)),
+        rgbaChannels,
+      );
+    case "bc5-rg-unorm":
+    case "bc5-rg-snorm":
+      return bc(
+        16,
+        u8((block, out) => decodeBc45(block, out, 2, signed)),
+        rgbaChannels,
+      );
+    case "bc6h-rgb-ufloat":
+    case "bc6h-rgb-float":
+      return bc(
+        16,
+        (block, out) =>
+          decodeBc6h(block, out as Uint16Array, format === "bc6h-rgb-float"),
+        "rgba16float",
+      );
+    case "bc7-rgba-unorm":
+      return bc(16, u8(decodeBc7));
+    case "etc2-rgb8unorm":
+      return bc(8, u8((block, out) => decodeEtc2(block, out)));
+    case "etc2-rgb8a1unorm":
+      return bc(8, u8((block, out) => decodeEtc2(block, out, true)));
+    case "etc2-rgba8unorm":
+      return bc(
+        16,
+        u8((block, out) => {
+          decodeEtc2(block.subarray(8), out);
+          decodeEac(block, out, 3, "alpha");
+        }),
+      );
+    case "eac-r11unorm":
+    case "eac-r11snorm":
+      return bc(
+        8,
+        u8((block, out) => decodeEacChannels(block, out, 1, signed)),
+        rgbaChannels,
+      );
+    case "eac-rg11unorm":
+    case "eac-rg11snorm":
+      return bc(
+        16,
+        u8((block, out) => decodeEacChannels(block, out, 2, signed)),
+        rgbaChannels,
+      );
+  }
+  const astc = format.match(/^astc-(\d+)x(\d+)-unorm/);
+  if (astc) {
+    const blockWidth = Number(astc[1]), blockHeight = Number(astc[2]);
+    return {
+      blockWidth,
+      blockHeight,
+      blockSize: 16,
+      format: rgba8,
+      decode: (block, out) =>
+        decodeAstc(block, out as Uint8Array, blockWidth, blockHeight, srgb),
+    };
+  }
+}
+
+/** The feature a compressed format needs, if `format` is one. */
+export function compressionFeature(
+  format: GPUTextureFormat,
+): GPUFeatureName | undefined {
+  if (format.startsWith("bc")) return "texture-compression-bc";
+  if (format.startsWith("etc2") || format.startsWith("eac")) {
+    return "texture-compression-etc2";
+  }
+  if (format.startsWith("astc")) return "texture-compression-astc";
+}
+
+/**
+ * Decodes one image of BC1-BC7, ETC2, EAC or LDR ASTC blocks. Color formats
+ * become `rgba8unorm` or `rgba8unorm-srgb` texels, single and two channel
+ * formats `rgba8unorm` or `rgba8snorm` ones with the other channels empty and
+ * BC6H `rgba16float` ones.
+ */
+export function decodeBlocks(
+  format: GPUTextureFormat,
+  data: Uint8Array,
+  width: number,
+  height: number,
+): DecompressedTexture {
+  const info = blockFormat(format);
+  if (!info) throw new Error(`${format} is not a compressed format`);
+  const { blockWidth, blockHeight, blockSize } = info;
+  const blocksX = Math.ceil(width / blockWidth);
+  const blocksY = Math.ceil(height / blockHeight);
+  if (data.length < blocksX * blocksY * blockSize) {
+    throw new Error(
+      `expected ${blocksX * blocksY * blockSize} bytes of ${format} data for ` +
+        `${width}x${height} texels, got ${data.length}`,
+    );
+  }
+  const TexelArray = info.format === "rgba16float" ? Uint16Array : Uint8Array;
+  const texels = new TexelArray(width * height * 4);
+  const out = new TexelArray(blockWidth * blockHeight * 4);
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      const offset = (by * blocksX + bx) * blockSize;
+      info.decode(data.subarray(offset, offset + blockSize), out);
+      // Blocks at the right and bottom edges may stick out of the image.
+      const rowWidth = Math.min(blockWidth, width - bx * blockWidth);
+      for (
+        let y = 0;
+        y < Math.min(blockHeight, height - by * blockHeight);
+        y++
+      ) {
+        const start = y * blockWidth * 4;
+        texels.set(
+          out.subarray(start, start + rowWidth * 4),
+          ((by * blockHeight + y) * width + bx * blockWidth) * 4,
+        );
+      }
+    }
+  }
+  return {
+    format: info.format,
+    data: new Uint8Array(texels.buffer),
+  };
+}
+
+/**
+ * Decodes the mip levels of every layer of a compressed texture, laid out as
+ * `createTextureWithData` takes them.
+ */
+export function decompressTexture(
+  descriptor: GPUTextureDescriptor,
+  data: Uint8Array,
+): DecompressedTexture {
+  const [width, height = 1, layers = 1] = Array.isArray(descriptor.size)
+    ? descriptor.size
+    : [
+      (descriptor.size as GPUExtent3DDict).width,
+      (descriptor.size as GPUExtent3DDict).height,
+      (descriptor.size as GPUExtent3DDict).depthOrArrayLayers,
+    ];
+  const info = blockFormat(descriptor.format);
+  if (!info) throw new Error(`${descriptor.format} is not a compressed format`);
+  const images: Uint8Array[] = [];
+  let offset = 0;
+  for (let layer = 0; layer < layers; layer++) {
+    for (let mip = 0; mip < (descriptor.mipLevelCount ?? 1); mip++) {
+      const mipWidth = Math.max(1, width >> mip);
+      const mipHeight = Math.max(1, height >> mip);
+      const size = Math.ceil(mipWidth / info.blockWidth) *
+        Math.ceil(mipHeight / info.blockHeight) * info.blockSize;
+      images.push(
+        decodeBlocks(
+          descriptor.format,
+          data.subarray(offset, offset + size),
+          mipWidth,
+          mipHeight,
+        ).data,
+      );
+      offset += size;
+    }
+  }
+  const texels = new Uint8Array(
+    images.reduce((size, image) => size + image.length, 0),
+  );
+  offset = 0;
+  for (const image of images) {
+    texels.set(image, offset);
+    offset += image.length;
+  }
+  return { format: info.format, data: texels };
+}
+
+/**
+ * Creates a texture from compressed data, which is decompressed on the CPU
+ * when the device lacks the feature for its format.
+ */
+export function createCompressedTexture(
+  device: GPUDevice,
+  descriptor: GPUTextureDescriptor,
+  data: Uint8Array,
+): GPUTexture {
+  const feature = compressionFeature(descriptor.format);
+  if (!feature || device.features.has(feature)) {
+    return createTextureWithData(device, descriptor, data);
+  }
+  const decompressed = decompressTexture(descriptor, data);
+  return createTextureWithData(device, {
+    ...descriptor,
+    format: decompressed.format,
+  }, decompressed.data);
+}
@@ -0,0 +1,58 @@
+import { Dds } from "dds";
+import { assertEquals, assertGreaterOrEqual } from "std/assert";
+import { decompressTexture } from "./texture_compression.ts";
+
+function readSkyImage(name: string): Uint8Array {
+  return Dds.read(
+    Deno.readFileSync(new URL(`./skybox/images/${name}.dds`, import.meta.url)),
+  ).data;
+}
+
+const SIZE = 128;
+const MIP_LEVEL_COUNT = 8;
+/** Bytes of a face with all its mip levels, decompressed. */
+const FACE_SIZE = Array.from(
+  { length: MIP_LEVEL_COUNT },
+  (_, mip) => (SIZE >> mip) ** 2 * 4,
+).reduce((a, b) => a + b);
+
+/**
+ * PSNR of the RGB channels of the base level of every face of RGBA `actual`
+ * against BGRA `expected`. The smaller mip levels of the images were not
+ * filtered alike, so they are left out.
+ */
+function psnr(actual: Uint8Array, expected: Uint8Array): number {
+  let sum = 0;
+  let count = 0;
+  for (let face = 0; face < 6; face++) {
+    const start = face * FACE_SIZE;
+    for (let i = start; i < start + SIZE * SIZE * 4; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        sum += (actual[i + c] - expected[i + 2 - c]) ** 2;
+        count++;
+      }
+    }
+  }
+  return 10 * Math.log10(255 ** 2 / (sum / count));
+}
+
+for (
+  const [name, format, minPsnr] of [
+    ["bc1", "bc1-rgba-unorm-srgb", 36],
+    ["etc2", "etc2-rgb8unorm-srgb", 29],
+    ["astc", "astc-4x4-unorm-srgb", 45],
+  ] as const
+) {
+  Deno.test(`decodes ${format} close to the uncompressed sky`, () => {
+    const { format: decodedFormat, data } = decompressTexture({
+      size: [SIZE, SIZE, 6],
+      mipLevelCount: MIP_LEVEL_COUNT,
+      format,
+      usage: 0,
+    }, readSkyImage(name));
+    const expected = readSkyImage("bgra");
+    assertEquals(decodedFormat, "rgba8unorm-srgb");
+    assertEquals(data.length, expected.length);
+    assertGreaterOrEqual(psnr(data, expected), minPsnr);
+  });
+}
@@ -0,0 +1,681 @@
+import { describeTextureFormat } from "std/webgpu";
+import { createCompressedTexture } from "./texture_compression.ts";
+import { readTexture } from "./utils.ts";
+
+/** A 2D texture, array or cube map with all its mip levels. */
+export interface TextureData {
+  format: GPUTextureFormat;
+  width: number;
+  height: number;
+  /** Array layers, with six faces per cube map. */
+  layers: number;
+  cube: boolean;
+  mipLevelCount: number;
+  /**
+   * Every mip level of the first layer, then of the next layer, with rows
+   * of texels or blocks tightly packed, as `createTextureWithData` takes them.
+   */
+  data: Uint8Array;
+  /** Key/value data of KTX2 files, such as `KTXwriter`. */
+  metadata?: Record<string, string>;
+}
+
+// The Vulkan formats KTX2 files name their format by.
+const VK_FORMATS: Partial<Record<GPUTextureFormat, number>> = {
+  "r8unorm": 9,
+  "r8snorm": 10,
+  "r8uint": 13,
+  "r8sint": 14,
+  "rg8unorm": 16,
+  "rg8snorm": 17,
+  "rg8uint": 20,
+  "rg8sint": 21,
+  "rgba8unorm": 37,
+  "rgba8snorm": 38,
+  "rgba8uint": 41,
+  "rgba8sint": 42,
+  "rgba8unorm-srgb": 43,
+  "bgra8unorm": 44,
+  "bgra8unorm-srgb": 50,
+  "rgb10a2unorm": 64,
+  "rgb10a2uint": 68,
+  "r16uint": 74,
+  "r16sint": 75,
+  "r16float": 76,
+  "rg16uint": 81,
+  "rg16sint": 82,
+  "rg16float": 83,
+  "rgba16uint": 95,
+  "rgba16sint": 96,
+  "rgba16float": 97,
+  "r32uint": 98,
+  "r32sint": 99,
+  "r32float": 100,
+  "rg32uint": 101,
+  "rg32sint": 102,
+  "rg32float": 103,
+  "rgba32uint": 107,
+  "rgba32sint": 108,
+  "rgba32float": 109,
+  "rg11b10ufloat": 122,
+  "bc1-rgba-unorm": 133,
+  "bc1-rgba-unorm-srgb": 134,
+  "bc2-rgba-unorm": 135,
+  "bc2-rgba-unorm-srgb": 136,
+  "bc3-rgba-unorm": 137,
+  "bc3-rgba-unorm-srgb": 138,
+  "bc4-r-unorm": 139,
+  "bc4-r-snorm": 140,
+  "bc5-rg-unorm": 141,
+  "bc5-rg-snorm": 142,
+  "bc6h-rgb-ufloat": 143,
+  "bc6h-rgb-float": 144,
+  "bc7-rgba-unorm": 145,
+  "bc7-rgba-unorm-srgb": 146,
+  "etc2-rgb8unorm": 147,
+  "etc2-rgb8unorm-srgb": 148,
+  "etc2-rgb8a1unorm": 149,
+  "etc2-rgb8a1unorm-srgb": 150,
+  "etc2-rgba8unorm": 151,
+  "etc2-rgba8unorm-srgb": 152,
+  "eac-r11unorm": 153,
+  "eac-r11snorm": 154,
+  "eac-rg11unorm": 155,
+  "eac-rg11snorm": 156,
+};
+
+// The ASTC formats follow each other, unorm then sRGB per block size.
+// deno-fmt-ignore
+const ASTC_BLOCKS = [
+  "4x4", "5x4", "5x5", "6x5", "6x6", "8x5", "8x6", "8x8", "10x5", "10x6",
+  "10x8", "10x10", "12x10", "12x12",
+];
+ASTC_BLOCKS.forEach((block, i) => {
+  VK_FORMATS[`astc-${block}-unorm` as GPUTextureFormat] = 157 + i * 2;
+  VK_FORMATS[`astc-${block}-unorm-srgb` as GPUTextureFormat] = 158 + i * 2;
+});
+
+const DXGI_FORMATS: Partial<Record<GPUTextureFormat, number>> = {
+  "rgba32float": 2,
+  "rgba32uint": 3,
+  "rgba32sint": 4,
+  "rgba16float": 10,
+  "rgba16uint": 12,
+  "rgba16sint": 14,
+  "rg32float": 16,
+  "rg32uint": 17,
+  "rg32sint": 18,
+  "rgb10a2unorm": 24,
+  "rgb10a2uint": 25,
+  "rg11b10ufloat": 26,
+  "rgba8unorm": 28,
+  "rgba8unorm-srgb": 29,
+  "rgba8uint": 30,
+  "rgba8snorm": 31,
+  "rgba8sint": 32,
+  "rg16float": 34,
+  "rg16uint": 36,
+  "rg16sint": 38,
+  "r32float": 41,
+  "r32uint": 42,
+  "r32sint": 43,
+  "rg8unorm": 49,
+  "rg8uint": 50,
+  "rg8snorm": 51,
+  "rg8sint": 52,
+  "r16float": 54,
+  "r16uint": 57,
+  "r16sint": 59,
+  "r8unorm": 61,
+  "r8uint": 62,
+  "r8snorm": 63,
+  "r8sint": 64,
+  "bc1-rgba-unorm": 71,
+  "bc1-rgba-unorm-srgb": 72,
+  "bc2-rgba-unorm": 74,
+  "bc2-rgba-unorm-srgb": 75,
+  "bc3-rgba-unorm": 77,
+  "bc3-rgba-unorm-srgb": 78,
+  "bc4-r-unorm": 80,
+  "bc4-r-snorm": 81,
+  "bc5-rg-unorm": 83,
+  "bc5-rg-snorm": 84,
+  "bgra8unorm": 87,
+  "bgra8unorm-srgb": 91,
+  "bc6h-rgb-ufloat": 95,
+  "bc6h-rgb-float": 96,
+  "bc7-rgba-unorm": 98,
+  "bc7-rgba-unorm-srgb": 99,
+};
+
+function blockInfo(format: GPUTextureFormat) {
+  const { blockDimensions, blockSize } = describeTextureFormat(format);
+  if (blockSize === undefined) {
+    throw new Error(`${format} textures cannot be stored`);
+  }
+  return {
+    blockWidth: blockDimensions[0],
+    blockHeight: blockDimensions[1],
+    blockSize,
+  };
+}
+
+/** The size in bytes of one layer of mip level `mip`. */
+function imageSize(
+  format: GPUTextureFormat,
+  width: number,
+  height: number,
+  mip: number,
+): number {
+  const { blockWidth, blockHeight, blockSize } = blockInfo(format);
+  return Math.ceil(Math.max(1, width >> mip) / blockWidth) *
+    Math.ceil(Math.max(1, height >> mip) / blockHeight) * blockSize;
+}
+
+/** The offset of every layer and mip level in `TextureData.data`. */
+function imageOffsets(texture: TextureData): number[][] {
+  const { format, width, height, mipLevelCount } = texture;
+  const offsets = [];
+  let offset = 0;
+  for (let layer = 0; layer < texture.layers; layer++) {
+    const mips = [];
+    for (let mip = 0; mip < mipLevelCount; mip++) {
+      mips.push(offset);
+      offset += imageSize(format, width, height, mip);
+    }
+    offsets.push(mips);
+  }
+  return offsets;
+}
+
+/**
+ * Reads every layer and mip level of a 2D texture, which needs the
+ * `COPY_SRC` usage. Set `cube` for cube maps.
+ */
+export async function readTextureData(
+  device: GPUDevice,
+  texture: GPUTexture,
+  options: { cube?: boolean } = {},
+): Promise<TextureData> {
+  if (texture.dimension !== "2d") {
+    throw new Error(`${texture.dimension} textures cannot be stored`);
+  }
+  const images = [];
+  for (let layer = 0; layer < texture.depthOrArrayLayers; layer++) {
+    for (let mip = 0; mip < texture.mipLevelCount; mip++) {
+      const { data } = await readTexture(device, texture, {
+        mipLevel: mip,
+        arrayLayer: layer,
+      });
+      images.push(
+        new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+      );
+    }
+  }
+  const data = new Uint8Array(
+    images.reduce((size, image) => size + image.length, 0),
+  );
+  let offset = 0;
+  for (const image of images) {
+    data.set(image, offset);
+    offset += image.length;
+  }
+  return {
+    format: texture.format,
+    width: texture.width,
+    height: texture.height,
+    layers: texture.depthOrArrayLayers,
+    cube: options.cube ?? false,
+    mipLevelCount: texture.mipLevelCount,
+    data,
+  };
+}
+
+/**
+ * Creates a texture from `texture`, decompressing it when the device lacks
+ * the feature of its compressed format. Cube maps still need a view with the
+ * `cube` dimension.
+ */
+export function createTextureFromData(
+  device: GPUDevice,
+  texture: TextureData,
+  options: { label?: string; usage?: GPUTextureUsageFlags } = {},
+): GPUTexture {
+  return createCompressedTexture(device, {
+    label: options.label,
+    size: [texture.width, texture.height, texture.layers],
+    format: texture.format,
+    mipLevelCount: texture.mipLevelCount,
+    usage: GPUTextureUsage.TEXTURE_BINDING | (options.usage ?? 0),
+  }, texture.data);
+}
+
+// KTX2
+
+// «KTX 20»\r\n\x1a\n
+// deno-fmt-ignore
+const KTX2_IDENTIFIER = [
+  0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a,
+];
+const KTX2_HEADER_SIZE = 80;
+const KTX2_LEVEL_SIZE = 24;
+const SUPERCOMPRESSION_SCHEMES = ["none", "BasisLZ", "Zstandard", "ZLIB"];
+
+// Color models, channels and sample flags of data format descriptors.
+const DF_MODEL_RGBSDA = 1;
+const DF_MODELS: Record<string, number> = {
+  bc1: 128,
+  bc2: 129,
+  bc3: 130,
+  bc4: 131,
+  bc5: 132,
+  bc6h: 133,
+  bc7: 134,
+  etc2: 161,
+  eac: 161,
+  astc: 162,
+};
+const DF_CHANNEL_ALPHA = 15;
+const DF_SAMPLE_LINEAR = 0x10;
+const DF_SAMPLE_SIGNED = 0x40;
+const DF_SAMPLE_FLOAT = 0x80;
+const FLOAT_ONE = 0x3f800000;
+const FLOAT_MINUS_ONE = 0xbf800000;
+const FLOAT_INFINITY = 0x7f800000;
+
+/** One sample of a data format descriptor. */
+interface DfSample {
+  channel: number;
+  bitOffset: number;
+  bitLength: number;
+  flags: number;
+  lower: number;
+  upper: number;
+}
+
+/** The samples of the channels of uncompressed formats, in memory order. */
+function uncompressedSamples(format: GPUTextureFormat): DfSample[] {
+  const packed: Record<string, [string, number][]> = {
+    "rgb10a2unorm": [["r", 10], ["g", 10], ["b", 10], ["a", 2]],
+    "rgb10a2uint": [["r", 10], ["g", 10], ["b", 10], ["a", 2]],
+    "rg11b10ufloat": [["r", 11], ["g", 11], ["b", 10]],
+  };
+  const match = format.match(/^([rgba]+)(8|16|32)([a-z]+)/);
+  if (!match && !packed[format]) {
+    throw new Error(`${format} textures cannot be stored in KTX2 files`);
+  }
+  const channels = packed[format] ??
+    [...match![1]].map((channel) => [channel, Number(match![2])]);
+  const type = format.match(/(unorm|snorm|uint|sint|ufloat|float)/)![1];
+  let bitOffset = 0;
+  return channels.map(([channel, bits]) => {
+    const sample: DfSample = {
+      channel: channel === "a" ? DF_CHANNEL_ALPHA : "rgb".indexOf(channel),
+      bitOffset,
+      bitLength: bits,
+      flags: 0,
+      lower: 0,
+      upper: 1,
+    };
+    bitOffset += bits;
+    if (type === "unorm") {
+      sample.upper = 2 ** bits - 1;
+    } else if (type === "snorm") {
+      sample.flags = DF_SAMPLE_SIGNED;
+      sample.lower = -(2 ** (bits - 1) - 1) >>> 0;
+      sample.upper = 2 ** (bits - 1) - 1;
+    } else if (type === "sint") {
+      sample.flags = DF_SAMPLE_SIGNED;
+      sample.lower = 0xffffffff;
+    } else if (type === "float") {
+      sample.flags = DF_SAMPLE_SIGNED | DF_SAMPLE_FLOAT;
+      sample.lower = FLOAT_MINUS_ONE;
+      sample.upper = FLOAT_ONE;
+    } else if (type === "ufloat") {
+      sample.flags = DF_SAMPLE_FLOAT;
+      sample.upper = FLOAT_ONE;
+    }
+    if (channel === "a" && format.endsWith("-srgb")) {
+      sample.flags |= DF_SAMPLE_LINEAR;
+    }
+    return sample;
+  });
+}
+
+/** The samples of compressed formats, one per 64 bits of channels. */
+function compressedSamples(format: GPUTextureFormat): DfSample[] {
+  const { blockSize } = blockInfo(format);
+  const signed = /snorm|bc6h-rgb-float/.test(format);
+  const sample = (channel: number, bitOffset: number): DfSample => ({
+    channel,
+    bitOffset,
+    bitLength: blockSize === 8 || format.match(/^(bc[235]|etc2|eac)/)
+      ? 64
+      : 128,
+    flags: (signed ? DF_SAMPLE_SIGNED : 0) |
+      (format.startsWith("bc6h") ? DF_SAMPLE_FLOAT : 0),
+    lower: format.startsWith("bc6h")
+      ? signed ? FLOAT_MINUS_ONE : 0
+      : signed
+      ? 0x80000000
+      : 0,
+    upper: format.startsWith("bc6h")
+      ? FLOAT_INFINITY
+      : signed
+      ? 0x7fffffff
+      : 0xffffffff,
+  });
+  // Channels are numbered per color model.
+  if (format.startsWith("bc1")) return [sample(1, 0)];
+  if (/^(bc[23]|etc2-rgba8)/.test(format)) {
+    const color = format.startsWith("etc2") ? 2 : 0;
+    return [
+      { ...sample(DF_CHANNEL_ALPHA, 0), flags: 0 },
+      sample(color, 64),
+    ];
+  }
+  if (/^(bc5|eac-rg)/.test(format)) return [sample(0, 0), sample(1, 64)];
+  if (format.startsWith("etc2")) return [sample(2, 0)];
+  return [sample(0, 0)];
+}
+
+/** Encodes a basic data format descriptor, with its total size first. */
+function encodeDfd(format: GPUTextureFormat): Uint8Array {
+  const { blockWidth, blockHeight, blockSize } = blockInfo(format);
+  const compressed = blockWidth > 1 || blockHeight > 1;
+  const samples = compressed
+    ? compressedSamples(format)
+    : uncompressedSamples(format);
+  const blockLength = 24 + samples.length * 16;
+  const bytes = new Uint8Array(4 + blockLength);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, bytes.length, true);
+  // Vendor and descriptor type 0, version 2.
+  view.setUint32(4, 0, true);
+  view.setUint16(8, 2, true);
+  view.setUint16(10, blockLength, true);
+  view.setUint8(
+    12,
+    compressed ? DF_MODELS[format.split("-")[0]] : DF_MODEL_RGBSDA,
+  );
+  view.setUint8(13, 1); // BT.709 primaries
+  view.setUint8(14, format.endsWith("-srgb") ? 2 : 1);
+  view.setUint8(15, 0); // Straight alpha
+  view.setUint8(16, blockWidth - 1);
+  view.setUint8(17, blockHeight - 1);
+  view.setUint8(20, blockSize);
+  samples.forEach((sample, i) => {
+    const offset = 28 + i * 16;
+    view.setUint16(offset, sample.bitOffset, true);
+    view.setUint8(offset + 2, sample.bitLength - 1);
+    view.setUint8(offset + 3, sample.channel | sample.flags);
+    view.setUint32(offset + 8, sample.lower, true);
+    view.setUint32(offset + 12, sample.upper, true);
+  });
+  return bytes;
+}
+
+/** The size of the components of a format, or 1 for compressed formats. */
+function typeSize(format: GPUTextureFormat): number {
+  if (/^(rgb10a2|rg11b10)/.test(format)) return 4;
+  const bits = format.match(/^[rgba]+(8|16|32)/)?.[1];
+  return bits ? Number(bits) / 8 : 1;
+}
+
+const lcm = (a: number, b: number) => {
+  let x = a, y = b;
+  while (y) [x, y] = [y, x % y];
+  return a * b / x;
+};
+
+/**
+ * Reads a KTX2 file without supercompression into its texture data. The
+ * format is taken from the file's `vkFormat`.
+ */
+export function readKtx2(file: Uint8Array): TextureData {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  if (
+    file.length < KTX2_HEADER_SIZE ||
+    KTX2_IDENTIFIER.some((byte, i) => file[i] !== byte)
+  ) {
+    throw new Error("not a KTX2 file");
+  }
+  const header = [12, 16, 20, 24, 28, 32, 36, 40, 44].map((offset) =>
+    view.getUint32(offset, true)
+  );
+  const [
+    vkFormat,
+    ,
+    width,
+    height,
+    depth,
+    layerCount,
+    faceCount,
+    levelCount,
+    supercompression,
+  ] = header;
+  if (supercompression !== 0) {
+    throw new Error(
+      `KTX2 files with ${
+        SUPERCOMPRESSION_SCHEMES[supercompression] ??
+          `supercompression scheme ${supercompression}`
+      } supercompression are not supported`,
+    );
+  }
+  const format = (Object.keys(VK_FORMATS) as GPUTextureFormat[]).find(
+    (format) => VK_FORMATS[format] === vkFormat,
+  );
+  if (!format) throw new Error(`unsupported KTX2 vkFormat ${vkFormat}`);
+  if (depth > 0) throw new Error("3D KTX2 textures are not supported");
+
+  const texture: TextureData = {
+    format,
+    width,
+    height: Math.max(1, height),
+    layers: Math.max(1, layerCount) * faceCount,
+    cube: faceCount === 6,
+    mipLevelCount: Math.max(1, levelCount),
+    data: new Uint8Array(0),
+    metadata: {},
+  };
+
+  // Key/value pairs are a key and a value, both NUL terminated, each padded
+  // to 4 bytes.
+  const kvdOffset = view.getUint32(56, true);
+  const kvdEnd = kvdOffset + view.getUint32(60, true);
+  const decoder = new TextDecoder();
+  for (let offset = kvdOffset; offset + 4 <= kvdEnd;) {
+    const length = view.getUint32(offset, true);
+    const entry = file.subarray(offset + 4, offset + 4 + length);
+    const split = entry.indexOf(0);
+    const value = entry.subarray(split + 1);
+    texture.metadata![decoder.decode(entry.subarray(0, split))] = decoder
+      .decode(value.at(-1) === 0 ? value.subarray(0, -1) : value);
+    offset += 4 + Math.ceil(length / 4) * 4;
+  }
+
+  // Levels hold every layer and face, and are usually stored smallest first.
+  const offsets = imageOffsets(texture);
+  const last = offsets.at(-1)!.at(-1)!;
+  texture.data = new Uint8Array(
+    last + imageSize(format, width, height, texture.mipLevelCount - 1),
+  );
+  for (let mip = 0; mip < texture.mipLevelCount; mip++) {
+    const entry = KTX2_HEADER_SIZE + mip * KTX2_LEVEL_SIZE;
+    const levelOffset = Number(view.getBigUint64(entry, true));
+    const size = imageSize(format, width, height, mip);
+    if (
+      Number(view.getBigUint64(entry + 8, true)) < size * texture.layers ||
+      levelOffset + size * texture.layers > file.length
+    ) {
+      throw new Error(`KTX2 level ${mip} is truncated`);
+    }
+    for (let layer = 0; layer < texture.layers; layer++) {
+      const start = levelOffset + layer * size;
+      texture.data.set(
+        file.subarray(start, start + size),
+        offsets[layer][mip],
+      );
+    }
+  }
+  return texture;
+}
+
+/**
+ * Encodes a KTX2 file with a basic data format descriptor and the
+ * `KTXwriter` and `KTXorientation` keys besides `texture.metadata`.
+ */
+export function encodeKtx2(texture: TextureData): Uint8Array {
+  const { format, width, height, layers, cube, mipLevelCount } = texture;
+  const vkFormat = VK_FORMATS[format];
+  if (vkFormat === undefined) {
+    throw new Error(`${format} textures cannot be stored in KTX2 files`);
+  }
+  const dfd = encodeDfd(format);
+  const encoder = new TextEncoder();
+  const metadata: Record<string, string> = {
+    KTXorientation: "rd",
+    KTXwriter: "webgpu-examples",
+    ...texture.metadata,
+  };
+  // Keys are sorted by their bytes.
+  const entries = Object.keys(metadata).sort().map((key) => {
+    const entry = encoder.encode(`${key}\0${metadata[key]}\0`);
+    const bytes = new Uint8Array(4 + Math.ceil(entry.length / 4) * 4);
+    new DataView(bytes.buffer).setUint32(0, entry.length, true);
+    bytes.set(entry, 4);
+    return bytes;
+  });
+  const kvdLength = entries.reduce((size, entry) => size + entry.length, 0);
+
+  const dfdOffset = KTX2_HEADER_SIZE + mipLevelCount * KTX2_LEVEL_SIZE;
+  const kvdOffset = dfdOffset + dfd.length;
+  const alignment = lcm(blockInfo(format).blockSize, 4);
+  // Levels are stored smallest first, each aligned to whole blocks.
+  const levelOffsets: number[] = [];
+  let end = kvdOffset + kvdLength;
+  for (let mip = mipLevelCount - 1; mip >= 0; mip--) {
+    end = Math.ceil(end / alignment) * alignment;
+    levelOffsets[mip] = end;
+    end += imageSize(format, width, height, mip) * layers;
+  }
+
+  const bytes = new Uint8Array(end);
+  const view = new DataView(bytes.buffer);
+  bytes.set(KTX2_IDENTIFIER);
+  [
+    vkFormat,
+    typeSize(format),
+    width,
+    height,
+    0,
+    cube ? (layers === 6 ? 0 : layers / 6) : (layers === 1 ? 0 : layers),
+    cube ? 6 : 1,
+    mipLevelCount,
+    0,
+  ].forEach((value, i) => view.setUint32(12 + i * 4, value, true));
+  view.setUint32(48, dfdOffset, true);
+  view.setUint32(52, dfd.length, true);
+  view.setUint32(56, kvdLength ? kvdOffset : 0, true);
+  view.setUint32(60, kvdLength, true);
+  bytes.set(dfd, dfdOffset);
+  let offset = kvdOffset;
+  for (const entry of entries) {
+    bytes.set(entry, offset);
+    offset += entry.length;
+  }
+
+  const offsets = imageOffsets(texture);
+  for (let mip = 0; mip < mipLevelCount; mip++) {
+    const size = imageSize(format, width, height, mip);
+    const entry = KTX2_HEADER_SIZE + mip * KTX2_LEVEL_SIZE;
+    view.setBigUint64(entry, BigInt(levelOffsets[mip]), true);
+    view.setBigUint64(entry + 8, BigInt(size * layers), true);
+    view.setBigUint64(entry + 16, BigInt(size * layers), true);
+    for (let layer = 0; layer < layers; layer++) {
+      bytes.set(
+        texture.data.subarray(offsets[layer][mip], offsets[layer][mip] + size),
+        levelOffsets[mip] + layer * size,
+      );
+    }
+  }
+  return bytes;
+}
+
+// DDS
+
+const DDS_HEADER_SIZE = 128;
+const DX10_HEADER_SIZE = 20;
+
+/**
+ * Encodes a DDS file with a DX10 header, for the formats DXGI has, which
+ * excludes ETC2, EAC and ASTC.
+ */
+export function encodeDds(texture: TextureData): Uint8Array {
+  const { format, width, height, layers, cube, mipLevelCount } = texture;
+  const dxgiFormat = DXGI_FORMATS[format];
+  if (dxgiFormat === undefined) {
+    throw new Error(`${format} textures cannot be stored in DDS files`);
+  }
+  const { blockWidth, blockHeight, blockSize } = blockInfo(format);
+  const compressed = blockWidth > 1 || blockHeight > 1;
+  const dataOffset = DDS_HEADER_SIZE + DX10_HEADER_SIZE;
+  const bytes = new Uint8Array(dataOffset + texture.data.length);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(new TextEncoder().encode("DDS "));
+  view.setUint32(4, 124, true);
+  // Caps, height, width and pixel format, plus the mip count and either the
+  // size of the first level or its pitch.
+  view.setUint32(
+    8,
+    0x1007 | (mipLevelCount > 1 ? 0x20000 : 0) |
+      (compressed ? 0x80000 : 0x8),
+    true,
+  );
+  view.setUint32(12, height, true);
+  view.setUint32(16, width, true);
+  view.setUint32(
+    20,
+    compressed
+      ? imageSize(format, width, height, 0)
+      : Math.ceil(width / blockWidth) * blockSize,
+    true,
+  );
+  view.setUint32(28, mipLevelCount, true);
+  // The pixel format only says that a DX10 header follows.
+  view.setUint32(76, 32, true);
+  view.setUint32(80, 0x4, true);
+  bytes.set(new TextEncoder().encode("DX10"), 84);
+  view.setUint32(
+    108,
+    0x1000 | (mipLevelCount > 1 ? 0x400008 : 0) | (cube ? 0x8 : 0),
+    true,
+  );
+  view.setUint32(112, cube ? 0xfe00 : 0, true);
+
+  view.setUint32(128, dxgiFormat, true);
+  view.setUint32(132, 3, true); // Texture2D
+  view.setUint32(136, cube ? 0x4 : 0, true);
+  view.setUint32(140, cube ? layers / 6 : layers, true);
+  // Both the DDS and the texture data store all levels of one layer first.
+  bytes.set(texture.data, dataOffset);
+  return bytes;
+}
+
+/**
+ * Encodes the texture as KTX2 or DDS, picked by the extension of `path`, and
+ * writes the result to `path`.
+ */
+export function writeTextureFile(path: string, texture: TextureData): void {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  let file: Uint8Array;
+  if (extension === "ktx2") {
+    file = encodeKtx2(texture);
+  } else if (extension === "dds") {
+    file = encodeDds(texture);
+  } else {
+    throw new Error(`unsupported texture format ".${extension}"`);
+  }
+  Deno.writeFileSync(path, file);
+}
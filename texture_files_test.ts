@@ -0,0 +1,97 @@
+import { assertEquals } from "std/assert";
+import {
+  encodeDds,
+  encodeKtx2,
+  readKtx2,
+  TextureData,
+} from "./texture_files.ts";
+
+/**
+ * A cube array of two cube maps with every mip level of a 20x20 face, with
+ * random texels, so smaller levels have partial blocks.
+ */
+function cubeArray(
+  format: GPUTextureFormat,
+  [blockWidth, blockHeight]: number[],
+  blockSize: number,
+): TextureData {
+  const size = 20;
+  const mipLevelCount = 5;
+  const layers = 12;
+  let length = 0;
+  for (let mip = 0; mip < mipLevelCount; mip++) {
+    length += Math.ceil(Math.max(1, size >> mip) / blockWidth) *
+      Math.ceil(Math.max(1, size >> mip) / blockHeight) * blockSize * layers;
+  }
+  const data = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += 65536) {
+    crypto.getRandomValues(data.subarray(offset, offset + 65536));
+  }
+  return {
+    format,
+    width: size,
+    height: size,
+    layers,
+    cube: true,
+    mipLevelCount,
+    data,
+  };
+}
+
+for (
+  const [format, blockDimensions, blockSize] of [
+    ["rgba8unorm", [1, 1], 4],
+    ["bc1-rgba-unorm", [4, 4], 8],
+    ["rgba16float", [1, 1], 8],
+    ["astc-4x4-unorm", [4, 4], 16],
+  ] as const
+) {
+  Deno.test(`round-trips ${format} cube arrays with mips through KTX2`, () => {
+    const texture = cubeArray(format, [...blockDimensions], blockSize);
+    texture.metadata = { source: "texture_files_test" };
+    assertEquals(readKtx2(encodeKtx2(texture)), {
+      ...texture,
+      metadata: {
+        KTXorientation: "rd",
+        KTXwriter: "webgpu-examples",
+        source: "texture_files_test",
+      },
+    });
+  });
+}
+
+Deno.test("marks cube maps and mip levels in DDS headers", () => {
+  const texture = cubeArray("bc1-rgba-unorm", [4, 4], 8);
+  const file = encodeDds(texture);
+  const view = new DataView(file.buffer);
+  assertEquals(new TextDecoder().decode(file.subarray(0, 4)), "DDS ");
+  // DDSD_MIPMAPCOUNT and DDSD_LINEARSIZE, for compressed data.
+  assertEquals(view.getUint32(8, true) & 0xa0000, 0xa0000);
+  assertEquals(view.getUint32(28, true), 5);
+  assertEquals(new TextDecoder().decode(file.subarray(84, 88)), "DX10");
+  // DDSCAPS_COMPLEX, DDSCAPS_TEXTURE and DDSCAPS_MIPMAP.
+  assertEquals(view.getUint32(108, true), 0x401008);
+  // DDSCAPS2_CUBEMAP with all six faces.
+  assertEquals(view.getUint32(112, true), 0xfe00);
+  // DXGI_FORMAT_BC1_UNORM, a 2D texture, the cube flag and two cube maps.
+  assertEquals(view.getUint32(128, true), 71);
+  assertEquals(view.getUint32(132, true), 3);
+  assertEquals(view.getUint32(136, true), 0x4);
+  assertEquals(view.getUint32(140, true), 2);
+  assertEquals(file.subarray(148), texture.data);
+
+  // The first level of the first face, 5x5 blocks.
+  const flat = encodeDds({
+    ...texture,
+    layers: 1,
+    cube: false,
+    mipLevelCount: 1,
+    data: texture.data.subarray(0, 5 * 5 * 8),
+  });
+  const flatView = new DataView(flat.buffer);
+  assertEquals(flatView.getUint32(8, true) & 0x20000, 0);
+  assertEquals(flatView.getUint32(108, true), 0x1000);
+  assertEquals(flatView.getUint32(112, true), 0);
+  assertEquals(flatView.getUint32(136, true), 0);
+  assertEquals(flatView.getUint32(140, true), 1);
+});
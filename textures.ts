@@ -0,0 +1,155 @@
+import { createTextureWithData } from "std/webgpu";
+import { decodePng } from "./decoders.ts";
+import { readPngChunks } from "./encoders.ts";
+
+export type ColorSpace = "srgb" | "linear";
+
+export interface PngTextureOptions {
+  label?: string;
+  /**
+   * How the color channels are encoded. Defaults to what the `sRGB` or `gAMA`
+   * chunk of the file says, and otherwise to sRGB. Normal, roughness and
+   * other data maps should be loaded as linear.
+   */
+  colorSpace?: ColorSpace;
+  /** Generates the full mip chain. Defaults to false. */
+  mipmaps?: boolean;
+  /** Usages in addition to `TEXTURE_BINDING`. */
+  usage?: GPUTextureUsageFlags;
+}
+
+/** The color space a PNG file declares, if any. */
+export function pngColorSpace(file: Uint8Array): ColorSpace | undefined {
+  for (const chunk of readPngChunks(file)) {
+    if (chunk.type === "sRGB") return "srgb";
+    if (chunk.type === "gAMA") {
+      const view = new DataView(chunk.data.buffer, chunk.data.byteOffset);
+      // The gamma is stored times 100000, so linear images have 100000.
+      return Math.abs(view.getUint32(0) - 100000) < 1000 ? "linear" : "srgb";
+    }
+    if (chunk.type === "IDAT") break;
+  }
+}
+
+const srgbToLinear = (value: number) =>
+  value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+
+const linearToSrgb = (value: number) =>
+  value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+
+/**
+ * Halves an RGBA image, averaging colors weighted by their alpha so that
+ * transparent pixels don't bleed into opaque ones.
+ */
+function downsample(
+  data: Float32Array,
+  width: number,
+  height: number,
+): Float32Array {
+  const outWidth = Math.max(1, width >> 1);
+  const outHeight = Math.max(1, height >> 1);
+  const out = new Float32Array(outWidth * outHeight * 4);
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const sum = [0, 0, 0, 0];
+      for (const [dx, dy] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+        const sx = Math.min(x * 2 + dx, width - 1);
+        const sy = Math.min(y * 2 + dy, height - 1);
+        const i = (sy * width + sx) * 4;
+        const alpha = data[i + 3];
+        for (let c = 0; c < 3; c++) sum[c] += data[i + c] * alpha;
+        sum[3] += alpha;
+      }
+      const o = (y * outWidth + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        out[o + c] = sum[3] > 0 ? sum[c] / sum[3] : 0;
+      }
+      out[o + 3] = sum[3] / 4;
+    }
+  }
+  return out;
+}
+
+/**
+ * Decodes a PNG file of any color type and bit depth into a texture. 8-bit
+ * images become `rgba8unorm-srgb` or `rgba8unorm` textures, and 16-bit ones
+ * `rgba16float` textures holding linear values, as there is no 16-bit sRGB
+ * format.
+ */
+export function createPngTexture(
+  device: GPUDevice,
+  file: Uint8Array,
+  options: PngTextureOptions = {},
+): GPUTexture {
+  const { width, height, data } = decodePng(file);
+  const colorSpace = options.colorSpace ?? pngColorSpace(file) ?? "srgb";
+  const wide = data instanceof Uint16Array;
+  const format: GPUTextureFormat = wide
+    ? "rgba16float"
+    : colorSpace === "srgb"
+    ? "rgba8unorm-srgb"
+    : "rgba8unorm";
+  const mipLevelCount = options.mipmaps
+    ? Math.floor(Math.log2(Math.max(width, height))) + 1
+    : 1;
+
+  let texels: Uint8Array;
+  if (!wide && mipLevelCount === 1) {
+    texels = data;
+  } else {
+    // Filters and stores linear values, re-encoding sRGB 8-bit levels.
+    const max = wide ? 0xffff : 0xff;
+    let level: Float32Array = Float32Array.from(data, (value, i) => {
+      const normalized = value / max;
+      return colorSpace === "srgb" && i % 4 !== 3
+        ? srgbToLinear(normalized)
+        : normalized;
+    });
+    const encode = (values: Float32Array) =>
+      wide
+        ? new Uint8Array(Float16Array.from(values).buffer)
+        : Uint8Array.from(values, (value, i) =>
+          Math.round(
+            (colorSpace === "srgb" && i % 4 !== 3
+              ? linearToSrgb(value)
+              : value) * 255,
+          ));
+    const levels = [wide ? encode(level) : data];
+    for (let mip = 1; mip < mipLevelCount; mip++) {
+      level = downsample(
+        level,
+        Math.max(1, width >> (mip - 1)),
+        Math.max(1, height >> (mip - 1)),
+      );
+      levels.push(encode(level));
+    }
+    texels = new Uint8Array(
+      levels.reduce((size, levelData) => size + levelData.length, 0),
+    );
+    let offset = 0;
+    for (const levelData of levels) {
+      texels.set(levelData, offset);
+      offset += levelData.length;
+    }
+  }
+
+  return createTextureWithData(device, {
+    label: options.label,
+    size: [width, height],
+    format,
+    mipLevelCount,
+    usage: GPUTextureUsage.TEXTURE_BINDING | (options.usage ?? 0),
+  }, texels);
+}
+
+/** Reads a PNG file into a texture, see `createPngTexture`. */
+export async function loadPngTexture(
+  device: GPUDevice,
+  url: URL,
+  options: PngTextureOptions = {},
+): Promise<GPUTexture> {
+  return createPngTexture(device, await Deno.readFile(url), {
+    label: url.pathname.slice(url.pathname.lastIndexOf("/") + 1),
+    ...options,
+  });
+}
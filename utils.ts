@@ -1,6 +1,6 @@
-import { getRowPadding } from "std/webgpu";
+import { describeTextureFormat, getRowPadding } from "std/webgpu";
 import * as gmath from "gmath";
-import * as png from "png";
+import { GoldenOptions, saveOutput } from "./golden.ts";
 
 export interface Dimensions {
   width: number;
@@ -27,41 +27,315 @@ export function copyToBuffer(
   );
 }
 
-export async function createPng(
+export const CAPTURE_FORMATS = [
+  "rgba8unorm",
+  "rgba8unorm-srgb",
+  "bgra8unorm",
+  "bgra8unorm-srgb",
+] as const;
+export type CaptureFormat = typeof CAPTURE_FORMATS[number];
+
+/**
+ * Like `createCapture` from `std/webgpu`, but for any of the 4-byte color
+ * formats in `CAPTURE_FORMATS`.
+ */
+export function createCaptureTexture(
+  device: GPUDevice,
+  dimensions: Dimensions,
+  format: CaptureFormat,
+): { texture: GPUTexture; outputBuffer: GPUBuffer } {
+  const { padded } = getRowPadding(dimensions.width);
+  const outputBuffer = device.createBuffer({
+    label: "Capture",
+    size: padded * dimensions.height,
+    usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+  });
+  const texture = device.createTexture({
+    label: "Capture",
+    size: dimensions,
+    format,
+    usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.COPY_SRC,
+  });
+  return { texture, outputBuffer };
+}
+
+function removeRowPadding(
+  data: Uint8Array,
+  paddedBytesPerRow: number,
+  bytesPerRow: number,
+  rows: number,
+): Uint8Array {
+  const output = new Uint8Array(bytesPerRow * rows);
+  for (let row = 0; row < rows; row++) {
+    const start = row * paddedBytesPerRow;
+    output.set(data.subarray(start, start + bytesPerRow), row * bytesPerRow);
+  }
+  return output;
+}
+
+/**
+ * Reads back a buffer filled by `copyToBuffer`, removing the row padding and
+ * swizzling BGRA formats, and returns tightly packed RGBA8 pixels.
+ */
+export async function readPixels(
   buffer: GPUBuffer,
   dimensions: Dimensions,
-): Promise<void> {
+  format: CaptureFormat = "rgba8unorm-srgb",
+): Promise<Uint8Array> {
   await buffer.mapAsync(1);
-  const inputBuffer = new Uint8Array(buffer.getMappedRange());
   const { padded, unpadded } = getRowPadding(dimensions.width);
-  const outputBuffer = new Uint8Array(unpadded * dimensions.height);
+  const outputBuffer = removeRowPadding(
+    new Uint8Array(buffer.getMappedRange()),
+    padded,
+    unpadded,
+    dimensions.height,
+  );
+  buffer.unmap();
 
-  for (let i = 0; i < dimensions.height; i++) {
-    const slice = inputBuffer
-      .slice(i * padded, (i + 1) * padded)
-      .slice(0, unpadded);
+  if (format.startsWith("bgra")) {
+    for (let i = 0; i < outputBuffer.length; i += 4) {
+      const b = outputBuffer[i];
+      outputBuffer[i] = outputBuffer[i + 2];
+      outputBuffer[i + 2] = b;
+    }
+  }
 
-    outputBuffer.set(slice, i * unpadded);
+  return outputBuffer;
+}
+
+/**
+ * Copies `range` of `buffer`, which needs the `COPY_SRC` usage, into a staging
+ * buffer and returns it as a `type` array. Defaults to the whole buffer.
+ */
+export async function readBuffer<T extends TypedArray>(
+  device: GPUDevice,
+  buffer: GPUBuffer,
+  type: TypedArrayConstructor<T>,
+  range: { offset?: number; size?: number } = {},
+): Promise<T> {
+  const offset = range.offset ?? 0;
+  const size = range.size ?? buffer.size - offset;
+  const stagingBuffer = device.createBuffer({
+    label: "Staging Buffer",
+    size,
+    usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+  });
+  const encoder = device.createCommandEncoder();
+  encoder.copyBufferToBuffer(buffer, offset, stagingBuffer, 0, size);
+  device.queue.submit([encoder.finish()]);
+
+  await stagingBuffer.mapAsync(GPUMapMode.READ);
+  const data = new type(stagingBuffer.getMappedRange().slice(0));
+  stagingBuffer.unmap();
+  stagingBuffer.destroy();
+  return data;
+}
+
+export interface TextureImage extends Dimensions {
+  /**
+   * Format of `data`. For a single aspect of a depth-stencil texture, this is
+   * the format of that aspect, such as `depth32float` or `stencil8`.
+   */
+  format: GPUTextureFormat;
+  /**
+   * Tightly packed rows, typed after the channels of the format. Compressed
+   * formats hold their raw blocks in a `Uint8Array`.
+   */
+  data: TypedArray;
+}
+
+/** Formats the given aspect of a depth-stencil format is copied as. */
+function aspectFormat(
+  format: GPUTextureFormat,
+  aspect: GPUTextureAspect,
+): GPUTextureFormat {
+  const hasStencil = format.includes("stencil");
+  const hasDepth = format.startsWith("depth");
+  if (!hasDepth && !hasStencil) return format;
+  if (aspect === "all" && hasDepth && hasStencil) {
+    throw new Error(`pick the depth or stencil aspect to read ${format}`);
+  }
+  if (aspect === "stencil-only" || (aspect === "all" && !hasDepth)) {
+    return "stencil8";
+  }
+  if (format.startsWith("depth24plus")) {
+    throw new Error(`the depth aspect of ${format} cannot be copied`);
   }
+  return format === "depth16unorm" ? "depth16unorm" : "depth32float";
+}
 
-  const image = png.encode(
-    outputBuffer,
-    dimensions.width,
-    dimensions.height,
+function arrayTypeFor(
+  format: GPUTextureFormat,
+  compressed: boolean,
+): TypedArrayConstructor<TypedArray> {
+  if (compressed) return Uint8Array;
+  if (/32float/.test(format)) return Float32Array;
+  if (/32uint|^rgb10a2|^rg11b10|^rgb9e5/.test(format)) return Uint32Array;
+  if (/32sint/.test(format)) return Int32Array;
+  if (/16(float|uint|unorm)/.test(format)) return Uint16Array;
+  if (/16(sint|snorm)/.test(format)) return Int16Array;
+  if (/8(sint|snorm)/.test(format)) return Int8Array;
+  return Uint8Array;
+}
+
+/**
+ * Reads back one mip level of one array layer of `texture`, which needs the
+ * `COPY_SRC` usage. Depth-stencil textures need the `depth-only` or
+ * `stencil-only` aspect.
+ */
+export async function readTexture(
+  device: GPUDevice,
+  texture: GPUTexture,
+  options: {
+    mipLevel?: number;
+    arrayLayer?: number;
+    aspect?: GPUTextureAspect;
+  } = {},
+): Promise<TextureImage> {
+  const { mipLevel = 0, arrayLayer = 0, aspect = "all" } = options;
+  const format = aspectFormat(texture.format, aspect);
+  const info = describeTextureFormat(format);
+  if (info.blockSize === undefined) {
+    throw new Error(`${format} textures cannot be copied`);
+  }
+  const [blockWidth, blockHeight] = info.blockDimensions;
+  const width = Math.max(1, texture.width >> mipLevel);
+  const height = Math.max(1, texture.height >> mipLevel);
+  const blocksWide = Math.ceil(width / blockWidth);
+  const blocksHigh = Math.ceil(height / blockHeight);
+  const bytesPerRow = blocksWide * info.blockSize;
+  const paddedBytesPerRow = Math.ceil(bytesPerRow / 256) * 256;
+
+  const stagingBuffer = device.createBuffer({
+    label: "Staging Buffer",
+    size: paddedBytesPerRow * blocksHigh,
+    usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+  });
+  const encoder = device.createCommandEncoder();
+  encoder.copyTextureToBuffer(
+    { texture, mipLevel, origin: { z: arrayLayer }, aspect },
+    { buffer: stagingBuffer, bytesPerRow: paddedBytesPerRow },
+    // Copies cover whole blocks
     {
-      stripAlpha: true,
-      color: 2,
+      width: blocksWide * blockWidth,
+      height: blocksHigh * blockHeight,
     },
   );
-  Deno.writeFileSync("./output.png", image);
+  device.queue.submit([encoder.finish()]);
 
-  buffer.unmap();
+  await stagingBuffer.mapAsync(GPUMapMode.READ);
+  const bytes = removeRowPadding(
+    new Uint8Array(stagingBuffer.getMappedRange()),
+    paddedBytesPerRow,
+    bytesPerRow,
+    blocksHigh,
+  );
+  stagingBuffer.unmap();
+  stagingBuffer.destroy();
+
+  const type = arrayTypeFor(format, blockWidth > 1 || blockHeight > 1);
+  return { width, height, format, data: new type(bytes.buffer as ArrayBuffer) };
+}
+
+export interface OutputOptions extends GoldenOptions {
+  /** Defaults to `./output.png`. The extension picks the encoder. */
+  path?: string;
+}
+
+export async function createPng(
+  buffer: GPUBuffer,
+  dimensions: Dimensions,
+  options: OutputOptions & { format?: CaptureFormat } = {},
+): Promise<void> {
+  saveOutput(
+    options.path ?? "./output.png",
+    await readPixels(buffer, dimensions, options.format),
+    dimensions,
+    options,
+  );
+}
+
+/**
+ * Formats a shader compilation message with the file name, line and column,
+ * followed by the offending source line with the span underlined.
+ */
+export function formatCompilationMessage(
+  fileName: string,
+  code: string,
+  message: GPUCompilationMessage,
+): string {
+  const lines = code.split("\n");
+  if (message.lineNum < 1 || message.lineNum > lines.length) {
+    return `${message.type}: ${message.message}\n  --> ${fileName}`;
+  }
+
+  const line = lines[message.lineNum - 1];
+  const gutter = " ".repeat(String(message.lineNum).length);
+  const underline = Math.max(
+    1,
+    Math.min(message.length, line.length - message.linePos + 1),
+  );
+  return [
+    `${message.type}: ${message.message}`,
+    `${gutter}--> ${fileName}:${message.lineNum}:${message.linePos}`,
+    `${gutter} |`,
+    `${message.lineNum} | ${line}`,
+    `${gutter} | ${" ".repeat(message.linePos - 1)}${"^".repeat(underline)}`,
+  ].join("\n");
+}
+
+/**
+ * Creates a shader module from a WGSL file. Warnings are printed, and errors
+ * are thrown, formatted by `formatCompilationMessage`.
+ */
+export async function createShaderModuleFromFile(
+  device: GPUDevice,
+  url: URL,
+): Promise<GPUShaderModule> {
+  const code = Deno.readTextFileSync(url);
+  const fileName = url.pathname.slice(url.pathname.lastIndexOf("/") + 1);
+  const module = device.createShaderModule({ label: fileName, code });
+
+  const { messages } = await module.getCompilationInfo();
+  const errors = [];
+  for (const message of messages) {
+    const formatted = formatCompilationMessage(fileName, code, message);
+    if (message.type === "error") {
+      errors.push(formatted);
+    } else {
+      console.warn(formatted);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `${fileName} failed to compile:\n\n${errors.join("\n\n")}`,
+    );
+  }
+
+  return module;
+}
+
+export type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+export interface TypedArrayConstructor<T extends TypedArray> {
+  new (buffer: ArrayBuffer): T;
+  readonly BYTES_PER_ELEMENT: number;
 }
 
 interface BufferInit {
   label?: string;
   usage: number;
-  contents: ArrayBuffer;
+  contents: ArrayBuffer | Uint8Array;
 }
 
 export function createBufferInit(
@@ -95,3 +369,480 @@ export const OPENGL_TO_WGPU_MATRIX = gmath.Matrix4.from(
   0.0, 0.0, 0.5, 0.0,
   0.0, 0.0, 0.5, 1.0,
 );
+
+export type WgslScalar = "f32" | "i32" | "u32";
+
+/** Describes a host-shareable WGSL type. */
+export type WgslType =
+  | { kind: "scalar"; scalar: WgslScalar }
+  | { kind: "vector"; scalar: WgslScalar; size: 2 | 3 | 4 }
+  | { kind: "matrix"; columns: 2 | 3 | 4; rows: 2 | 3 | 4 }
+  /** Arrays without a `length` are runtime-sized. */
+  | { kind: "array"; element: WgslType; length?: number }
+  | { kind: "struct"; name?: string; members: Record<string, WgslType> };
+
+/**
+ * Values to write for a `WgslType`: a number for scalars, the components for
+ * vectors, the column-major elements for matrices (without the padding of
+ * 3-row columns), an array for arrays and an object for structs.
+ */
+export type WgslValue =
+  | number
+  | ArrayLike<number>
+  | WgslValue[]
+  | { [member: string]: WgslValue };
+
+export type AddressSpace = "uniform" | "storage";
+
+function vec(size: 2 | 3 | 4, scalar: WgslScalar = "f32"): WgslType {
+  return { kind: "vector", scalar, size };
+}
+
+function mat(columns: 2 | 3 | 4, rows: 2 | 3 | 4): WgslType {
+  return { kind: "matrix", columns, rows };
+}
+
+/** Constructors for `WgslType`s, named after their WGSL counterparts. */
+export const wgsl = {
+  f32: { kind: "scalar", scalar: "f32" } as WgslType,
+  i32: { kind: "scalar", scalar: "i32" } as WgslType,
+  u32: { kind: "scalar", scalar: "u32" } as WgslType,
+  vec2f: vec(2),
+  vec3f: vec(3),
+  vec4f: vec(4),
+  vec2i: vec(2, "i32"),
+  vec3i: vec(3, "i32"),
+  vec4i: vec(4, "i32"),
+  vec2u: vec(2, "u32"),
+  vec3u: vec(3, "u32"),
+  vec4u: vec(4, "u32"),
+  mat2x2f: mat(2, 2),
+  mat3x3f: mat(3, 3),
+  mat4x4f: mat(4, 4),
+  vec,
+  mat,
+  array(element: WgslType, length?: number): WgslType {
+    return { kind: "array", element, length };
+  },
+  struct(members: Record<string, WgslType>, name?: string): WgslType {
+    return { kind: "struct", name, members };
+  },
+};
+
+export interface WgslLayout {
+  align: number;
+  size: number;
+}
+
+function roundUp(alignment: number, value: number): number {
+  return Math.ceil(value / alignment) * alignment;
+}
+
+function arrayStride(element: WgslType, space: AddressSpace, path: string) {
+  const { align, size } = wgslLayout(element, space, 1, path);
+  const stride = roundUp(align, size);
+  if (space === "uniform" && stride % 16 !== 0) {
+    throw new Error(
+      `${path}: uniform arrays need a stride that is a multiple of 16, not ${stride}`,
+    );
+  }
+  return stride;
+}
+
+/** Offsets of the members of a struct, in declaration order. */
+function memberOffsets(
+  type: Extract<WgslType, { kind: "struct" }>,
+  space: AddressSpace,
+  runtimeLength: number,
+  path: string,
+): { offsets: Record<string, number>; layout: WgslLayout } {
+  const offsets: Record<string, number> = {};
+  let align = 1;
+  let end = 0;
+  // In uniform buffers, a struct member must be followed by at least
+  // roundUp(16, SizeOf(S)) bytes before the next member.
+  let minNextOffset = 0;
+  const names = Object.keys(type.members);
+  for (const [index, name] of names.entries()) {
+    const member = type.members[name];
+    const memberPath = `${path}.${name}`;
+    if (
+      member.kind === "array" && member.length === undefined &&
+      index !== names.length - 1
+    ) {
+      throw new Error(
+        `${memberPath}: only the last member can be a runtime-sized array`,
+      );
+    }
+    const layout = wgslLayout(member, space, runtimeLength, memberPath);
+    const offset = roundUp(layout.align, end);
+    if (space === "uniform") {
+      const structLike = member.kind === "struct" || member.kind === "array";
+      if (structLike && offset % 16 !== 0) {
+        throw new Error(
+          `${memberPath}: uniform ${member.kind} members need an offset that is a multiple of 16, not ${offset}`,
+        );
+      }
+      if (offset < minNextOffset) {
+        throw new Error(
+          `${memberPath}: uniform members after a struct need to start at offset ${minNextOffset}, not ${offset}`,
+        );
+      }
+      minNextOffset = member.kind === "struct"
+        ? offset + roundUp(16, layout.size)
+        : 0;
+    }
+    offsets[name] = offset;
+    align = Math.max(align, layout.align);
+    end = offset + layout.size;
+  }
+  return { offsets, layout: { align, size: roundUp(align, end) } };
+}
+
+function wgslLayout(
+  type: WgslType,
+  space: AddressSpace,
+  runtimeLength: number,
+  path: string,
+): WgslLayout {
+  switch (type.kind) {
+    case "scalar":
+      return { align: 4, size: 4 };
+    case "vector":
+      return { align: type.size === 2 ? 8 : 16, size: type.size * 4 };
+    case "matrix": {
+      const columnAlign = type.rows === 2 ? 8 : 16;
+      return { align: columnAlign, size: type.columns * columnAlign };
+    }
+    case "array": {
+      if (type.length === undefined && space === "uniform") {
+        throw new Error(
+          `${path}: uniform buffers cannot hold runtime-sized arrays`,
+        );
+      }
+      const { align } = wgslLayout(type.element, space, 1, path);
+      const stride = arrayStride(type.element, space, path);
+      return { align, size: stride * (type.length ?? runtimeLength) };
+    }
+    case "struct":
+      return memberOffsets(type, space, runtimeLength, path).layout;
+  }
+}
+
+/**
+ * Computes the alignment and size of `type` in the given address space,
+ * following the WGSL memory layout rules. Runtime-sized arrays are counted as
+ * `runtimeLength` elements. Throws when `type` breaks the additional layout
+ * constraints of uniform buffers.
+ */
+export function layoutOf(
+  type: WgslType,
+  space: AddressSpace = "uniform",
+  runtimeLength = 1,
+): WgslLayout {
+  return wgslLayout(
+    type,
+    space,
+    runtimeLength,
+    type.kind === "struct" ? type.name ?? "struct" : type.kind,
+  );
+}
+
+function writeValue(
+  view: DataView,
+  offset: number,
+  type: WgslType,
+  value: WgslValue,
+  space: AddressSpace,
+  path: string,
+) {
+  const writeScalar = (at: number, scalar: WgslScalar, x: number) => {
+    if (scalar === "f32") view.setFloat32(at, x, true);
+    else if (scalar === "i32") view.setInt32(at, x, true);
+    else view.setUint32(at, x, true);
+  };
+  const components = (count: number) => {
+    const values = value as ArrayLike<number>;
+    if (typeof value === "number" || values.length !== count) {
+      throw new Error(`${path}: expected ${count} components`);
+    }
+    return values;
+  };
+
+  switch (type.kind) {
+    case "scalar":
+      if (typeof value !== "number") {
+        throw new Error(`${path}: expected a number`);
+      }
+      writeScalar(offset, type.scalar, value);
+      break;
+    case "vector": {
+      const values = components(type.size);
+      for (let i = 0; i < type.size; i++) {
+        writeScalar(offset + i * 4, type.scalar, values[i]);
+      }
+      break;
+    }
+    case "matrix": {
+      const values = components(type.columns * type.rows);
+      const columnStride = type.rows === 2 ? 8 : 16;
+      for (let column = 0; column < type.columns; column++) {
+        for (let row = 0; row < type.rows; row++) {
+          view.setFloat32(
+            offset + column * columnStride + row * 4,
+            values[column * type.rows + row],
+            true,
+          );
+        }
+      }
+      break;
+    }
+    case "array": {
+      const elements = value as ArrayLike<WgslValue>;
+      if (type.length !== undefined && elements.length !== type.length) {
+        throw new Error(`${path}: expected ${type.length} elements`);
+      }
+      const stride = arrayStride(type.element, space, path);
+      for (let i = 0; i < elements.length; i++) {
+        writeValue(
+          view,
+          offset + i * stride,
+          type.element,
+          elements[i],
+          space,
+          `${path}[${i}]`,
+        );
+      }
+      break;
+    }
+    case "struct": {
+      const members = value as Record<string, WgslValue>;
+      const { offsets } = memberOffsets(type, space, 1, path);
+      for (const [name, member] of Object.entries(type.members)) {
+        if (!(name in members)) {
+          throw new Error(`${path}: missing member ${name}`);
+        }
+        writeValue(
+          view,
+          offset + offsets[name],
+          member,
+          members[name],
+          space,
+          `${path}.${name}`,
+        );
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Writes `value` laid out as `type` into `buffer` at `offset`, leaving the
+ * padding bytes untouched.
+ */
+export function writeStruct(
+  buffer: ArrayBuffer,
+  offset: number,
+  type: WgslType,
+  value: WgslValue,
+  space: AddressSpace = "uniform",
+) {
+  writeValue(
+    new DataView(buffer),
+    offset,
+    type,
+    value,
+    space,
+    type.kind === "struct" ? type.name ?? "struct" : type.kind,
+  );
+}
+
+/**
+ * Packs `value` into a new buffer laid out as `type`, with the padding WGSL
+ * expects. A runtime-sized array at the end of a struct is sized to fit the
+ * elements in `value`.
+ */
+export function packStruct(
+  type: WgslType,
+  value: WgslValue,
+  space: AddressSpace = "uniform",
+): ArrayBuffer {
+  let runtimeLength = 1;
+  if (type.kind === "array" && type.length === undefined) {
+    runtimeLength = (value as ArrayLike<WgslValue>).length;
+  } else if (type.kind === "struct") {
+    const names = Object.keys(type.members);
+    const last = type.members[names[names.length - 1]];
+    if (last?.kind === "array" && last.length === undefined) {
+      runtimeLength = ((value as Record<string, WgslValue>)[
+        names[names.length - 1]
+      ] as ArrayLike<WgslValue>)
+        .length;
+    }
+  }
+  const buffer = new ArrayBuffer(layoutOf(type, space, runtimeLength).size);
+  writeStruct(buffer, 0, type, value, space);
+  return buffer;
+}
+
+/**
+ * A uniform buffer that hands out slices aligned for use as dynamic offsets.
+ * Writes are kept on the CPU until `flush` uploads them in one `writeBuffer`.
+ *
+ * The buffer grows when an allocation does not fit, which replaces `buffer`,
+ * so bind groups should come from `bindGroup`, which recreates them then. The
+ * replaced buffer may still be used by encoded commands, so it is only
+ * destroyed by the next `reset` or `destroy`.
+ */
+export class UniformArena {
+  device: GPUDevice;
+  label?: string;
+  usage: number;
+  alignment: number;
+  buffer: GPUBuffer;
+  /** Bytes allocated so far. */
+  size = 0;
+  #data: Uint8Array;
+  #dirtyStart = Infinity;
+  #dirtyEnd = 0;
+  #bindGroups = new Map<GPUBindGroupLayout, Map<string, GPUBindGroup>>();
+  #retired: GPUBuffer[] = [];
+
+  constructor(device: GPUDevice, options: {
+    label?: string;
+    /** Initial size in bytes. Defaults to 4096. */
+    capacity?: number;
+    /** Defaults to `UNIFORM`; `COPY_DST` is always added. */
+    usage?: number;
+    /** Defaults to the `minUniformBufferOffsetAlignment` limit. */
+    alignment?: number;
+  } = {}) {
+    this.device = device;
+    this.label = options.label;
+    this.usage = (options.usage ?? GPUBufferUsage.UNIFORM) |
+      GPUBufferUsage.COPY_DST;
+    this.alignment = options.alignment ??
+      device.limits.minUniformBufferOffsetAlignment;
+    this.#data = new Uint8Array(options.capacity ?? 4096);
+    this.buffer = this.#createBuffer();
+  }
+
+  #createBuffer(): GPUBuffer {
+    return this.device.createBuffer({
+      label: this.label,
+      size: this.#data.byteLength,
+      usage: this.usage,
+    });
+  }
+
+  /** Reserves `size` bytes and returns their offset. */
+  allocate(size: number): number {
+    const offset = Math.ceil(this.size / this.alignment) * this.alignment;
+    const end = offset + size;
+    if (end > this.#data.byteLength) {
+      let capacity = this.#data.byteLength * 2;
+      while (capacity < end) capacity *= 2;
+      const data = new Uint8Array(capacity);
+      data.set(this.#data.subarray(0, this.size));
+      this.#data = data;
+      this.#retired.push(this.buffer);
+      this.buffer = this.#createBuffer();
+      this.#bindGroups.clear();
+      this.#markDirty(0, this.size);
+    }
+    this.size = end;
+    return offset;
+  }
+
+  /** Stages `data` to be uploaded at `offset` on the next `flush`. */
+  write(offset: number, data: ArrayBuffer | ArrayBufferView) {
+    const bytes = ArrayBuffer.isView(data)
+      ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+      : new Uint8Array(data);
+    if (offset + bytes.byteLength > this.size) {
+      throw new Error(
+        `write of ${bytes.byteLength} bytes at ${offset} is outside the allocated ${this.size} bytes`,
+      );
+    }
+    this.#data.set(bytes, offset);
+    this.#markDirty(offset, offset + bytes.byteLength);
+  }
+
+  /** Allocates a slice for `data` and writes it, returning its offset. */
+  push(data: ArrayBuffer | ArrayBufferView): number {
+    const offset = this.allocate(data.byteLength);
+    this.write(offset, data);
+    return offset;
+  }
+
+  #markDirty(start: number, end: number) {
+    this.#dirtyStart = Math.min(this.#dirtyStart, start);
+    this.#dirtyEnd = Math.max(this.#dirtyEnd, end);
+  }
+
+  /** Uploads everything written since the last flush. */
+  flush() {
+    if (this.#dirtyEnd <= this.#dirtyStart) return;
+    // writeBuffer needs a size that is a multiple of 4 bytes.
+    const start = this.#dirtyStart & ~3;
+    const end = Math.min(
+      Math.ceil(this.#dirtyEnd / 4) * 4,
+      this.#data.byteLength,
+    );
+    this.device.queue.writeBuffer(
+      this.buffer,
+      start,
+      this.#data,
+      start,
+      end - start,
+    );
+    this.#dirtyStart = Infinity;
+    this.#dirtyEnd = 0;
+  }
+
+  #destroyRetired() {
+    for (const buffer of this.#retired) buffer.destroy();
+    this.#retired = [];
+  }
+
+  /**
+   * Frees every allocation, for slices that are pushed anew every frame.
+   * Offsets handed out before are invalid afterwards, and the commands using
+   * them should have been submitted.
+   */
+  reset() {
+    this.size = 0;
+    this.#destroyRetired();
+  }
+
+  /** Destroys the buffer and those it replaced when growing. */
+  destroy() {
+    this.#destroyRetired();
+    this.buffer.destroy();
+    this.#bindGroups.clear();
+  }
+
+  /**
+   * Returns a bind group binding `size` bytes of the buffer at `binding`,
+   * to be used with the offsets of the slices as dynamic offsets. Bind groups
+   * are cached per layout, size and binding.
+   */
+  bindGroup(layout: GPUBindGroupLayout, size: number, binding = 0) {
+    let bindGroups = this.#bindGroups.get(layout);
+    if (!bindGroups) {
+      bindGroups = new Map();
+      this.#bindGroups.set(layout, bindGroups);
+    }
+    const key = `${size}:${binding}`;
+    let bindGroup = bindGroups.get(key);
+    if (!bindGroup) {
+      bindGroup = this.device.createBindGroup({
+        label: this.label,
+        layout,
+        entries: [{ binding, resource: { buffer: this.buffer, size } }],
+      });
+      bindGroups.set(key, bindGroup);
+    }
+    return bindGroup;
+  }
+}